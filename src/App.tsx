@@ -1,91 +1,87 @@
-import { useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Download, FileText, Filter, Play, Plus, Save, Trash2, Upload, Wrench, CheckCircle, HelpCircle, XCircle } from "lucide-react";
-
-type Operator = "AND" | "OR";
-
-type Block = {
-  id: string;
-  name: string;
-  terms: string[];
-  isRegex?: boolean;
-  exclude?: boolean;
-};
-
-type QueryConfig = {
-  blocks: Block[];
-  operators: Operator[];
-  caseInsensitive: boolean;
-  searchFields: {
-    title: boolean;
-    abstract: boolean;
-    keywords: boolean;
-  };
-};
-
-type RunOutput = {
-  matched: any[];
-  partial: any[];
-  unmatched: any[];
-  report: {
-    total: number;
-    eligible: number;
-    matched: number;
-    partial: number;
-    unmatched: number;
-  };
-  termStats: any;
-};
-
-const uid = () => Math.random().toString(36).slice(2);
+import { QueryTreeEditor } from "@/components/QueryTreeEditor";
+import { DatabaseExportPanel } from "@/components/DatabaseExportPanel";
+import { ParseDiagnostics } from "@/components/ParseDiagnostics";
+import { LibraryFiles } from "@/components/LibraryFiles";
+import { DedupSettings, DuplicateClusters } from "@/components/Deduplication";
+import { PrismaDiagram } from "@/components/PrismaDiagram";
+import { ScreeningPanel } from "@/components/ScreeningPanel";
+import { DualReview } from "@/components/DualReview";
+import { ProjectSwitcher } from "@/components/ProjectSwitcher";
+import { QueryHistory } from "@/components/QueryHistory";
+import { RunProgressPanel } from "@/components/RunProgressPanel";
+import { ThesaurusPanel } from "@/components/ThesaurusPanel";
+import { ConfigMetadataPanel } from "@/components/ConfigMetadata";
+import { SearchFieldsPanel } from "@/components/SearchFields";
+import { MetadataFiltersPanel } from "@/components/MetadataFilters";
+import { blockLabel, DEFAULT_FIELDS, DEFAULT_SEARCH_FIELDS, fieldLabel, fromFlatQuery, listBlocks, retainBlockFields, type FieldHits, type FieldName, type QueryConfig } from "@/lib/query";
+import { parseBooleanQuery, type QuerySyntaxError } from "@/lib/booleanQuery";
+import { DEFAULT_DEDUP } from "@/lib/dedup";
+import { addDecisionSet, buildDecisionSet, buildScreeningPackage, EMPTY_REVIEW, packageRows, parseDecisionSet, parseScreeningPackage, recordRound, type DualReviewState, type ReviewComparison } from "@/lib/dualReview";
+import { DEFAULT_EXCLUSION_REASONS, EMPTY_SCREENING, type ScreeningState } from "@/lib/screening";
+import { buildPrismaSvg, svgToPng } from "@/lib/prisma";
+import { runPrismaCounts, toCSV } from "@/lib/report";
+import { parseLibrary, type LibrarySource } from "@/lib/importers";
+import { BIB_EXPORT_MODES, buildBibExport, type BibExportMode } from "@/lib/bibExport";
+import { highlightSpans } from "@/lib/highlight";
+import { QUERY_DIALECTS, type QueryDialect } from "@/lib/queryDialects";
+import { buildProjectArchive, createProject, deleteProject, importProjectArchive, listProjects, loadProject, renameProject, saveProjectLibrary, saveProjectState, type Project, type ProjectMeta } from "@/lib/projectStore";
+import { recordVersion, type QueryVersion } from "@/lib/queryHistory";
+import { computeTermStats, type MatchedBib, type MatchedTermsMap, type RecordRow, type RunOutput, type RunProgress } from "@/lib/run";
+import { requestHitCounts, RunCancelledError, startRun, type RunHandle } from "@/lib/runClient";
+import type { HitCounts } from "@/lib/searchIndex";
+import { parseThesaurus, refreshExpansions, type Thesaurus } from "@/lib/thesaurus";
+import { buildConfigFile, CONFIG_VERSION, parseConfigFile } from "@/lib/configFile";
+import { uid } from "@/lib/utils";
+import { AlertTriangle, Download, FileText, Filter, Play, Save, Square, Trash2, Upload, Wrench, CheckCircle, HelpCircle, XCircle } from "lucide-react";
 
 const DEFAULT_CONFIG: QueryConfig = {
   caseInsensitive: true,
-  searchFields: { title: true, abstract: true, keywords: true },
-  blocks: [
-    {
-      id: uid(),
-      name: "Group 1",
-      terms: ["immersive virtual reality", "virtual reality"],
-    },
-    {
-      id: uid(),
-      name: "Group 2",
-      terms: ["remote experiment", "remote participation", "remote study", "remote VR", "online study", "home\\w*", "participant[-\\s]?owned HMD", "participant[-\\s]?provided HMD", "self[-\\s]?administered", "unsupervised", "participant[-\\s]?led", "self[-\\s]?conducted", "web[-\\s]?based", "crowdsourc\\w*", "prolific", "amazon mechanical turk", "MTurk", "out[-\\s]?of[-\\s]?lab", "outside the lab", "decentralized"],
-      isRegex: true,
-    },
-    {
-      id: uid(),
-      name: "Group 3",
-      terms: ["user", "online", "study", "experiment", "behavior", "cognition", "evaluation", "empirical", "perception", "participant", "controlled", "task performance", "human[-\\s]?subject", "data collection"],
-      isRegex: true,
-    },
-  ],
-  operators: ["AND", "AND"],
+  decodeLatex: true,
+  foldDiacritics: false,
+  dedup: DEFAULT_DEDUP,
+  fields: DEFAULT_FIELDS,
+  searchFields: DEFAULT_SEARCH_FIELDS,
+  filters: [],
+  query: fromFlatQuery(
+    [
+      {
+        id: uid(),
+        name: "Group 1",
+        terms: ["immersive virtual reality", "virtual reality"],
+      },
+      {
+        id: uid(),
+        name: "Group 2",
+        terms: ["remote experiment", "remote participation", "remote study", "remote VR", "online study", "home\\w*", "participant[-\\s]?owned HMD", "participant[-\\s]?provided HMD", "self[-\\s]?administered", "unsupervised", "participant[-\\s]?led", "self[-\\s]?conducted", "web[-\\s]?based", "crowdsourc\\w*", "prolific", "amazon mechanical turk", "MTurk", "out[-\\s]?of[-\\s]?lab", "outside the lab", "decentralized"],
+        isRegex: true,
+      },
+      {
+        id: uid(),
+        name: "Group 3",
+        terms: ["user", "online", "study", "experiment", "behavior", "cognition", "evaluation", "empirical", "perception", "participant", "controlled", "task performance", "human[-\\s]?subject", "data collection"],
+        isRegex: true,
+      },
+    ],
+    ["AND", "AND"]
+  ),
 };
 
-function safeRegExp(pattern: string, flags: string) {
-  try {
-    return new RegExp(pattern, flags);
-  } catch {
-    const escaped = pattern.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
-    return new RegExp(escaped, flags);
-  }
-}
+const NEW_PROJECT_STATE = { cfg: DEFAULT_CONFIG, versions: [], screening: EMPTY_SCREENING, review: EMPTY_REVIEW, thesaurus: null };
 
-type FieldName = "title" | "abstract" | "keywords";
+const LAST_PROJECT_KEY = "lsb:last-project";
 
-function colorForBlockName(name: string, cfg: any) {
+function colorForBlockName(name: string, cfg: QueryConfig) {
   const idx = Math.max(
     0,
-    cfg.blocks.findIndex((b: any, i: number) => (b.name || `Block ${i + 1}`) === name)
+    listBlocks(cfg.query).findIndex((b, i) => blockLabel(b, i) === name)
   );
   const palette = [
     { bg: "#F1F5FF", border: "#3B82F6" },
@@ -98,14 +94,23 @@ function colorForBlockName(name: string, cfg: any) {
   return palette[idx % palette.length];
 }
 
-function totalHits(fields: any) {
-  return (fields?.title?.length || 0) + (fields?.abstract?.length || 0) + (fields?.keywords?.length || 0);
+function totalHits(fields: FieldHits | undefined) {
+  return Object.values(fields || {}).reduce((n, list) => n + (list?.length || 0), 0);
+}
+
+function ExtraFields({ cfg, row }: { cfg: QueryConfig; row: Pick<RecordRow, "FieldsRaw" | "MatchedTermsMap"> }) {
+  return Object.entries(row.FieldsRaw || {}).map(([f, text]) => (
+    <div key={f} className="mt-3">
+      <div className="text-xs uppercase tracking-wide text-slate-500 mb-1">{fieldLabel(cfg, f)}</div>
+      <p className="text-sm text-slate-700" dangerouslySetInnerHTML={{ __html: highlightByBlocks(text, row.MatchedTermsMap || {}, cfg, f) }} />
+    </div>
+  ));
 }
 
-function MatchBreakdown({ cfg, matchedMap, caption }: { cfg: any; matchedMap: any; caption?: string }) {
+function MatchBreakdown({ cfg, matchedMap, caption }: { cfg: QueryConfig; matchedMap: MatchedTermsMap; caption?: string }) {
   const entries = Object.entries(matchedMap || {})
-    .filter(([_, f]: any) => totalHits(f) > 0)
-    .sort((a: any, b: any) => totalHits(b[1]) - totalHits(a[1]));
+    .filter(([, f]) => totalHits(f) > 0)
+    .sort((a, b) => totalHits(b[1]) - totalHits(a[1]));
 
   return (
     <div className="mt-2">
@@ -115,13 +120,9 @@ function MatchBreakdown({ cfg, matchedMap, caption }: { cfg: any; matchedMap: an
         <div className="text-xs text-slate-500">No term hits in selected fields.</div>
       ) : (
         <div className="flex flex-col gap-2">
-          {entries.map(([block, fields]: any) => {
+          {entries.map(([block, fields]) => {
             const { bg, border } = colorForBlockName(block, cfg);
-            const pills = [
-              { key: "Title", list: fields.title || [] },
-              { key: "Abstract", list: fields.abstract || [] },
-              { key: "Keywords", list: fields.keywords || [] },
-            ].filter((p) => p.list.length > 0);
+            const pills = cfg.fields.map((f) => ({ key: fieldLabel(cfg, f.id), list: fields[f.id] || [] })).filter((p) => p.list.length > 0);
 
             return (
               <div key={block} className="flex flex-wrap items-center gap-2">
@@ -160,180 +161,22 @@ function escapeHTML(s: string) {
   );
 }
 
-function compileRegexForBlockField(blockCfg: { name?: string; isRegex?: boolean } | undefined, hits: string[] | undefined, caseInsensitive: boolean): RegExp | null {
-  if (!blockCfg || !hits?.length) return null;
-  const sortDesc = (a: string, b: string) => b.length - a.length;
-
-  const source = `(?:${[...hits]
-    .sort(sortDesc)
-    .map((h) => toSmartWordPattern(h, !!blockCfg.isRegex))
-    .join("|")})`;
-
-  const flags = `g${caseInsensitive ? "i" : ""}`;
-  return new RegExp(source, flags);
-}
-
-type Span = { start: number; end: number; block: string; text: string };
-
-function collectSpans(text: string, arr: Array<{ block: string; re: RegExp }>): Span[] {
-  const spans: Span[] = [];
-  for (const { block, re } of arr) {
-    const rx = new RegExp(re.source, re.flags.includes("g") ? re.flags : re.flags + "g");
-    let m: RegExpExecArray | null;
-    while ((m = rx.exec(text))) {
-      spans.push({
-        start: m.index,
-        end: m.index + m[0].length,
-        block,
-        text: m[0],
-      });
-      if (m[0].length === 0) rx.lastIndex++;
-    }
-  }
-
-  spans.sort((a, b) => a.start - b.start || b.end - b.start - (a.end - a.start));
-  const picked: Span[] = [];
-  let lastEnd = -1;
-  for (const s of spans) {
-    if (s.start >= lastEnd) {
-      picked.push(s);
-      lastEnd = s.end;
-    }
-  }
-  return picked;
-}
-
-function highlightByBlocks(text: string, matchedTermsMap: Record<string, Partial<Record<FieldName, string[]>>>, cfg: QueryConfig, field: FieldName) {
+function highlightByBlocks(text: string, matchedTermsMap: MatchedTermsMap, cfg: QueryConfig, field: FieldName) {
   if (!text) return "";
-  const perBlock: Array<{ block: string; re: RegExp }> = [];
-
-  for (const [blockName, fields] of Object.entries(matchedTermsMap || {})) {
-    const blockCfg = cfg.blocks.find((b) => (b.name || "") === blockName);
-    const hits = (fields?.[field] || []) as string[];
-    const re = compileRegexForBlockField(blockCfg, hits, !!cfg.caseInsensitive);
-    if (re) perBlock.push({ block: blockName, re });
-  }
-
-  if (!perBlock.length) return escapeHTML(text);
-
-  const spans = collectSpans(text, perBlock);
-  if (!spans.length) return escapeHTML(text);
-
   let out = "";
   let pos = 0;
-  for (const s of spans) {
+  for (const s of highlightSpans(text, matchedTermsMap, cfg, field)) {
     const { bg, border } = colorForBlockName(s.block, cfg);
     out += escapeHTML(text.slice(pos, s.start));
-    out += `<mark class="hl" data-block="${escapeHTML(s.block)}" style="background:${bg};border:1px solid ${border};border-radius:0.25rem;padding:0 0.15em;">${escapeHTML(s.text)}</mark>`;
+    out += `<mark class="hl" data-block="${escapeHTML(s.block)}" style="background:${bg};border:1px solid ${border};border-radius:0.25rem;padding:0 0.15em;">${escapeHTML(text.slice(s.start, s.end))}</mark>`;
     pos = s.end;
   }
   out += escapeHTML(text.slice(pos));
   return out;
 }
 
-function parseBibtexEntries(text: string) {
-  const entries: any[] = [];
-  const src = text || "";
-  let i = 0;
-  const n = src.length;
-
-  const headerRe = /^@(\w+)\s*\{\s*/;
-  const fieldRe = /(\w+)\s*=\s*("(?:\\.|[^"\\])*"|\{(?:\\.|[^{}]|\{[^{}]*\})*\})\s*,?/gis;
-
-  while (i < n) {
-    const at = src.indexOf("@", i);
-    if (at === -1) break;
-
-    const head = src.slice(at);
-    const m = head.match(headerRe);
-    if (!m) {
-      i = at + 1;
-      continue;
-    }
-
-    const type = m[1];
-    let j = at + m[0].length;
-
-    let depth = 1;
-    let inQuote = false;
-    while (j < n) {
-      const ch = src[j];
-
-      if (ch === '"' && src[j - 1] !== "\\" && depth === 1) {
-        inQuote = !inQuote;
-        j++;
-        continue;
-      }
-
-      if (!inQuote) {
-        if (ch === "{") depth++;
-        else if (ch === "}") {
-          depth--;
-          if (depth === 0) {
-            j++;
-            break;
-          }
-        }
-      }
-      j++;
-    }
-
-    const chunk = src.slice(at, j).trim();
-
-    const citeKeyMatch = chunk.match(/^@\w+\s*\{\s*([^,]+)\s*,/s);
-    if (!citeKeyMatch) {
-      i = j;
-      continue;
-    }
-    const citekey = citeKeyMatch[1];
-
-    const fields: Record<string, string> = {};
-    let fm: RegExpExecArray | null;
-    while ((fm = fieldRe.exec(chunk))) {
-      const key = fm[1].toLowerCase();
-      const valRaw = fm[2].trim();
-      let val = valRaw;
-      if ((val.startsWith("{") && val.endsWith("}")) || (val.startsWith('"') && val.endsWith('"'))) {
-        val = val.slice(1, -1);
-      }
-      fields[key] = val;
-    }
-
-    entries.push({ entry_type: type, citekey, ...fields, __raw: chunk });
-    i = j;
-  }
-
-  if (entries.length === 0 && src.trim().length > 0) {
-    throw new Error("No BibTeX entries found. Did you forget the '@' symbol?");
-  }
-
-  return entries;
-}
-
-function buildBibEntry(entry: any) {
-  const { entry_type, citekey, __raw, ...fields } = entry;
-  const ordered = Object.entries(fields)
-    .filter(([k]) => !k.startsWith("__"))
-    .map(([k, v]) => `  ${k} = {${v}}`)
-    .join(",\n");
-  return `@${entry_type}{${citekey},\n${ordered}\n}`;
-}
-
-function csvEscape(s: string) {
-  if (s == null) return "";
-  const needs = /[",\n]/.test(s);
-  const t = String(s).replace(/"/g, '""');
-  return needs ? `"${t}"` : t;
-}
-
-function toCSV(rows: any[]) {
-  const headers = ["CiteKey", "Title", "Authors", "Year", "Venue", "URL/DOI", "Matched Blocks", "Matched Terms (by block & field)"];
-  const body = rows.map((r) => [r.CiteKey, r.Title, r.Authors, r.Year, r.Venue, r.URL, r.MatchedBlocks, r.MatchedTermsDetail].map(csvEscape).join(",")).join("\n");
-  return headers.join(",") + "\n" + body;
-}
-
-function download(filename: string, content: string, mime = "text/plain") {
-  const blob = new Blob([content], { type: mime + ";charset=utf-8" });
+function download(filename: string, content: string | Blob, mime = "text/plain") {
+  const blob = content instanceof Blob ? content : new Blob([content], { type: mime + ";charset=utf-8" });
   const url = URL.createObjectURL(blob);
   const a = document.createElement("a");
   a.href = url;
@@ -342,481 +185,209 @@ function download(filename: string, content: string, mime = "text/plain") {
   URL.revokeObjectURL(url);
 }
 
-function hasRegexMeta(s: string) {
-  return /[\\.^$|()[\]?+{}]/.test(s);
-}
-
-function escExceptStar(s: string) {
-  return s.replace(/[.+?^${}()|[\]\\]/g, "\\$&");
-}
-
-function toSmartWordPattern(term: string, isRegex: boolean) {
-  const t = term.trim();
-
-  if (isRegex && hasRegexMeta(t)) return t;
-
-  const trailingStar = /\*$/.test(t);
-  if (trailingStar) {
-    const stem = escExceptStar(t.slice(0, -1));
-    return `\\b${stem}[\\w-]*`;
-  }
-
-  return `\\b${escExceptStar(t)}\\b`;
-}
-
-function evaluateQueryOnText(_text: string, cfg: QueryConfig) {
-  const flags = cfg.caseInsensitive ? "i" : "";
-  const compiled = cfg.blocks
-    .map((b, idx) => {
-      const terms = (b.terms || []).filter((t) => t.trim().length > 0);
-      if (terms.length === 0) return null;
-      const regexes = terms.map((t) => safeRegExp(toSmartWordPattern(t, !!b.isRegex), flags));
-      return {
-        index: idx,
-        name: b.name || `Block ${idx + 1}`,
-        block: b,
-        terms,
-        regexes,
-      };
-    })
-    .filter(Boolean) as {
-    index: number;
-    name: string;
-    block: Block;
-    terms: string[];
-    regexes: RegExp[];
-  }[];
-
-  return function matchesByFields(fields: { title?: string; abstract?: string; keywords?: string }, selected: { title: boolean; abstract: boolean; keywords: boolean }) {
-    const texts: Record<"title" | "abstract" | "keywords", string> = {
-      title: selected.title ? fields.title || "" : "",
-      abstract: selected.abstract ? fields.abstract || "" : "",
-      keywords: selected.keywords ? fields.keywords || "" : "",
-    };
-
-    const matchedBlocks: string[] = [];
-    const detailed: Record<string, { title?: string[]; abstract?: string[]; keywords?: string[] }> = {};
-
-    const blockHitAtLeastOne = (cidx: number) => {
-      const c = compiled[cidx];
-      let any = false;
-      const perFieldHits: {
-        title?: string[];
-        abstract?: string[];
-        keywords?: string[];
-      } = {};
-      (Object.keys(texts) as Array<keyof typeof texts>).forEach((field) => {
-        const t = texts[field];
-        if (!t) return;
-        const hits: string[] = [];
-        c.regexes.forEach((re, i) => {
-          if (re.test(t)) hits.push(c.terms[i]);
-        });
-        if (hits.length > 0) {
-          (perFieldHits as any)[field] = hits;
-          any = true;
-        }
-      });
-      if (any && !compiled[cidx].block.exclude) detailed[compiled[cidx].name] = perFieldHits;
-      return any;
-    };
-
-    if (compiled.length === 0) return { ok: true, matchedBlocks, detailed };
-
-    const firstHit = blockHitAtLeastOne(0);
-    let val = compiled[0].block.exclude ? !firstHit : firstHit;
-    if (!compiled[0].block.exclude && firstHit) matchedBlocks.push(compiled[0].name);
-
-    for (let i = 0; i < cfg.operators.length && i + 1 < compiled.length; i++) {
-      const cidx = i + 1;
-      const hit = blockHitAtLeastOne(cidx);
-      const rhs = compiled[cidx].block.exclude ? !hit : hit;
-      const op = cfg.operators[i];
-      val = op === "AND" ? val && rhs : val || rhs;
-      if (!compiled[cidx].block.exclude && hit) matchedBlocks.push(compiled[cidx].name);
-    }
-
-    return { ok: val, matchedBlocks, detailed };
-  };
-}
-
-function parseBooleanQuery(input: string) {
-  if (!input) return null;
-  const s = input.replace(/\s+/g, " ").trim();
-
-  const groups: string[] = [];
-  let buf = "";
-  let depth = 0;
-  let inQuote = false;
-  let quoteChar = "";
-
-  const pushGroup = () => {
-    if (buf.trim().length) groups.push(buf.trim());
-    buf = "";
-  };
-
-  for (let i = 0; i < s.length; i++) {
-    const ch = s[i];
-
-    if (!inQuote && (ch === '"' || ch === "'")) {
-      inQuote = true;
-      quoteChar = ch;
-      buf += ch;
-      continue;
-    }
-    if (inQuote) {
-      buf += ch;
-      if (ch === quoteChar) {
-        inQuote = false;
-        quoteChar = "";
-      }
-      continue;
-    }
-    if (ch === "(") {
-      depth++;
-      buf += ch;
-      continue;
-    }
-    if (ch === ")") {
-      depth = Math.max(0, depth - 1);
-      buf += ch;
-      continue;
-    }
-
-    if (depth === 0 && s.slice(i, i + 3).toUpperCase() === "AND") {
-      const prev = s[i - 1],
-        next = s[i + 3];
-      if ((prev === " " || prev === ")") && (next === " " || next === "(" || next === undefined)) {
-        pushGroup();
-        i += 2;
-        continue;
-      }
-    }
-    buf += ch;
-  }
-  pushGroup();
-
-  const blocks: Block[] = [];
-  const operators: Operator[] = [];
-
-  groups.forEach((group, gi) => {
-    let g = group.trim();
-
-    let exclude = false;
-    if (/^NOT\s+/i.test(g)) {
-      exclude = true;
-      g = g.replace(/^NOT\s+/i, "").trim();
-    }
-
-    if (g.startsWith("(") && g.endsWith(")")) g = g.slice(1, -1).trim();
-
-    const terms: string[] = [];
-    let tb = "";
-    depth = 0;
-    inQuote = false;
-    quoteChar = "";
-    const pushTerm = () => {
-      const t = tb.trim();
-      if (t) terms.push(t);
-      tb = "";
-    };
-
-    for (let i = 0; i < g.length; i++) {
-      const ch = g[i];
-
-      if (!inQuote && (ch === '"' || ch === "'")) {
-        inQuote = true;
-        quoteChar = ch;
-        tb += ch;
-        continue;
-      }
-      if (inQuote) {
-        tb += ch;
-        if (ch === quoteChar) {
-          inQuote = false;
-          quoteChar = "";
-        }
-        continue;
-      }
-      if (ch === "(") {
-        depth++;
-        tb += ch;
-        continue;
-      }
-      if (ch === ")") {
-        depth = Math.max(0, depth - 1);
-        tb += ch;
-        continue;
-      }
-
-      if (depth === 0 && g.slice(i, i + 2).toUpperCase() === "OR") {
-        const prev = g[i - 1],
-          next = g[i + 2];
-        if ((prev === " " || prev === ")") && (next === " " || next === "(" || next === undefined)) {
-          pushTerm();
-          i += 1;
-          continue;
-        }
-      }
-      tb += ch;
-    }
-    pushTerm();
-
-    const cleanTerms = terms.map((t) => t.replace(/^["']|["']$/g, "").trim()).filter(Boolean);
-
-    blocks.push({
-      id: uid(),
-      name: `Group ${gi + 1}`,
-      terms: cleanTerms,
-      isRegex: false,
-      exclude,
-    });
-
-    if (gi < groups.length - 1) operators.push("AND");
-  });
-
-  return { blocks, operators };
-}
-
 export default function App() {
   const [bib, setBib] = useState<string>("");
+  const [sources, setSources] = useState<LibrarySource[]>([]);
+  const [loadingFiles, setLoadingFiles] = useState(false);
   const [cfg, setCfg] = useState<QueryConfig>(DEFAULT_CONFIG);
   const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState<RunProgress | null>(null);
+  const runRef = useRef<RunHandle | null>(null);
+  const [hitCounts, setHitCounts] = useState<HitCounts | null>(null);
   const [queryString, setQueryString] = useState<string>("");
+  const [queryErrors, setQueryErrors] = useState<QuerySyntaxError[]>([]);
+  const [queryWarnings, setQueryWarnings] = useState<string[]>([]);
+  const [queryDialect, setQueryDialect] = useState<QueryDialect | "auto">("auto");
   const fileRef = useRef<HTMLInputElement>(null);
-  const [matchedBib, setMatchedBib] = useState<string>("");
+  const packageRef = useRef<HTMLInputElement>(null);
+  const [matchedBib, setMatchedBib] = useState<MatchedBib>({ entries: [], stringDefs: {} });
+  const [bibExportMode, setBibExportMode] = useState<BibExportMode>("original");
   const [runOutput, setRunOutput] = useState<RunOutput | null>(null);
-
-  const addBlockAt = (index: number) => {
-    const nb: Block = {
-      id: uid(),
-      name: `Block ${cfg.blocks.length + 1}`,
-      terms: [""],
-      isRegex: false,
+  const [versions, setVersions] = useState<QueryVersion[]>([]);
+  const [screening, setScreening] = useState<ScreeningState>(EMPTY_SCREENING);
+  const [review, setReview] = useState<DualReviewState>(EMPTY_REVIEW);
+  const [thesaurus, setThesaurus] = useState<Thesaurus | null>(null);
+  const [tab, setTab] = useState("data");
+  const [projects, setProjects] = useState<ProjectMeta[]>([]);
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [saveStatus, setSaveStatus] = useState("");
+  const saved = useRef<Partial<Project>>({});
+
+  const applyProject = useCallback((p: Project) => {
+    saved.current = p;
+    setProjectId(p.id);
+    setCfg(p.cfg);
+    setVersions(p.versions);
+    setScreening(p.screening);
+    setReview(p.review);
+    setThesaurus(p.thesaurus);
+    setBib(p.bib);
+    setSources(p.sources);
+    setRunOutput(p.runOutput);
+    setMatchedBib(p.matchedBib);
+    setSaveStatus("");
+    localStorage.setItem(LAST_PROJECT_KEY, p.id);
+  }, []);
+
+  const trackSave = useCallback((save: Promise<ProjectMeta>) => {
+    setSaveStatus("Saving...");
+    save
+      .then((meta) => {
+        setSaveStatus("All changes saved");
+        setProjects((prev) => prev.map((p) => (p.id === meta.id ? meta : p)));
+      })
+      .catch((error) => setSaveStatus(`Not saved: ${error instanceof Error ? error.message : String(error)}`));
+  }, []);
+
+  useEffect(() => {
+    (async () => {
+      const list = await listProjects();
+      const last = localStorage.getItem(LAST_PROJECT_KEY);
+      const id = (list.find((p) => p.id === last) ?? list[0])?.id;
+      const project = (id && (await loadProject(id))) || (await createProject("Untitled project", NEW_PROJECT_STATE));
+      applyProject(project);
+      setProjects(await listProjects());
+    })().catch((error) => alert(`Projects are not available, changes will not be saved: ${error instanceof Error ? error.message : String(error)}`));
+  }, [applyProject]);
+
+  useEffect(() => {
+    const s = saved.current;
+    if (!projectId || (cfg === s.cfg && versions === s.versions && screening === s.screening && review === s.review && thesaurus === s.thesaurus)) return;
+    const timer = setTimeout(() => {
+      saved.current = { ...saved.current, cfg, versions, screening, review, thesaurus };
+      trackSave(saveProjectState(projectId, { cfg, versions, screening, review, thesaurus }));
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [projectId, cfg, versions, screening, review, thesaurus, trackSave]);
+
+  useEffect(() => {
+    const s = saved.current;
+    if (!projectId || (bib === s.bib && sources === s.sources && runOutput === s.runOutput && matchedBib === s.matchedBib)) return;
+    const timer = setTimeout(() => {
+      saved.current = { ...saved.current, bib, sources, runOutput, matchedBib };
+      trackSave(saveProjectLibrary(projectId, { bib, sources, runOutput, matchedBib }));
+    }, 1000);
+    return () => clearTimeout(timer);
+  }, [projectId, bib, sources, runOutput, matchedBib, trackSave]);
+
+  const hasLibrary = bib.trim().length > 0 || sources.length > 0;
+
+  useEffect(() => {
+    if (running || !hasLibrary || tab !== "query") return;
+    let stale = false;
+    const timer = setTimeout(() => {
+      requestHitCounts({ bib, sources, cfg })
+        .then((counts) => !stale && setHitCounts(counts))
+        .catch((error) => !stale && !(error instanceof RunCancelledError) && setHitCounts(null));
+    }, 300);
+    return () => {
+      stale = true;
+      clearTimeout(timer);
     };
-    const blocks = [...cfg.blocks.slice(0, index), nb, ...cfg.blocks.slice(index)];
-    const operators = [...cfg.operators];
-    if (index === 0) operators.unshift("AND");
-    else operators.splice(index, 0, "AND");
-    setCfg({ ...cfg, blocks, operators });
+  }, [bib, sources, cfg, running, hasLibrary, tab]);
+
+  const flushProject = async () => {
+    const s = saved.current;
+    if (!projectId) return;
+    if (cfg !== s.cfg || versions !== s.versions || screening !== s.screening || review !== s.review || thesaurus !== s.thesaurus) await saveProjectState(projectId, { cfg, versions, screening, review, thesaurus });
+    if (bib !== s.bib || sources !== s.sources || runOutput !== s.runOutput || matchedBib !== s.matchedBib) await saveProjectLibrary(projectId, { bib, sources, runOutput, matchedBib });
   };
 
-  const removeBlock = (id: string, idx: number) => {
-    const blocks = cfg.blocks.filter((b) => b.id !== id);
-    let operators = [...cfg.operators];
-    if (operators.length > 0) {
-      if (idx === 0) operators.shift();
-      else operators.splice(idx - 1, 1);
+  const openProject = async (open: () => Promise<Project | null>) => {
+    try {
+      await flushProject();
+      const project = await open();
+      if (project) applyProject(project);
+      setProjects(await listProjects());
+    } catch (error) {
+      alert(`Error opening project: ${error instanceof Error ? error.message : String(error)}`);
     }
-    setCfg({ ...cfg, blocks, operators });
   };
 
-  const updateBlock = (index: number, patch: Partial<Block>) => {
-    const blocks = [...cfg.blocks];
-    blocks[index] = { ...blocks[index], ...patch };
-    setCfg({ ...cfg, blocks });
+  const newProject = () => {
+    const name = prompt("Name of the new project", "Untitled project");
+    if (name === null) return;
+    openProject(() => createProject(name.trim() || "Untitled project", NEW_PROJECT_STATE));
   };
 
-  const updateOperator = (index: number, op: Operator) => {
-    const operators = [...cfg.operators];
-    operators[index] = op;
-    setCfg({ ...cfg, operators });
+  const renameCurrentProject = () => {
+    const current = projects.find((p) => p.id === projectId);
+    if (!current) return;
+    const name = prompt("Rename project", current.name)?.trim();
+    if (!name || name === current.name) return;
+    renameProject(current.id, name)
+      .then(() => listProjects())
+      .then(setProjects)
+      .catch((error: Error) => alert(`Error renaming project: ${error.message}`));
   };
 
-  function computeTermStats(rows: any[]) {
-    type Field = "title" | "abstract" | "keywords";
-
-    const overallDocCounts = new Map<string, number>();
-    const overallFieldCounts: Record<Field, Map<string, number>> = {
-      title: new Map(),
-      abstract: new Map(),
-      keywords: new Map(),
-    };
-
-    const perBlock: Record<string, Record<string, { docCount: number; fields: Record<Field, number> }>> = {};
-
-    for (const r of rows) {
-      const mtm = (r.MatchedTermsMap || {}) as Record<string, Partial<Record<Field, string[]>>>;
-
-      const seenOverall = new Set<string>();
-      const seenInBlock = new Map<string, Set<string>>();
-
-      for (const [blockName, fields] of Object.entries(mtm)) {
-        perBlock[blockName] ||= {};
-        if (!seenInBlock.has(blockName)) seenInBlock.set(blockName, new Set());
-
-        (["title", "abstract", "keywords"] as Field[]).forEach((f) => {
-          const terms = (fields?.[f] || []) as string[];
-          for (const term of terms) {
-            const blk = (perBlock[blockName][term] ||= {
-              docCount: 0,
-              fields: { title: 0, abstract: 0, keywords: 0 },
-            });
-            blk.fields[f]++;
-
-            const seenBlockSet = seenInBlock.get(blockName)!;
-            if (!seenBlockSet.has(term)) {
-              blk.docCount++;
-              seenBlockSet.add(term);
-            }
-
-            overallFieldCounts[f].set(term, (overallFieldCounts[f].get(term) || 0) + 1);
-
-            if (!seenOverall.has(term)) {
-              overallDocCounts.set(term, (overallDocCounts.get(term) || 0) + 1);
-              seenOverall.add(term);
-            }
-          }
-        });
-      }
+  const deleteCurrentProject = async () => {
+    const current = projects.find((p) => p.id === projectId);
+    if (!current || !confirm(`Delete the project "${current.name}" with its libraries, results and screening decisions? This cannot be undone.`)) return;
+    try {
+      await deleteProject(current.id);
+      const rest = await listProjects();
+      applyProject((rest[0] && (await loadProject(rest[0].id))) || (await createProject("Untitled project", NEW_PROJECT_STATE)));
+      setProjects(await listProjects());
+    } catch (error) {
+      alert(`Error deleting project: ${error instanceof Error ? error.message : String(error)}`);
     }
+  };
 
-    cfg.blocks.forEach((b, idx) => {
-      const name = b.name || `Block ${idx + 1}`;
-      perBlock[name] ||= {};
-      (b.terms || []).forEach((raw) => {
-        const term = (raw || "").trim();
-        if (!term) return;
-        perBlock[name][term] ||= {
-          docCount: 0,
-          fields: { title: 0, abstract: 0, keywords: 0 },
-        };
-      });
-    });
-
-    const overallTop = [...overallDocCounts.entries()].sort((a, b) => b[1] - a[1]).map(([term, docCount]) => ({ term, docCount }));
-
-    const topByBlock = Object.fromEntries(
-      Object.entries(perBlock).map(([blockName, termMap]) => {
-        const list = Object.entries(termMap)
-          .map(([term, v]) => ({
-            term,
-            docCount: v.docCount,
-            fields: v.fields,
-          }))
-          .sort((a, b) => b.docCount - a.docCount);
-        return [blockName, list];
-      })
-    );
-
-    return {
-      totalMatchedStudies: rows.length,
-      overallTop,
-      topByBlock,
-      perBlock,
-      overallFieldCounts: Object.fromEntries((["title", "abstract", "keywords"] as Field[]).map((f) => [f, Object.fromEntries(overallFieldCounts[f])])),
-    };
-  }
+  const exportProject = () => {
+    const current = projects.find((p) => p.id === projectId);
+    if (!current) return;
+    const slug = current.name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "project";
+    buildProjectArchive({ ...current, cfg, versions, screening, review, thesaurus, bib, sources, runOutput, matchedBib })
+      .then((archive) => download(`${slug}.lsbproj`, archive))
+      .catch((error: Error) => alert(`Error exporting project: ${error.message}`));
+  };
 
   const run = () => {
+    runRef.current?.cancel();
+    const runCfg = cfg;
+    setProgress(null);
+    const handle = startRun({ bib, sources, cfg: runCfg }, (p) => setProgress((prev) => ({ ...p, matched: [...(prev?.matched ?? []), ...p.matched] })));
+    runRef.current = handle;
     setRunning(true);
-    setRunOutput(null);
-    try {
-      const entries = parseBibtexEntries(bib);
-      const matcher = evaluateQueryOnText(bib, cfg);
-
-      let eligible = 0;
-      const matchedRows: any[] = [];
-      const partialRows: any[] = [];
-      const unmatchedRows: any[] = [];
-      const matchedBibEntries: string[] = [];
-
-      for (const e of entries) {
-        const title = (e.title || "").toString();
-        const abstract = (e.abstract || e.abs || e.summary || "").toString();
-        const keywords = (e.keywords || e.keyword || "").toString();
-
-        const hasAny = (cfg.searchFields.title && title) || (cfg.searchFields.abstract && abstract) || (cfg.searchFields.keywords && keywords);
-
-        const cleanTitle = title.replace(/\s+/g, " ").replace(/[{}]/g, "").trim();
-        const authors = (e.author || "").replace(/\s+/g, " ").trim();
-        const year = (e.year || "").trim();
-        const venue = (e.booktitle || e.journal || "").replace(/\s+/g, " ").trim();
-        const doi = (e.doi || "").trim();
-        const url = (e.url || (doi ? `https://doi.org/${doi}` : "")).trim();
-        const baseEntry = {
-          CiteKey: e.citekey,
-          Title: cleanTitle,
-          Authors: authors,
-          Year: year,
-          Venue: venue,
-          URL: url,
-        };
-
-        if (hasAny) eligible++;
-
-        const { ok, matchedBlocks, detailed } = matcher({ title, abstract, keywords }, cfg.searchFields);
-
-        const detailPieces: string[] = [];
-        Object.entries(detailed).forEach(([blockName, fields]) => {
-          const parts: string[] = [];
-          if (fields.title?.length) parts.push(`Title: ${fields.title.join(" | ")}`);
-          if (fields.abstract?.length) parts.push(`Abstract: ${fields.abstract.join(" | ")}`);
-          if (fields.keywords?.length) parts.push(`Keywords: ${fields.keywords.join(" | ")}`);
-          if (parts.length) detailPieces.push(`${blockName} [${parts.join("; ")}]`);
-        });
+    handle.result
+      .then(({ output, matchedBib }) => {
+        setRunOutput(output);
+        setMatchedBib(matchedBib);
+        setVersions((prev) => recordVersion(prev, runCfg, output.report, output.matched.map((r) => ({ CiteKey: r.CiteKey, Title: r.Title }))));
+      })
+      .catch((error) => {
+        if (error instanceof RunCancelledError) return;
+        alert(`Error processing BibTeX: ${error instanceof Error ? error.message : String(error)}`);
+        setRunOutput(null);
+      })
+      .finally(() => {
+        if (runRef.current !== handle) return;
+        runRef.current = null;
+        setRunning(false);
+        setProgress(null);
+      });
+  };
 
-        if (ok && hasAny) {
-          matchedRows.push({
-            ...baseEntry,
-            TitleRaw: title,
-            AbstractRaw: abstract,
-            KeywordsRaw: keywords,
-            MatchedBlocks: matchedBlocks.join("; "),
-            MatchedTermsDetail: detailPieces.join("; "),
-            MatchedTermsMap: detailed,
-          });
-          matchedBibEntries.push(buildBibEntry(e));
-        } else if (hasAny && Object.keys(detailed).length > 0) {
-          const allPosBlocks = cfg.blocks.filter((b) => !b.exclude).map((b, j) => b.name || `Block ${j + 1}`);
-          const hitBlocks = Object.keys(detailed);
-          const missingBlocks = allPosBlocks.filter((n) => !hitBlocks.includes(n));
-
-          partialRows.push({
-            ...baseEntry,
-            TitleRaw: title,
-            AbstractRaw: abstract,
-            KeywordsRaw: keywords,
-            MatchedTermsMap: detailed,
-            MatchedTermsDetail: detailPieces.join("; "),
-            PartialBlocks: hitBlocks.join("; "),
-            MissingBlocks: missingBlocks.join("; "),
-          });
-        } else if (hasAny) {
-          unmatchedRows.push({
-            ...baseEntry,
-            TitleRaw: title,
-            AbstractRaw: abstract,
-            KeywordsRaw: keywords,
-            MatchedTermsMap: detailed || {},
-          });
-        }
-      }
+  const cancelRun = () => {
+    runRef.current?.cancel();
+  };
 
-      const report = {
-        total: entries.length,
-        eligible,
-        matched: matchedRows.length,
-        partial: partialRows.length,
-        unmatched: unmatchedRows.length,
-      };
-
-      const stats = computeTermStats(matchedRows);
-
-      setRunOutput({
-        matched: matchedRows,
-        partial: partialRows,
-        unmatched: unmatchedRows,
-        report,
-        termStats: stats,
-      });
+  const toggleDuplicateCluster = (key: string) => {
+    const keepSeparate = cfg.dedup.keepSeparate.includes(key) ? cfg.dedup.keepSeparate.filter((k) => k !== key) : [...cfg.dedup.keepSeparate, key];
+    setCfg({ ...cfg, dedup: { ...cfg.dedup, keepSeparate } });
+  };
 
-      setMatchedBib(matchedBibEntries.join("\n\n"));
-    } catch (error: any) {
-      alert(`Error processing BibTeX: ${error.message}`);
-      setRunOutput(null);
+  const addLibraryFiles = async (files: File[]) => {
+    setLoadingFiles(true);
+    try {
+      const loaded: LibrarySource[] = [];
+      for (const file of files) loaded.push(parseLibrary(file.name, await file.text(), undefined, uid()));
+      setSources((prev) => [...prev, ...loaded]);
+    } catch (error) {
+      alert(`Error reading file: ${error instanceof Error ? error.message : String(error)}`);
     } finally {
-      setRunning(false);
+      setLoadingFiles(false);
     }
   };
 
@@ -840,38 +411,156 @@ export default function App() {
   };
 
   const saveConfig = () => {
-    const json = JSON.stringify(cfg, null, 2);
+    const json = JSON.stringify(buildConfigFile(cfg), null, 2);
     download("query_config.json", json, "application/json");
   };
 
   const loadConfig = (file: File) => {
     file.text().then((t) => {
       try {
-        const obj = JSON.parse(t);
-        if (obj.blocks && obj.operators) setCfg(obj);
-      } catch {}
+        const { cfg: next, migratedFrom, warnings } = parseConfigFile(t);
+        setCfg(next);
+        const notes = [...(migratedFrom ? [`This config was saved in an older format and was upgraded to version ${CONFIG_VERSION}. Save it again to keep the new format.`] : []), ...warnings];
+        if (notes.length > 0) alert(`Config loaded.\n\n${notes.join("\n")}`);
+      } catch (error) {
+        alert(`Could not load ${file.name}.\n\n${error instanceof Error ? error.message : String(error)}`);
+      }
     });
   };
 
   const exportCSV = () => {
     if (!runOutput || runOutput.matched.length === 0) return;
-    download("matches.csv", toCSV(runOutput.matched), "text/csv");
+    download("matches.csv", toCSV(runOutput.matched, screening), "text/csv");
+  };
+
+  const exportScreeningPackage = () => {
+    if (!runOutput) return;
+    const pkg = buildScreeningPackage(runOutput.matched, cfg, screening.reasons, review.round);
+    download(`screening-package-round${review.round}.json`, JSON.stringify(pkg, null, 2), "application/json");
+  };
+
+  const loadScreeningPackage = (file: File) => {
+    file.text().then((t) => {
+      try {
+        const pkg = parseScreeningPackage(JSON.parse(t));
+        if (Object.keys(screening.decisions).length > 0 && !confirm("Loading a screening package replaces the current records and your screening decisions. Continue?")) return;
+        const n = pkg.records.length;
+        setCfg(pkg.config);
+        setRunOutput({
+          matched: packageRows(pkg),
+          partial: [],
+          unmatched: [],
+          report: { total: n, duplicates: 0, sources: [{ name: "Screening package", count: n }], filtered: 0, filters: [], eligible: n, matched: n, partial: 0, unmatched: 0 },
+          termStats: computeTermStats(pkg.records, pkg.config),
+          diagnostics: [],
+          duplicates: { clusters: [], separated: [] },
+        });
+        setMatchedBib({ entries: [], stringDefs: {} });
+        setScreening({ decisions: {}, reasons: pkg.reasons.length ? pkg.reasons : DEFAULT_EXCLUSION_REASONS });
+        setReview({ ...review, round: pkg.round });
+        setTab("run");
+      } catch (error) {
+        alert(`Error loading screening package: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    });
+  };
+
+  const exportDecisions = () => {
+    const reviewer = review.reviewer.trim();
+    const slug = reviewer.toLowerCase().replace(/[^a-z0-9]+/g, "-") || "reviewer";
+    download(`decisions-${slug}-round${review.round}.json`, JSON.stringify(buildDecisionSet(screening, reviewer, review.round), null, 2), "application/json");
+  };
+
+  const importDecisions = (files: File[]) => {
+    Promise.all(files.map((f) => f.text()))
+      .then((texts) => {
+        let next = review;
+        for (const t of texts) next = addDecisionSet(next, parseDecisionSet(JSON.parse(t)));
+        setReview(next);
+      })
+      .catch((error: Error) => alert(`Error importing decisions: ${error.message}`));
+  };
+
+  const recordReviewRound = (comparison: ReviewComparison) => {
+    setReview(recordRound(review, comparison));
+  };
+
+  const renderScreeningRecord = (r: RunOutput["matched"][number]) => (
+    <div className="rounded-2xl border bg-white p-4 shadow-sm">
+      <div className="text-sm text-slate-500">
+        {r.CiteKey} · {r.Year}
+        {r.Source ? ` · ${r.Source}` : ""}
+      </div>
+      <div className="text-lg font-medium leading-snug mt-1" dangerouslySetInnerHTML={{ __html: highlightByBlocks(r.TitleRaw || r.Title || "", r.MatchedTermsMap, cfg, "title") }} />
+      <div className="text-sm text-slate-600 mt-1">{r.Authors}</div>
+      <div className="text-sm text-slate-600">{r.Venue}</div>
+      {r.URL && (
+        <a className="text-sm text-blue-600 underline mt-1 inline-block" href={r.URL} target="_blank" rel="noreferrer">
+          Open
+        </a>
+      )}
+      {r.AbstractRaw && <p className="text-sm text-slate-700 whitespace-pre-line mt-3" dangerouslySetInnerHTML={{ __html: highlightByBlocks(r.AbstractRaw, r.MatchedTermsMap, cfg, "abstract") }} />}
+      {r.KeywordsRaw && <p className="text-sm text-slate-500 mt-3" dangerouslySetInnerHTML={{ __html: highlightByBlocks(r.KeywordsRaw, r.MatchedTermsMap, cfg, "keywords") }} />}
+      <ExtraFields cfg={cfg} row={r} />
+    </div>
+  );
+
+  const prismaSvg = useMemo(() => (runOutput ? buildPrismaSvg(runPrismaCounts(runOutput, screening)) : ""), [runOutput, screening]);
+
+  const exportPrismaSvg = () => {
+    download("prisma.svg", prismaSvg, "image/svg+xml");
+  };
+
+  const exportPrismaPng = () => {
+    svgToPng(prismaSvg)
+      .then((png) => download("prisma.png", png))
+      .catch((error: Error) => alert(`Error exporting PNG: ${error.message}`));
   };
 
   const exportBib = () => {
-    download("matches.bib", matchedBib, "text/plain");
+    download("matches.bib", buildBibExport(matchedBib.entries, matchedBib.stringDefs, bibExportMode), "text/plain");
+  };
+
+  const restoreVersion = (version: QueryVersion) => {
+    setCfg(version.cfg);
+    setTab("query");
+  };
+
+  const loadThesaurus = async (file: File) => {
+    try {
+      const loaded = parseThesaurus(file.name, await file.text());
+      setThesaurus(loaded);
+      setCfg((prev) => ({ ...prev, query: refreshExpansions(prev.query, loaded) }));
+    } catch (error) {
+      alert(`Error loading thesaurus: ${error instanceof Error ? error.message : String(error)}`);
+    }
   };
 
   const applyPastedQuery = () => {
-    const parsed = parseBooleanQuery(queryString);
-    if (parsed) setCfg({ ...cfg, blocks: parsed.blocks, operators: parsed.operators });
+    const { query, errors, warnings, searchFields } = parseBooleanQuery(queryString, queryDialect);
+    setQueryErrors(errors);
+    setQueryWarnings(warnings);
+    if (query) setCfg({ ...cfg, query, searchFields: searchFields ?? cfg.searchFields });
   };
 
   return (
     <div className="min-h-screen bg-gradient-to-b from-white to-slate-50 p-6">
       <div className="mx-auto max-w-6xl grid gap-6">
-        <header className="flex items-center justify-between">
-          <h1 className="text-3xl font-semibold tracking-tight">Literature Search Builder</h1>
+        <header className="flex flex-wrap items-center justify-between gap-4">
+          <div className="grid gap-2">
+            <h1 className="text-3xl font-semibold tracking-tight">Literature Search Builder</h1>
+            <ProjectSwitcher
+              projects={projects}
+              currentId={projectId}
+              status={saveStatus}
+              onSwitch={(id) => openProject(() => loadProject(id))}
+              onCreate={newProject}
+              onRename={renameCurrentProject}
+              onDelete={deleteCurrentProject}
+              onExport={exportProject}
+              onImport={(file) => openProject(() => importProjectArchive(file))}
+            />
+          </div>
           <div className="flex gap-2">
             <Button variant="secondary" onClick={saveConfig} title="Save query config">
               <Save className="h-4 w-4 mr-2" />
@@ -895,9 +584,9 @@ export default function App() {
           </div>
         </header>
 
-        <Tabs defaultValue="data">
+        <Tabs value={tab} onValueChange={setTab}>
           <TabsList className="grid grid-cols-3 w-full">
-            <TabsTrigger value="data">1. Paste BibTeX</TabsTrigger>
+            <TabsTrigger value="data">1. Load Library</TabsTrigger>
             <TabsTrigger value="query">2. Build Query</TabsTrigger>
             <TabsTrigger value="run">3. Run & Report</TabsTrigger>
           </TabsList>
@@ -905,6 +594,27 @@ export default function App() {
           <TabsContent value="data">
             <Card className="shadow-sm">
               <CardContent className="p-6 grid gap-4">
+                <Label className="text-base">Library files</Label>
+                <LibraryFiles sources={sources} loading={loadingFiles} onAdd={addLibraryFiles} onRemove={(id) => setSources((prev) => prev.filter((s) => s.id !== id))} />
+                <DedupSettings options={cfg.dedup} onChange={(dedup) => setCfg({ ...cfg, dedup })} />
+                <div className="flex items-center gap-3 text-sm text-slate-600">
+                  <span>Second reviewer? Load the screening package you received instead of a library.</span>
+                  <Button variant="outline" size="sm" onClick={() => packageRef.current?.click()}>
+                    <Upload className="h-4 w-4 mr-2" />
+                    Load Screening Package
+                  </Button>
+                  <input
+                    ref={packageRef}
+                    type="file"
+                    accept="application/json,.json"
+                    className="hidden"
+                    onChange={(e) => {
+                      const f = e.target.files?.[0];
+                      if (f) loadScreeningPackage(f);
+                      e.currentTarget.value = "";
+                    }}
+                  />
+                </div>
                 <div className="flex items-center justify-between">
                   <Label className="text-base">BibTeX input</Label>
                   <div className="flex gap-2">
@@ -931,7 +641,27 @@ export default function App() {
                   <div className="flex items-center justify-between">
                     <Label className="text-base">Paste Boolean Query</Label>
                     <div className="flex gap-2">
-                      <Button variant="outline" onClick={() => setQueryString("")}>
+                      <Select value={queryDialect} onValueChange={(v: QueryDialect | "auto") => setQueryDialect(v)}>
+                        <SelectTrigger className="w-48" title="Search syntax of the pasted query">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="auto">Detect syntax</SelectItem>
+                          {QUERY_DIALECTS.map((d) => (
+                            <SelectItem key={d.id} value={d.id}>
+                              {d.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        variant="outline"
+                        onClick={() => {
+                          setQueryString("");
+                          setQueryErrors([]);
+                          setQueryWarnings([]);
+                        }}
+                      >
                         <Trash2 className="h-4 w-4 mr-2" />
                         Clear
                       </Button>
@@ -941,7 +671,34 @@ export default function App() {
                       </Button>
                     </div>
                   </div>
-                  <Textarea value={queryString} onChange={(e) => setQueryString(e.target.value)} placeholder={`("virtual reality" OR "immersive virtual reality") AND ("remote study" OR "online study") AND ("participant")`} className="min-h-[120px] font-mono text-sm" />
+                  <Textarea value={queryString} onChange={(e) => setQueryString(e.target.value)} placeholder={`("virtual reality" OR "immersive virtual reality") AND ("remote study" OR "online study") AND ("participant")\nTITLE-ABS-KEY("virtual reality" OR vr*) AND PUBYEAR > 2015\n"virtual reality"[tiab] OR "Virtual Reality"[MeSH]`} className="min-h-[120px] font-mono text-sm" />
+                  {queryErrors.length > 0 && (
+                    <div className="rounded-xl border border-red-200 bg-red-50 p-3 text-sm text-red-700 grid gap-2">
+                      {queryErrors.map((err, i) => (
+                        <div key={i}>
+                          <div>
+                            <XCircle className="h-4 w-4 inline mr-1 align-text-bottom" />
+                            {err.message} (at character {err.position + 1})
+                          </div>
+                          <pre className="mt-1 font-mono text-xs whitespace-pre-wrap break-all">
+                            {queryString.slice(Math.max(0, err.position - 40), err.position)}
+                            <span className="bg-red-200 underline decoration-wavy">{queryString.slice(err.position, err.position + Math.max(1, err.length)) || " "}</span>
+                            {queryString.slice(err.position + Math.max(1, err.length), err.position + 40)}
+                          </pre>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  {queryWarnings.length > 0 && (
+                    <ul className="rounded-xl border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800 grid gap-1">
+                      {queryWarnings.map((w, i) => (
+                        <li key={i} className="flex gap-1">
+                          <AlertTriangle className="h-4 w-4 shrink-0 mt-0.5" />
+                          <span>{w}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
                 </div>
 
                 <div className="flex items-center justify-between">
@@ -952,133 +709,32 @@ export default function App() {
                       <span>Case-insensitive</span>
                       <Switch checked={cfg.caseInsensitive} onCheckedChange={(v) => setCfg({ ...cfg, caseInsensitive: v })} />
 
-                      <span className="ml-4">Fields:</span>
-                      <div className="flex items-center gap-2">
-                        <span className="text-slate-600">Title</span>
-                        <Switch
-                          checked={cfg.searchFields.title}
-                          onCheckedChange={(v) =>
-                            setCfg({
-                              ...cfg,
-                              searchFields: { ...cfg.searchFields, title: v },
-                            })
-                          }
-                        />
-                      </div>
-                      <div className="flex items-center gap-2">
-                        <span className="text-slate-600">Abstract</span>
-                        <Switch
-                          checked={cfg.searchFields.abstract}
-                          onCheckedChange={(v) =>
-                            setCfg({
-                              ...cfg,
-                              searchFields: {
-                                ...cfg.searchFields,
-                                abstract: v,
-                              },
-                            })
-                          }
-                        />
-                      </div>
-                      <div className="flex items-center gap-2">
-                        <span className="text-slate-600">Keywords</span>
-                        <Switch
-                          checked={cfg.searchFields.keywords}
-                          onCheckedChange={(v) =>
-                            setCfg({
-                              ...cfg,
-                              searchFields: {
-                                ...cfg.searchFields,
-                                keywords: v,
-                              },
-                            })
-                          }
-                        />
-                      </div>
+                      <span className="ml-4" title="Decode accents, remove protective braces and formatting macros before matching">
+                        Decode LaTeX
+                      </span>
+                      <Switch checked={cfg.decodeLatex} onCheckedChange={(v) => setCfg({ ...cfg, decodeLatex: v })} />
+
+                      <span className="ml-4" title="Match ö, é, ł as o, e, l in both terms and records">
+                        Fold diacritics
+                      </span>
+                      <Switch checked={cfg.foldDiacritics} onCheckedChange={(v) => setCfg({ ...cfg, foldDiacritics: v })} />
                     </div>
                   </div>
-                  <Button onClick={() => addBlockAt(cfg.blocks.length)}>
-                    <Plus className="h-4 w-4 mr-2" />
-                    Add Block
-                  </Button>
                 </div>
 
-                <div className="grid gap-4">
-                  {cfg.blocks.map((b, i) => (
-                    <div key={b.id} className="rounded-2xl border bg-white shadow-sm p-4">
-                      <div className="flex flex-wrap items-center gap-3 justify-between">
-                        <div className="flex items-center gap-3">
-                          <Input value={b.name} onChange={(e) => updateBlock(i, { name: e.target.value })} className="w-56" />
-                          <div className="flex items-center gap-2 text-sm text-slate-600">
-                            <span>Regex</span>
-                            <Switch checked={!!b.isRegex} onCheckedChange={(v) => updateBlock(i, { isRegex: v })} />
-                          </div>
-                          <div className="flex items-center gap-2 text-sm text-slate-600">
-                            <span>Exclude (NOT)</span>
-                            <Switch checked={!!b.exclude} onCheckedChange={(v) => updateBlock(i, { exclude: v })} />
-                          </div>
-                        </div>
-                        <div className="flex gap-2">
-                          <Button variant="destructive" onClick={() => removeBlock(b.id, i)}>
-                            <Trash2 className="h-4 w-4 mr-2" />
-                            Remove
-                          </Button>
-                          <Button variant="outline" onClick={() => addBlockAt(i)}>
-                            <Plus className="h-4 w-4 mr-2" />
-                            Insert Above
-                          </Button>
-                          <Button variant="outline" onClick={() => addBlockAt(i + 1)}>
-                            <Plus className="h-4 w-4 mr-2" />
-                            Insert Below
-                          </Button>
-                        </div>
-                      </div>
-                      <div className="mt-3 grid gap-2">
-                        {b.terms.map((t, ti) => (
-                          <div key={ti} className="flex items-center gap-2">
-                            <Input
-                              value={t}
-                              onChange={(e) => {
-                                const terms = [...b.terms];
-                                terms[ti] = e.target.value;
-                                updateBlock(i, { terms });
-                              }}
-                              placeholder={b.isRegex ? "regex term" : "literal term"}
-                            />
-                            <Button
-                              variant="ghost"
-                              onClick={() => {
-                                const terms = b.terms.filter((_, k) => k !== ti);
-                                updateBlock(i, { terms });
-                              }}
-                            >
-                              <Trash2 className="h-4 w-4" />
-                            </Button>
-                          </div>
-                        ))}
-                        <Button variant="secondary" onClick={() => updateBlock(i, { terms: [...b.terms, ""] })}>
-                          <Plus className="h-4 w-4 mr-2" />
-                          Add term
-                        </Button>
-                      </div>
+                <SearchFieldsPanel fields={cfg.fields} selected={cfg.searchFields} onChange={(fields, searchFields) => setCfg({ ...cfg, fields, searchFields, query: retainBlockFields(cfg.query, new Set(fields.map((f) => f.id))) })} />
 
-                      {i < cfg.blocks.length - 1 && (
-                        <div className="mt-4 flex items-center justify-center gap-3">
-                          <Select value={cfg.operators[i]} onValueChange={(v: Operator) => updateOperator(i, v as Operator)}>
-                            <SelectTrigger className="w-40">
-                              <SelectValue placeholder={cfg.operators[i]} />
-                            </SelectTrigger>
-                            <SelectContent>
-                              <SelectItem value="AND">AND</SelectItem>
-                              <SelectItem value="OR">OR</SelectItem>
-                            </SelectContent>
-                          </Select>
-                          <span className="text-sm text-slate-500">(operator to next block)</span>
-                        </div>
-                      )}
-                    </div>
-                  ))}
-                </div>
+                <ThesaurusPanel thesaurus={thesaurus} onLoad={loadThesaurus} onClear={() => setThesaurus(null)} />
+
+                <QueryTreeEditor root={cfg.query} onChange={(query) => setCfg({ ...cfg, query })} nextBlockName={() => `Block ${listBlocks(cfg.query).length + 1}`} fields={cfg} counts={hasLibrary ? hitCounts : null} thesaurus={thesaurus} />
+
+                <MetadataFiltersPanel filters={cfg.filters} onChange={(filters) => setCfg({ ...cfg, filters })} counts={hasLibrary ? (hitCounts?.filters ?? null) : null} />
+
+                <DatabaseExportPanel cfg={cfg} />
+
+                <ConfigMetadataPanel metadata={cfg.metadata} onChange={(metadata) => setCfg({ ...cfg, metadata })} />
+
+                <QueryHistory versions={versions} onRestore={restoreVersion} />
               </CardContent>
             </Card>
           </TabsContent>
@@ -1090,27 +746,64 @@ export default function App() {
                     <Filter className="h-4 w-4" /> Ready to filter
                   </div>
                   <div className="flex gap-2">
-                    <Button onClick={run} disabled={running}>
-                      <Play className="h-4 w-4 mr-2" />
-                      {running ? "Running..." : "Execute"}
-                    </Button>
+                    {running ? (
+                      <Button variant="destructive" onClick={cancelRun}>
+                        <Square className="h-4 w-4 mr-2" />
+                        Cancel
+                      </Button>
+                    ) : (
+                      <Button onClick={run}>
+                        <Play className="h-4 w-4 mr-2" />
+                        Execute
+                      </Button>
+                    )}
                     <Button variant="outline" onClick={exportCSV} disabled={!runOutput || runOutput.matched.length === 0}>
                       <Download className="h-4 w-4 mr-2" />
                       Export CSV
                     </Button>
+                    <Select value={bibExportMode} onValueChange={(v: BibExportMode) => setBibExportMode(v)}>
+                      <SelectTrigger className="w-48" title="Formatting of exported .bib entries">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {BIB_EXPORT_MODES.map((m) => (
+                          <SelectItem key={m.id} value={m.id}>
+                            {m.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
                     <Button variant="outline" onClick={exportBib} disabled={!runOutput || runOutput.matched.length === 0}>
                       <Download className="h-4 w-4 mr-2" />
                       Export .bib
                     </Button>
+                    <Button variant="outline" onClick={exportPrismaSvg} disabled={!runOutput}>
+                      <Download className="h-4 w-4 mr-2" />
+                      PRISMA SVG
+                    </Button>
+                    <Button variant="outline" onClick={exportPrismaPng} disabled={!runOutput}>
+                      <Download className="h-4 w-4 mr-2" />
+                      PRISMA PNG
+                    </Button>
                   </div>
                 </div>
 
+                {running && progress && <RunProgressPanel progress={progress} />}
+
                 {runOutput?.report && (
-                  <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                  <div className="grid grid-cols-2 md:grid-cols-7 gap-3">
                     <div className="rounded-2xl border p-4 bg-white shadow-sm">
                       <div className="text-xs text-slate-500">Total entries</div>
                       <div className="text-2xl font-semibold">{runOutput.report.total}</div>
                     </div>
+                    <div className="rounded-2xl border p-4 bg-white shadow-sm">
+                      <div className="text-xs text-slate-500">Duplicates removed</div>
+                      <div className="text-2xl font-semibold">{runOutput.report.duplicates}</div>
+                    </div>
+                    <div className="rounded-2xl border p-4 bg-white shadow-sm" title={(runOutput.report.filters ?? []).map((f) => `${f.label}: ${f.count}`).join("\n")}>
+                      <div className="text-xs text-slate-500">Excluded by filters</div>
+                      <div className="text-2xl font-semibold">{runOutput.report.filtered ?? 0}</div>
+                    </div>
                     <div className="rounded-2xl border p-4 bg-white shadow-sm">
                       <div className="text-xs text-slate-500">With selected fields</div>
                       <div className="text-2xl font-semibold">{runOutput.report.eligible}</div>
@@ -1129,6 +822,9 @@ export default function App() {
                     </div>
                   </div>
                 )}
+                {runOutput && <PrismaDiagram svg={prismaSvg} />}
+                {runOutput && <ParseDiagnostics diagnostics={runOutput.diagnostics} />}
+                {runOutput && <DuplicateClusters clusters={runOutput.duplicates.clusters} separated={runOutput.duplicates.separated} onToggle={toggleDuplicateCluster} />}
                 {runOutput?.termStats && (
                   <div className="grid gap-4">
                     <div className="flex items-center justify-between mt-2">
@@ -1151,7 +847,7 @@ export default function App() {
                       <div className="rounded-2xl border p-4 bg-white shadow-sm">
                         <div className="text-xs text-slate-500">Top 3 terms overall</div>
                         <ul className="mt-1 text-sm">
-                          {runOutput.termStats.overallTop.slice(0, 3).map((t: any, i: number) => (
+                          {runOutput.termStats.overallTop.slice(0, 3).map((t, i) => (
                             <li key={i} className="flex justify-between">
                               <span className="truncate">{t.term}</span>
                               <span className="text-slate-500">{t.docCount}</span>
@@ -1163,8 +859,8 @@ export default function App() {
                       <div className="rounded-2xl border p-4 bg-white shadow-sm">
                         <div className="text-xs text-slate-500">Field leaders (overall)</div>
                         <ul className="mt-1 text-sm">
-                          {(["title", "abstract", "keywords"] as const).map((f) => {
-                            const entries = Object.entries(runOutput.termStats.overallFieldCounts[f] || {}).sort((a: any, b: any) => (b[1] as number) - (a[1] as number));
+                          {Object.keys(runOutput.termStats.overallFieldCounts).map((f) => {
+                            const entries = Object.entries(runOutput.termStats.overallFieldCounts[f] || {}).sort((a, b) => b[1] - a[1]);
                             const top = entries[0];
                             return (
                               <li key={f} className="flex justify-between">
@@ -1178,14 +874,14 @@ export default function App() {
                     </div>
 
                     <div className="grid gap-3">
-                      {Object.entries(runOutput.termStats.topByBlock).map(([blockName, list]: any) => (
+                      {Object.entries(runOutput.termStats.topByBlock).map(([blockName, list]) => (
                         <div key={blockName} className="rounded-2xl border bg-white shadow-sm">
                           <div className="p-4 border-b flex items-center justify-between">
                             <div className="text-sm font-medium">{blockName}</div>
                             {list.length ? (
-                              list.some((t: any) => t.docCount > 0) ? (
+                              list.some((t) => t.docCount > 0) ? (
                                 <div className="text-xs text-slate-500">
-                                  Leader: <span className="font-medium">{list.find((t: any) => t.docCount === Math.max(...list.map((x: any) => x.docCount)))!.term}</span> (<span className="tabular-nums">{Math.max(...list.map((x: any) => x.docCount))}</span>)
+                                  Leader: <span className="font-medium">{list.find((t) => t.docCount === Math.max(...list.map((x) => x.docCount)))!.term}</span> (<span className="tabular-nums">{Math.max(...list.map((x) => x.docCount))}</span>)
                                 </div>
                               ) : (
                                 <div className="text-xs text-slate-500">No matches</div>
@@ -1200,19 +896,23 @@ export default function App() {
                                 <tr className="text-left text-xs text-slate-500">
                                   <th className="py-2 pr-4">Term</th>
                                   <th className="py-2 pr-4">Studies</th>
-                                  <th className="py-2 pr-4">Title</th>
-                                  <th className="py-2 pr-4">Abstract</th>
-                                  <th className="py-2 pr-4">Keywords</th>
+                                  {cfg.fields.map((f) => (
+                                    <th key={f.id} className="py-2 pr-4">
+                                      {fieldLabel(cfg, f.id)}
+                                    </th>
+                                  ))}
                                 </tr>
                               </thead>
                               <tbody>
-                                {list.map((t: any, i: number) => (
+                                {list.map((t, i) => (
                                   <tr key={i} className="border-t">
                                     <td className="py-2 pr-4">{t.term}</td>
                                     <td className="py-2 pr-4 tabular-nums">{t.docCount}</td>
-                                    <td className="py-2 pr-4 tabular-nums">{t.fields.title}</td>
-                                    <td className="py-2 pr-4 tabular-nums">{t.fields.abstract}</td>
-                                    <td className="py-2 pr-4 tabular-nums">{t.fields.keywords}</td>
+                                    {cfg.fields.map((f) => (
+                                      <td key={f.id} className="py-2 pr-4 tabular-nums">
+                                        {t.fields[f.id] ?? 0}
+                                      </td>
+                                    ))}
                                   </tr>
                                 ))}
                               </tbody>
@@ -1230,6 +930,8 @@ export default function App() {
                       <TabsTrigger value="matched">Matched ({runOutput.matched.length})</TabsTrigger>
                       <TabsTrigger value="partial">Partially Matched ({runOutput.partial.length})</TabsTrigger>
                       <TabsTrigger value="unmatched">Unmatched ({runOutput.unmatched.length})</TabsTrigger>
+                      <TabsTrigger value="screening">Screening</TabsTrigger>
+                      <TabsTrigger value="review">Dual Review</TabsTrigger>
                     </TabsList>
                     <TabsContent value="matched" className="mt-4">
                       <p className="text-sm text-slate-600 mb-4">These entries fully matched the query.</p>
@@ -1277,6 +979,8 @@ export default function App() {
                                 </div>
                               )}
 
+                              <ExtraFields cfg={cfg} row={r} />
+
                               <MatchBreakdown cfg={cfg} matchedMap={r.MatchedTermsMap} />
                             </div>
                           );
@@ -1286,7 +990,7 @@ export default function App() {
                     <TabsContent value="partial" className="mt-4">
                       <p className="text-sm text-slate-600 mb-4">These entries had some matching terms but did not satisfy the full query.</p>
                       <div className="grid gap-3">
-                        {runOutput.partial.map((r: any, idx: number) => {
+                        {runOutput.partial.map((r, idx) => {
                           const titleHTML = highlightByBlocks(r.TitleRaw || r.Title || "", r.MatchedTermsMap || {}, cfg, "title");
                           const absHTML = highlightByBlocks(r.AbstractRaw || "", r.MatchedTermsMap || {}, cfg, "abstract");
                           const kwHTML = highlightByBlocks(r.KeywordsRaw || "", r.MatchedTermsMap || {}, cfg, "keywords");
@@ -1329,6 +1033,8 @@ export default function App() {
                                 </div>
                               )}
 
+                              <ExtraFields cfg={cfg} row={r} />
+
                               <MatchBreakdown cfg={cfg} matchedMap={r.MatchedTermsMap} caption="partial" />
                             </div>
                           );
@@ -1338,7 +1044,7 @@ export default function App() {
                     <TabsContent value="unmatched" className="mt-4">
                       <p className="text-sm text-slate-600 mb-4">These entries did not match the query.</p>
                       <div className="grid gap-3">
-                        {runOutput.unmatched.map((r: any, idx: number) => {
+                        {runOutput.unmatched.map((r, idx) => {
                           const titleHTML = highlightByBlocks(r.TitleRaw || r.Title || "", r.MatchedTermsMap || {}, cfg, "title");
                           const absHTML = highlightByBlocks(r.AbstractRaw || "", r.MatchedTermsMap || {}, cfg, "abstract");
                           const kwHTML = highlightByBlocks(r.KeywordsRaw || "", r.MatchedTermsMap || {}, cfg, "keywords");
@@ -1375,11 +1081,34 @@ export default function App() {
                                   <p className="text-sm text-slate-700" dangerouslySetInnerHTML={{ __html: kwHTML }} />
                                 </div>
                               )}
+
+                              <ExtraFields cfg={cfg} row={r} />
                             </div>
                           );
                         })}
                       </div>
                     </TabsContent>
+                    <TabsContent value="screening" className="mt-4">
+                      <p className="text-sm text-slate-600 mb-4">Screen the matched entries by title and abstract. Decisions are stored by DOI or citekey and are kept when you change the query and run it again.</p>
+                      <ScreeningPanel rows={runOutput.matched} state={screening} onChange={setScreening} renderRecord={renderScreeningRecord} />
+                    </TabsContent>
+                    <TabsContent value="review" className="mt-4">
+                      <p className="text-sm text-slate-600 mb-4">
+                        Export a package for the second reviewer, who loads it in their own browser and screens blind. Each reviewer then exports their decisions; import both sets to see agreement statistics and resolve conflicts into the decisions shown in the Screening tab.
+                      </p>
+                      <DualReview
+                        rows={runOutput.matched}
+                        review={review}
+                        onReviewChange={setReview}
+                        screening={screening}
+                        onScreeningChange={setScreening}
+                        onExportPackage={exportScreeningPackage}
+                        onLoadPackage={loadScreeningPackage}
+                        onExportDecisions={exportDecisions}
+                        onImportDecisions={importDecisions}
+                        onRecordRound={recordReviewRound}
+                      />
+                    </TabsContent>
                   </Tabs>
                 )}
 
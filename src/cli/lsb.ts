@@ -0,0 +1,168 @@
+import { readFile, writeFile } from "node:fs/promises";
+import { basename } from "node:path";
+import { parseArgs } from "node:util";
+import { buildBibExport, type BibExportMode } from "@/lib/bibExport";
+import { ConfigValidationError, parseConfigFile, type LoadedConfig } from "@/lib/configFile";
+import { parseLibrary } from "@/lib/importers";
+import { buildPrismaSvg } from "@/lib/prisma";
+import { buildRunSummary, runPrismaCounts, toCSV } from "@/lib/report";
+import { executeRun, RUN_PHASE_LABELS } from "@/lib/run";
+
+export const EXIT_CODES = {
+  ok: 0,
+  runFailed: 1,
+  usage: 2,
+  invalidConfig: 3,
+  io: 4,
+  noMatches: 5,
+} as const;
+
+const USAGE = `Usage: lsb run --config <query_config.json> --bib <library> [options]
+
+Runs a saved query config against one or more libraries, exactly like the "Run & Report" tab,
+and prints a JSON summary to stdout.
+
+Options:
+  -c, --config <file>      Query config saved with "Save Config" (required)
+  -b, --bib <file>         Library file: BibTeX, RIS, CSV or EndNote XML (required, repeatable)
+  -o, --out <file>         Write the matched records as CSV
+      --out-bib <file>     Write the matched records as BibTeX
+      --bib-mode <mode>    BibTeX output: "original" (default) or "normalized"
+      --prisma <file>      Write the PRISMA 2020 flow diagram as SVG
+      --summary <file>     Also write the JSON summary to a file
+      --fail-on-empty      Exit with code ${EXIT_CODES.noMatches} when no record matches
+  -q, --quiet              Do not print progress to stderr
+  -h, --help               Show this help
+
+Exit codes:
+  ${EXIT_CODES.ok}  success
+  ${EXIT_CODES.runFailed}  the run failed
+  ${EXIT_CODES.usage}  invalid command line
+  ${EXIT_CODES.invalidConfig}  invalid query config
+  ${EXIT_CODES.io}  an input could not be read or an output could not be written
+  ${EXIT_CODES.noMatches}  no record matched (only with --fail-on-empty)
+`;
+
+class CliError extends Error {
+  readonly exitCode: number;
+  readonly issues: string[];
+
+  constructor(exitCode: number, message: string, issues: string[] = []) {
+    super(message);
+    this.exitCode = exitCode;
+    this.issues = issues;
+  }
+}
+
+async function read(file: string) {
+  try {
+    return await readFile(file, "utf8");
+  } catch (error) {
+    throw new CliError(EXIT_CODES.io, `Cannot read ${file}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+async function write(file: string, content: string) {
+  try {
+    await writeFile(file, content, "utf8");
+  } catch (error) {
+    throw new CliError(EXIT_CODES.io, `Cannot write ${file}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+function parseCommandLine(argv: string[]) {
+  try {
+    return parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        config: { type: "string", short: "c" },
+        bib: { type: "string", short: "b", multiple: true },
+        out: { type: "string", short: "o" },
+        "out-bib": { type: "string" },
+        "bib-mode": { type: "string", default: "original" },
+        prisma: { type: "string" },
+        summary: { type: "string" },
+        "fail-on-empty": { type: "boolean", default: false },
+        quiet: { type: "boolean", short: "q", default: false },
+        help: { type: "boolean", short: "h", default: false },
+      },
+    });
+  } catch (error) {
+    throw new CliError(EXIT_CODES.usage, error instanceof Error ? error.message : String(error));
+  }
+}
+
+async function run(argv: string[]) {
+  const { values, positionals } = parseCommandLine(argv);
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return EXIT_CODES.ok;
+  }
+  if (positionals[0] !== "run" || positionals.length > 1) throw new CliError(EXIT_CODES.usage, positionals.length ? `Unknown command "${positionals.join(" ")}".` : "Missing command.");
+  if (!values.config) throw new CliError(EXIT_CODES.usage, "Missing --config.");
+  if (!values.bib?.length) throw new CliError(EXIT_CODES.usage, "Missing --bib.");
+  const bibMode = values["bib-mode"] as BibExportMode;
+  if (bibMode !== "original" && bibMode !== "normalized") throw new CliError(EXIT_CODES.usage, `--bib-mode must be "original" or "normalized", got "${bibMode}".`);
+
+  const started = Date.now();
+  const log = (message: string) => {
+    if (!values.quiet) process.stderr.write(`${message}\n`);
+  };
+
+  let loaded: LoadedConfig;
+  try {
+    loaded = parseConfigFile(await read(values.config));
+  } catch (error) {
+    if (error instanceof ConfigValidationError) throw new CliError(EXIT_CODES.invalidConfig, `${values.config}: ${error.message}`, error.issues);
+    throw error;
+  }
+  loaded.warnings.forEach((w) => log(`warning: ${w}`));
+
+  const sources = [];
+  for (const file of values.bib) {
+    const source = parseLibrary(basename(file), await read(file));
+    source.diagnostics.filter((d) => d.severity === "error").forEach((d) => log(`${file}:${d.line}:${d.column}: ${d.message}`));
+    sources.push(source);
+  }
+
+  let lastPhase = "";
+  const { output, matchedBib } = executeRun({ bib: "", sources, cfg: loaded.cfg }, (p) => {
+    if (p.phase === lastPhase) return;
+    lastPhase = p.phase;
+    log(`${RUN_PHASE_LABELS[p.phase]}…`);
+  });
+
+  const outputs: Record<string, string> = {};
+  if (values.out) {
+    await write(values.out, toCSV(output.matched));
+    outputs.csv = values.out;
+  }
+  if (values["out-bib"]) {
+    await write(values["out-bib"], buildBibExport(matchedBib.entries, matchedBib.stringDefs, bibMode));
+    outputs.bib = values["out-bib"];
+  }
+  if (values.prisma) {
+    await write(values.prisma, buildPrismaSvg(runPrismaCounts(output)));
+    outputs.prisma = values.prisma;
+  }
+
+  const summary = buildRunSummary(values.config, loaded, sources, output, outputs, Date.now() - started);
+  const json = JSON.stringify(summary, null, 2);
+  if (values.summary) await write(values.summary, json + "\n");
+  process.stdout.write(json + "\n");
+  log(`${output.report.matched} of ${output.report.eligible} records matched${output.report.filtered ? `; ${output.report.filtered} excluded by metadata filters` : ""}.`);
+  return values["fail-on-empty"] && output.report.matched === 0 ? EXIT_CODES.noMatches : EXIT_CODES.ok;
+}
+
+run(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (error) => {
+    const cli = error instanceof CliError ? error : new CliError(EXIT_CODES.runFailed, error instanceof Error ? error.message : String(error));
+    process.stderr.write(`lsb: ${cli.message}\n${cli.exitCode === EXIT_CODES.usage ? `\n${USAGE}` : ""}`);
+    process.stdout.write(JSON.stringify({ ok: false, exitCode: cli.exitCode, error: cli.message, issues: cli.issues }, null, 2) + "\n");
+    process.exitCode = cli.exitCode;
+  },
+);
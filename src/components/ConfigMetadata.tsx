@@ -0,0 +1,37 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { EMPTY_METADATA } from "@/lib/configFile";
+import type { ConfigMetadata } from "@/lib/query";
+
+export function ConfigMetadataPanel({ metadata, onChange }: { metadata: ConfigMetadata | undefined; onChange: (next: ConfigMetadata) => void }) {
+  const current = { ...EMPTY_METADATA, ...metadata };
+  const set = (patch: Partial<ConfigMetadata>) => onChange({ ...current, ...patch });
+
+  return (
+    <div className="grid gap-3">
+      <div>
+        <Label className="text-base">Config details</Label>
+        <p className="text-sm text-slate-500">Saved with the config so a shared search can be attributed and cited. The date defaults to the day you save.</p>
+      </div>
+      <div className="grid gap-3 md:grid-cols-3 text-sm">
+        <label className="grid gap-1">
+          <span className="text-slate-600">Author</span>
+          <Input value={current.author} onChange={(e) => set({ author: e.target.value })} placeholder="Jane Doe" />
+        </label>
+        <label className="grid gap-1">
+          <span className="text-slate-600">Date</span>
+          <Input type="date" value={current.date} onChange={(e) => set({ date: e.target.value })} />
+        </label>
+        <label className="grid gap-1">
+          <span className="text-slate-600">Protocol ID</span>
+          <Input value={current.protocolId} onChange={(e) => set({ protocolId: e.target.value })} placeholder="e.g. PROSPERO CRD42024000000" />
+        </label>
+      </div>
+      <label className="grid gap-1 text-sm">
+        <span className="text-slate-600">Description</span>
+        <Textarea value={current.description} onChange={(e) => set({ description: e.target.value })} placeholder="What this search is for and how it was built" className="min-h-[60px]" />
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+import { useMemo } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { AlertTriangle, Copy } from "lucide-react";
+import { buildAllDatabaseQueries } from "@/lib/databaseExport";
+import type { QueryConfig } from "@/lib/query";
+
+export function DatabaseExportPanel({ cfg }: { cfg: QueryConfig }) {
+  const queries = useMemo(() => buildAllDatabaseQueries(cfg), [cfg]);
+
+  return (
+    <div className="grid gap-3">
+      <Label className="text-base">Database Search Strings</Label>
+      <p className="text-sm text-slate-500">The current blocks and fields translated into each database's syntax. Check the warnings before running a string.</p>
+      {queries.map((q) => (
+        <div key={q.database} className="rounded-2xl border bg-white shadow-sm p-4 grid gap-2">
+          <div className="flex items-center justify-between">
+            <div className="text-sm font-medium">{q.label}</div>
+            <Button variant="outline" disabled={!q.query} onClick={() => navigator.clipboard?.writeText(q.query)}>
+              <Copy className="h-4 w-4 mr-2" />
+              Copy
+            </Button>
+          </div>
+          <Textarea readOnly value={q.query} className="min-h-[80px] font-mono text-xs" />
+          {q.warnings.length > 0 && (
+            <ul className="text-xs text-amber-700 grid gap-1">
+              {q.warnings.map((w, i) => (
+                <li key={i} className="flex gap-1">
+                  <AlertTriangle className="h-3.5 w-3.5 shrink-0 mt-px" />
+                  <span>{w}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { BibEntry } from "@/lib/bibtex";
+import { entryId, type DedupOptions, type DuplicateCluster, type DuplicateReason, type MergePolicy } from "@/lib/dedup";
+
+const REASON_LABELS: Record<DuplicateReason, string> = {
+  doi: "same DOI",
+  "title-year": "same title and year",
+  "fuzzy-title": "similar title",
+};
+
+export function DedupSettings({ options, onChange }: { options: DedupOptions; onChange: (next: DedupOptions) => void }) {
+  const set = (patch: Partial<DedupOptions>) => onChange({ ...options, ...patch });
+  const setPolicy = (patch: Partial<MergePolicy>) => onChange({ ...options, policy: { ...options.policy, ...patch } });
+
+  return (
+    <div className="grid gap-3">
+      <div className="flex items-center gap-2">
+        <Label className="text-base">Remove duplicates</Label>
+        <Switch checked={options.enabled} onCheckedChange={(v) => set({ enabled: v })} />
+      </div>
+      {options.enabled && (
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-sm">
+          <span>Match by</span>
+          <label className="flex items-center gap-2">
+            <Switch checked={options.byDoi} onCheckedChange={(v) => set({ byDoi: v })} /> DOI
+          </label>
+          <label className="flex items-center gap-2">
+            <Switch checked={options.byTitleYear} onCheckedChange={(v) => set({ byTitleYear: v })} /> Title + year
+          </label>
+          <label className="flex items-center gap-2">
+            <Switch checked={options.fuzzyTitle} onCheckedChange={(v) => set({ fuzzyTitle: v })} /> Similar title
+          </label>
+          {options.fuzzyTitle && (
+            <label className="flex items-center gap-2" title="Minimum title similarity (0-1) for two records from the same year">
+              ≥
+              <Input
+                type="number"
+                min={0.5}
+                max={1}
+                step={0.01}
+                value={options.threshold}
+                onChange={(e) => {
+                  const v = parseFloat(e.target.value);
+                  if (v >= 0.5 && v <= 1) set({ threshold: v });
+                }}
+                className="w-20 h-8"
+              />
+            </label>
+          )}
+          <span className="ml-2">Merge</span>
+          <Select value={options.policy.keep} onValueChange={(v: MergePolicy["keep"]) => setPolicy({ keep: v })}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="most-complete">Keep most complete record</SelectItem>
+              <SelectItem value="first">Keep first loaded record</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={options.policy.abstract} onValueChange={(v: MergePolicy["abstract"]) => setPolicy({ abstract: v })}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="longest">Longest abstract</SelectItem>
+              <SelectItem value="kept">Abstract of kept record</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={options.policy.keywords} onValueChange={(v: MergePolicy["keywords"]) => setPolicy({ keywords: v })}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="union">Union of keywords</SelectItem>
+              <SelectItem value="kept">Keywords of kept record</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function MemberRow({ entry }: { entry: BibEntry }) {
+  return (
+    <li className="grid gap-0.5">
+      <div>
+        <span className="font-mono text-slate-500">{entry.citekey}</span> {entry.title}
+      </div>
+      <div className="text-slate-500">
+        {[entry.year, entry.doi, entry.__database || entry.__source].filter(Boolean).join(" · ")}
+        {entry.abstract ? ` · abstract ${entry.abstract.length} chars` : " · no abstract"}
+      </div>
+    </li>
+  );
+}
+
+type ClusterProps = {
+  clusters: DuplicateCluster[];
+  separated: DuplicateCluster[];
+  onToggle: (key: string) => void;
+};
+
+export function DuplicateClusters({ clusters, separated, onToggle }: ClusterProps) {
+  if (clusters.length === 0 && separated.length === 0) return null;
+  const all = [...clusters.map((c) => ({ c, merged: true })), ...separated.map((c) => ({ c, merged: false }))];
+
+  return (
+    <details className="rounded-2xl border bg-white shadow-sm p-4">
+      <summary className="cursor-pointer text-sm text-slate-700">
+        Duplicates: {clusters.length} merged {clusters.length === 1 ? "cluster" : "clusters"}
+        {separated.length > 0 && `, ${separated.length} kept separate`}
+      </summary>
+      <p className="mt-2 text-xs text-slate-500">Changes to clusters are applied the next time you click Execute and are saved with the config.</p>
+      <ul className="mt-3 grid gap-3 text-xs">
+        {all.map(({ c, merged }) => (
+          <li key={c.key} className={`rounded-xl border p-3 grid gap-2 ${merged ? "" : "opacity-60"}`}>
+            <div className="flex items-center justify-between">
+              <span className="text-slate-600">
+                {c.members.length} records · {c.reasons.map((r) => REASON_LABELS[r]).join(", ")}
+                {c.reasons.includes("fuzzy-title") && ` (${Math.round(c.similarity * 100)}%)`}
+              </span>
+              <Button variant="outline" size="sm" onClick={() => onToggle(c.key)}>
+                {merged ? "Not duplicates" : "Merge"}
+              </Button>
+            </div>
+            <ul className="grid gap-2">
+              {c.members.map((m) => (
+                <MemberRow key={entryId(m)} entry={m} />
+              ))}
+            </ul>
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+}
@@ -0,0 +1,201 @@
+import { useMemo, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Download, Trash2, Upload } from "lucide-react";
+import { agreedDecisions, compareDecisionSets, type DualReviewState, type PackageRecord, type ReviewComparison } from "@/lib/dualReview";
+import { DECISION_LABELS, getDecision, setDecision, type ScreeningDecision, type ScreeningState } from "@/lib/screening";
+
+type Props = {
+  rows: PackageRecord[];
+  review: DualReviewState;
+  onReviewChange: (next: DualReviewState) => void;
+  screening: ScreeningState;
+  onScreeningChange: (next: ScreeningState) => void;
+  onExportPackage: () => void;
+  onLoadPackage: (file: File) => void;
+  onExportDecisions: () => void;
+  onImportDecisions: (files: File[]) => void;
+  onRecordRound: (comparison: ReviewComparison) => void;
+};
+
+function formatKappa(kappa: number | null) {
+  return kappa === null ? "—" : kappa.toFixed(2);
+}
+
+function Stat({ label, value }: { label: string; value: string | number }) {
+  return (
+    <div className="rounded-2xl border p-3 bg-white shadow-sm">
+      <div className="text-xs text-slate-500">{label}</div>
+      <div className="text-xl font-semibold">{value}</div>
+    </div>
+  );
+}
+
+export function DualReview({ rows, review, onReviewChange, screening, onScreeningChange, onExportPackage, onLoadPackage, onExportDecisions, onImportDecisions, onRecordRound }: Props) {
+  const packageRef = useRef<HTMLInputElement>(null);
+  const decisionsRef = useRef<HTMLInputElement>(null);
+
+  const roundSets = review.sets.filter((s) => s.round === review.round);
+  const [a, b] = roundSets.slice(-2);
+  const comparison = useMemo(() => (a && b ? compareDecisionSets(rows, a, b) : null), [rows, a, b]);
+  const agreed = useMemo(() => (a && b ? agreedDecisions(rows, a, b) : []), [rows, a, b]);
+
+  const resolve = (row: PackageRecord, decision: ScreeningDecision, reason?: string) => {
+    onScreeningChange(setDecision(screening, row, { decision, reason }));
+  };
+
+  const applyAgreements = () => {
+    let next = screening;
+    for (const { row, record } of agreed) next = setDecision(next, row, record);
+    onScreeningChange(next);
+  };
+
+  return (
+    <div className="grid gap-4">
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="grid gap-1">
+          <Label className="text-xs text-slate-500">Reviewer</Label>
+          <Input value={review.reviewer} onChange={(e) => onReviewChange({ ...review, reviewer: e.target.value })} placeholder="Your name or initials" className="w-48 h-9" />
+        </div>
+        <div className="grid gap-1">
+          <Label className="text-xs text-slate-500">Round</Label>
+          <Input type="number" min={1} value={review.round} onChange={(e) => onReviewChange({ ...review, round: Math.max(1, parseInt(e.target.value, 10) || 1) })} className="w-20 h-9" />
+        </div>
+        <Button variant="outline" onClick={onExportPackage} disabled={rows.length === 0} title="Records and query config for a second reviewer, without any decisions">
+          <Download className="h-4 w-4 mr-2" />
+          Export Package
+        </Button>
+        <Button variant="outline" onClick={() => packageRef.current?.click()}>
+          <Upload className="h-4 w-4 mr-2" />
+          Load Package
+        </Button>
+        <Button variant="outline" onClick={onExportDecisions} disabled={!review.reviewer.trim()} title={review.reviewer.trim() ? "" : "Enter your reviewer name first"}>
+          <Download className="h-4 w-4 mr-2" />
+          Export My Decisions
+        </Button>
+        <Button variant="outline" onClick={() => decisionsRef.current?.click()}>
+          <Upload className="h-4 w-4 mr-2" />
+          Import Decisions
+        </Button>
+        <input
+          ref={packageRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const f = e.target.files?.[0];
+            if (f) onLoadPackage(f);
+            e.currentTarget.value = "";
+          }}
+        />
+        <input
+          ref={decisionsRef}
+          type="file"
+          multiple
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const files = Array.from(e.target.files || []);
+            if (files.length) onImportDecisions(files);
+            e.currentTarget.value = "";
+          }}
+        />
+      </div>
+
+      {review.sets.length > 0 && (
+        <ul className="grid gap-1 text-sm">
+          {review.sets.map((s) => (
+            <li key={`${s.reviewer}-${s.round}`} className="flex items-center gap-2">
+              <span className="font-medium">{s.reviewer}</span>
+              <span className="text-slate-500">
+                round {s.round} · {Object.keys(s.decisions).length} decisions
+              </span>
+              <Button variant="ghost" size="icon" onClick={() => onReviewChange({ ...review, sets: review.sets.filter((x) => x !== s) })} title="Remove decision set">
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {!comparison && <p className="text-sm text-slate-500">Import the decision sets of both reviewers for round {review.round} to compare them.</p>}
+
+      {comparison && (
+        <div className="grid gap-4">
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+            <Stat label="Compared records" value={comparison.compared} />
+            <Stat label="Agreements" value={comparison.agreements} />
+            <Stat label="Conflicts" value={comparison.conflicts.length} />
+            <Stat label="Percent agreement" value={`${(comparison.percentAgreement * 100).toFixed(1)}%`} />
+            <Stat label="Cohen's kappa" value={formatKappa(comparison.kappa)} />
+          </div>
+          {comparison.missing > 0 && <p className="text-xs text-amber-700">{comparison.missing} records were not screened by both reviewers and are left out of the statistics.</p>}
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={applyAgreements} disabled={agreed.length === 0}>
+              Apply {agreed.length} agreed decisions
+            </Button>
+            <Button variant="outline" onClick={() => onRecordRound(comparison)}>
+              Record round {comparison.round}
+            </Button>
+          </div>
+
+          {comparison.conflicts.length > 0 && (
+            <div className="grid gap-2">
+              <div className="text-sm font-medium text-slate-700">Conflicts to resolve</div>
+              {comparison.conflicts.map(({ row, a: da, b: db }) => {
+                const resolved = getDecision(screening, row);
+                return (
+                  <div key={row.CiteKey} className="rounded-xl border bg-white p-3 grid gap-2 text-sm">
+                    <div>
+                      <span className="font-mono text-slate-500">{row.CiteKey}</span> {row.Title}
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2">
+                      {[
+                        { who: a.reviewer, d: da },
+                        { who: b.reviewer, d: db },
+                      ].map(({ who, d }) => (
+                        <Button key={who} size="sm" variant={resolved?.decision === d.decision ? "default" : "outline"} onClick={() => resolve(row, d.decision, d.reason)} title={d.note || ""}>
+                          {who}: {DECISION_LABELS[d.decision]}
+                          {d.reason ? ` (${d.reason})` : ""}
+                        </Button>
+                      ))}
+                      {resolved && <span className="text-xs text-slate-500">Resolved as {DECISION_LABELS[resolved.decision]}</span>}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+
+      {review.history.length > 0 && (
+        <table className="text-sm">
+          <thead>
+            <tr className="text-left text-slate-500">
+              <th className="font-normal pr-4">Round</th>
+              <th className="font-normal pr-4">Reviewers</th>
+              <th className="font-normal pr-4">Compared</th>
+              <th className="font-normal pr-4">Conflicts</th>
+              <th className="font-normal pr-4">Agreement</th>
+              <th className="font-normal">Kappa</th>
+            </tr>
+          </thead>
+          <tbody className="tabular-nums">
+            {review.history.map((h) => (
+              <tr key={h.round}>
+                <td className="pr-4">{h.round}</td>
+                <td className="pr-4">{h.reviewers.join(" / ")}</td>
+                <td className="pr-4">{h.compared}</td>
+                <td className="pr-4">{h.conflicts}</td>
+                <td className="pr-4">{(h.percentAgreement * 100).toFixed(1)}%</td>
+                <td>{formatKappa(h.kappa)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { FileUp, Trash2 } from "lucide-react";
+import { LIBRARY_FILE_ACCEPT, LIBRARY_FORMATS, type LibrarySource } from "@/lib/importers";
+
+type Props = {
+  sources: LibrarySource[];
+  loading: boolean;
+  onAdd: (files: File[]) => void;
+  onRemove: (id: string) => void;
+};
+
+export function LibraryFiles({ sources, loading, onAdd, onRemove }: Props) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [dragging, setDragging] = useState(false);
+
+  return (
+    <div className="grid gap-3">
+      <div
+        className={`rounded-2xl border-2 border-dashed p-6 text-center text-sm transition-colors ${dragging ? "border-blue-500 bg-blue-50" : "border-slate-300 bg-slate-50"}`}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setDragging(true);
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setDragging(false);
+          const files = Array.from(e.dataTransfer.files);
+          if (files.length) onAdd(files);
+        }}
+      >
+        <p className="text-slate-600">Drop library files here: BibTeX (.bib), RIS (.ris), PubMed (.nbib), EndNote XML (.xml), Scopus or Web of Science CSV/TSV exports.</p>
+        <Button variant="outline" className="mt-3" disabled={loading} onClick={() => inputRef.current?.click()}>
+          <FileUp className="h-4 w-4 mr-2" />
+          {loading ? "Reading..." : "Choose Files"}
+        </Button>
+        <input
+          ref={inputRef}
+          type="file"
+          multiple
+          accept={LIBRARY_FILE_ACCEPT}
+          className="hidden"
+          onChange={(e) => {
+            const files = Array.from(e.target.files || []);
+            if (files.length) onAdd(files);
+            e.currentTarget.value = "";
+          }}
+        />
+      </div>
+
+      {sources.length > 0 && (
+        <ul className="grid gap-2">
+          {sources.map((s) => {
+            const errors = s.diagnostics.filter((d) => d.severity === "error").length;
+            return (
+              <li key={s.id} className="flex items-center justify-between rounded-xl border bg-white px-4 py-2 text-sm">
+                <div className="flex flex-wrap items-center gap-x-3 gap-y-1">
+                  <span className="font-medium">{s.name}</span>
+                  <span className="text-slate-500">{LIBRARY_FORMATS[s.format]}</span>
+                  {s.database && <span className="rounded-full bg-slate-100 px-2 py-0.5 text-xs text-slate-600">{s.database}</span>}
+                  <span className="tabular-nums text-slate-500">
+                    {s.entries.length} {s.entries.length === 1 ? "entry" : "entries"}
+                  </span>
+                  {errors > 0 && (
+                    <span className="text-xs text-red-700">
+                      {errors} {errors === 1 ? "record" : "records"} skipped
+                    </span>
+                  )}
+                </div>
+                <Button variant="ghost" size="icon" onClick={() => onRemove(s.id)} title="Remove file">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
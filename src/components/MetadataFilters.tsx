@@ -0,0 +1,108 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Plus, Trash2 } from "lucide-react";
+import { FILTER_FIELDS, isActiveFilter, type FilterField, type MetadataFilter } from "@/lib/filters";
+import { uid } from "@/lib/utils";
+
+type Props = {
+  filters: MetadataFilter[];
+  onChange: (filters: MetadataFilter[]) => void;
+  counts: Record<string, number> | null;
+};
+
+const PLACEHOLDERS: Record<Exclude<FilterField, "year">, string> = {
+  entry_type: "article; inproceedings",
+  venue: "Journal or conference name, e.g. Nice Conf",
+  language: "english; de",
+  author: "Doe, J; Jane Smith",
+};
+
+const parseValues = (text: string) => text.split(";").map((v) => v.trim()).filter(Boolean);
+
+function ValuesInput({ filter, onChange }: { filter: MetadataFilter; onChange: (values: string[]) => void }) {
+  const [draft, setDraft] = useState<string | null>(null);
+  const commit = () => {
+    if (draft !== null) onChange(parseValues(draft));
+    setDraft(null);
+  };
+
+  return (
+    <Input
+      value={draft ?? filter.values.join("; ")}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") commit();
+      }}
+      placeholder={PLACEHOLDERS[filter.field as Exclude<FilterField, "year">]}
+      title="Separate values with ;. A record passes when it has any of them."
+    />
+  );
+}
+
+const parseYear = (text: string) => (/^\d{1,4}$/.test(text.trim()) ? Number(text.trim()) : null);
+
+export function MetadataFiltersPanel({ filters, onChange, counts }: Props) {
+  const update = (id: string, patch: Partial<MetadataFilter>) => onChange(filters.map((f) => (f.id === id ? { ...f, ...patch } : f)));
+
+  return (
+    <div className="grid gap-3">
+      <div>
+        <Label className="text-base">Metadata filters</Label>
+        <p className="text-sm text-slate-500">Records must pass every filter as well as the query. Filters are applied after deduplication and reported as their own exclusion step.</p>
+      </div>
+      {filters.length > 0 && (
+        <div className="grid gap-2 text-sm">
+          {filters.map((f) => (
+            <div key={f.id} className="grid grid-cols-[9rem_1fr_auto_auto_6rem_auto] items-center gap-2">
+              <Select value={f.field} onValueChange={(field: FilterField) => update(f.id, { field, values: [], from: null, to: null })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {FILTER_FIELDS.map((x) => (
+                    <SelectItem key={x.id} value={x.id}>
+                      {x.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {f.field === "year" ? (
+                <div className="flex items-center gap-2">
+                  <Input className="w-24" inputMode="numeric" value={f.from ?? ""} onChange={(e) => update(f.id, { from: parseYear(e.target.value) })} placeholder="From" />
+                  <span>–</span>
+                  <Input className="w-24" inputMode="numeric" value={f.to ?? ""} onChange={(e) => update(f.id, { to: parseYear(e.target.value) })} placeholder="To" />
+                  {f.from != null && f.to != null && f.from > f.to && <span className="text-amber-700">From is after To</span>}
+                </div>
+              ) : (
+                <ValuesInput filter={f} onChange={(values) => update(f.id, { values })} />
+              )}
+              <label className="flex items-center gap-1 text-slate-600" title="Remove records that match instead of keeping them">
+                <Switch checked={!!f.exclude} onCheckedChange={(v) => update(f.id, { exclude: v })} />
+                NOT
+              </label>
+              <label className="flex items-center gap-1 text-slate-600" title="Keep records that have no value for this field">
+                <Switch checked={!!f.keepMissing} onCheckedChange={(v) => update(f.id, { keepMissing: v })} />
+                Keep missing
+              </label>
+              <span className="text-slate-500 text-right">{counts && isActiveFilter(f) ? `removes ${counts[f.id] ?? 0}` : ""}</span>
+              <Button variant="ghost" size="icon" onClick={() => onChange(filters.filter((x) => x.id !== f.id))} title="Remove filter">
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+      <div>
+        <Button variant="outline" onClick={() => onChange([...filters, { id: uid(), field: "year", values: [], from: null, to: null }])}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add filter
+        </Button>
+      </div>
+    </div>
+  );
+}
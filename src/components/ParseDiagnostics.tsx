@@ -0,0 +1,31 @@
+import { AlertTriangle, XCircle } from "lucide-react";
+import type { BibDiagnostic } from "@/lib/bibtex";
+
+export function ParseDiagnostics({ diagnostics }: { diagnostics: BibDiagnostic[] }) {
+  if (diagnostics.length === 0) return null;
+  const errors = diagnostics.filter((d) => d.severity === "error").length;
+  const warnings = diagnostics.length - errors;
+
+  return (
+    <details className="rounded-2xl border bg-white shadow-sm p-4" open={errors > 0}>
+      <summary className="cursor-pointer text-sm text-slate-700">
+        Import: {errors} {errors === 1 ? "entry" : "entries"} skipped, {warnings} {warnings === 1 ? "warning" : "warnings"}
+      </summary>
+      <ul className="mt-3 grid gap-1 text-xs">
+        {diagnostics.map((d, i) => (
+          <li key={i} className={d.severity === "error" ? "flex gap-1 text-red-700" : "flex gap-1 text-amber-700"}>
+            {d.severity === "error" ? <XCircle className="h-3.5 w-3.5 shrink-0 mt-px" /> : <AlertTriangle className="h-3.5 w-3.5 shrink-0 mt-px" />}
+            <span className="tabular-nums text-slate-500 shrink-0">
+              {d.source ? `${d.source} ` : ""}
+              {d.line}:{d.column}
+            </span>
+            <span>
+              {d.citekey ? <span className="font-mono">{d.citekey}: </span> : null}
+              {d.message}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+}
@@ -0,0 +1,8 @@
+export function PrismaDiagram({ svg }: { svg: string }) {
+  return (
+    <details className="rounded-2xl border bg-white shadow-sm p-4">
+      <summary className="cursor-pointer text-sm text-slate-700">PRISMA 2020 flow diagram</summary>
+      <div className="mt-3 overflow-x-auto [&>svg]:max-w-full [&>svg]:h-auto" dangerouslySetInnerHTML={{ __html: svg }} />
+    </details>
+  );
+}
@@ -0,0 +1,66 @@
+import { useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Download, FolderPlus, Pencil, Trash2, Upload } from "lucide-react";
+import { PROJECT_FILE_ACCEPT, type ProjectMeta } from "@/lib/projectStore";
+
+type Props = {
+  projects: ProjectMeta[];
+  currentId: string | null;
+  status: string;
+  onSwitch: (id: string) => void;
+  onCreate: () => void;
+  onRename: () => void;
+  onDelete: () => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+};
+
+export function ProjectSwitcher({ projects, currentId, status, onSwitch, onCreate, onRename, onDelete, onExport, onImport }: Props) {
+  const importRef = useRef<HTMLInputElement>(null);
+  const disabled = !currentId;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Select value={currentId ?? ""} onValueChange={onSwitch} disabled={disabled}>
+        <SelectTrigger className="w-56" title="Switch project">
+          <SelectValue placeholder="Loading projects..." />
+        </SelectTrigger>
+        <SelectContent>
+          {projects.map((p) => (
+            <SelectItem key={p.id} value={p.id}>
+              {p.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button variant="ghost" size="icon" onClick={onCreate} disabled={disabled} title="New project">
+        <FolderPlus className="h-4 w-4" />
+      </Button>
+      <Button variant="ghost" size="icon" onClick={onRename} disabled={disabled} title="Rename project">
+        <Pencil className="h-4 w-4" />
+      </Button>
+      <Button variant="ghost" size="icon" onClick={onDelete} disabled={disabled} title="Delete project">
+        <Trash2 className="h-4 w-4" />
+      </Button>
+      <Button variant="ghost" size="icon" onClick={onExport} disabled={disabled} title="Export project archive">
+        <Download className="h-4 w-4" />
+      </Button>
+      <Button variant="ghost" size="icon" onClick={() => importRef.current?.click()} disabled={disabled} title="Import project archive">
+        <Upload className="h-4 w-4" />
+      </Button>
+      <input
+        ref={importRef}
+        type="file"
+        accept={PROJECT_FILE_ACCEPT}
+        className="hidden"
+        onChange={(e) => {
+          const f = e.target.files?.[0];
+          if (f) onImport(f);
+          e.currentTarget.value = "";
+        }}
+      />
+      {status && <span className="text-xs text-slate-500">{status}</span>}
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { RotateCcw } from "lucide-react";
+import { listBlocks } from "@/lib/query";
+import { diffVersions, type QueryVersion, type VersionRecord } from "@/lib/queryHistory";
+
+type Props = {
+  versions: QueryVersion[];
+  onRestore: (version: QueryVersion) => void;
+};
+
+const BLOCK_STATUS_STYLES = {
+  added: "border-green-300 bg-green-50",
+  removed: "border-red-300 bg-red-50",
+  changed: "border-amber-300 bg-amber-50",
+  unchanged: "",
+};
+
+function formatTime(iso: string) {
+  return new Date(iso).toLocaleString();
+}
+
+function RecordList({ title, records, className }: { title: string; records: VersionRecord[]; className: string }) {
+  return (
+    <details className="rounded-xl border bg-white p-3 text-sm">
+      <summary className={`cursor-pointer font-medium ${className}`}>
+        {title} ({records.length})
+      </summary>
+      {records.length === 0 ? (
+        <p className="mt-2 text-slate-500">None.</p>
+      ) : (
+        <ul className="mt-2 grid gap-1">
+          {records.map((r) => (
+            <li key={r.CiteKey}>
+              <span className="font-mono text-slate-500">{r.CiteKey}</span> {r.Title}
+            </li>
+          ))}
+        </ul>
+      )}
+    </details>
+  );
+}
+
+export function QueryHistory({ versions, onRestore }: Props) {
+  const [fromId, setFromId] = useState<string>("");
+  const [toId, setToId] = useState<string>("");
+
+  const latest = versions[versions.length - 1];
+  const from = versions.find((v) => v.id === fromId) ?? versions[versions.length - 2];
+  const to = versions.find((v) => v.id === toId) ?? latest;
+  const diff = useMemo(() => (from && to && from !== to ? diffVersions(from, to) : null), [from, to]);
+
+  if (versions.length === 0) {
+    return (
+      <div className="grid gap-2">
+        <Label className="text-base">Query History</Label>
+        <p className="text-sm text-slate-500">Every executed query is recorded here with its report numbers and matched records, so you can compare versions and restore an earlier one.</p>
+      </div>
+    );
+  }
+
+  const versionSelect = (value: QueryVersion | undefined, onChange: (id: string) => void, label: string) => (
+    <Select value={value?.id ?? ""} onValueChange={onChange}>
+      <SelectTrigger className="w-64" title={label}>
+        <SelectValue placeholder={label} />
+      </SelectTrigger>
+      <SelectContent>
+        {versions.map((v) => (
+          <SelectItem key={v.id} value={v.id}>
+            v{v.number} · {v.report.matched} matched · {formatTime(v.createdAt)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="grid gap-4">
+      <Label className="text-base">Query History</Label>
+      <table className="text-sm">
+        <thead>
+          <tr className="text-left text-xs text-slate-500">
+            <th className="py-1 pr-4 font-normal">Version</th>
+            <th className="py-1 pr-4 font-normal">Executed</th>
+            <th className="py-1 pr-4 font-normal">Blocks</th>
+            <th className="py-1 pr-4 font-normal">Eligible</th>
+            <th className="py-1 pr-4 font-normal">Matched</th>
+            <th className="py-1 font-normal" />
+          </tr>
+        </thead>
+        <tbody className="tabular-nums">
+          {[...versions].reverse().map((v) => (
+            <tr key={v.id} className="border-t">
+              <td className="py-1 pr-4">v{v.number}</td>
+              <td className="py-1 pr-4">{formatTime(v.createdAt)}</td>
+              <td className="py-1 pr-4">{listBlocks(v.cfg.query).length}</td>
+              <td className="py-1 pr-4">{v.report.eligible}</td>
+              <td className="py-1 pr-4">{v.report.matched}</td>
+              <td className="py-1 text-right">
+                <Button variant="ghost" size="sm" onClick={() => onRestore(v)} title="Load this version into the block editor">
+                  <RotateCcw className="h-4 w-4 mr-1" />
+                  Restore
+                </Button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {versions.length > 1 && (
+        <div className="grid gap-3">
+          <div className="flex flex-wrap items-center gap-2 text-sm text-slate-600">
+            <span>Compare</span>
+            {versionSelect(from, setFromId, "Older version")}
+            <span>with</span>
+            {versionSelect(to, setToId, "Newer version")}
+          </div>
+
+          {!diff && <p className="text-sm text-slate-500">Pick two different versions to compare.</p>}
+
+          {diff && (
+            <div className="grid gap-3">
+              <div className="grid grid-cols-2 md:grid-cols-6 gap-2 text-sm tabular-nums">
+                {diff.report.map((d) => (
+                  <div key={d.key} className="rounded-xl border bg-white p-2">
+                    <div className="text-xs text-slate-500">{d.label}</div>
+                    <div>
+                      {d.from} → <span className="font-semibold">{d.to}</span>
+                      {d.to !== d.from && <span className={`ml-1 text-xs ${d.to > d.from ? "text-green-700" : "text-red-700"}`}>({d.to > d.from ? "+" : ""}{d.to - d.from})</span>}
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              <div className="grid gap-2">
+                {diff.blocks
+                  .filter((b) => b.status !== "unchanged")
+                  .map((b) => (
+                    <div key={b.id} className={`rounded-xl border p-3 text-sm grid gap-1 ${BLOCK_STATUS_STYLES[b.status]}`}>
+                      <div className="font-medium">
+                        {b.name} <span className="text-xs font-normal text-slate-500">{b.status}</span>
+                      </div>
+                      {b.changes.map((c) => (
+                        <div key={c} className="text-slate-600">
+                          {c}
+                        </div>
+                      ))}
+                      {b.addedTerms.length > 0 && <div className="text-green-700">+ {b.addedTerms.join(" · ")}</div>}
+                      {b.removedTerms.length > 0 && <div className="text-red-700">− {b.removedTerms.join(" · ")}</div>}
+                    </div>
+                  ))}
+                {diff.blocks.every((b) => b.status === "unchanged") && diff.operators.length === 0 && diff.settings.length === 0 && <p className="text-sm text-slate-500">The query did not change between these versions.</p>}
+              </div>
+
+              {(diff.operators.length > 0 || diff.settings.length > 0) && (
+                <ul className="text-sm text-slate-700 grid gap-1 list-disc pl-5">
+                  {[...diff.operators, ...diff.settings].map((c) => (
+                    <li key={c}>{c}</li>
+                  ))}
+                </ul>
+              )}
+
+              {diff.outline && (
+                <div className="text-xs font-mono text-slate-600 grid gap-1">
+                  <div>
+                    <span className="text-red-700">− </span>
+                    {diff.outline.from}
+                  </div>
+                  <div>
+                    <span className="text-green-700">+ </span>
+                    {diff.outline.to}
+                  </div>
+                </div>
+              )}
+
+              <div className="grid md:grid-cols-2 gap-2">
+                <RecordList title="Entered the matched set" records={diff.entered} className="text-green-700" />
+                <RecordList title="Left the matched set" records={diff.left} className="text-red-700" />
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,239 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { BookOpen, FolderPlus, Plus, Trash2 } from "lucide-react";
+import { blockFields, fieldLabel, insertNode, makeBlock, makeGroup, parseProximity, removeNode, setOperator, updateNode, type BlockNode, type GroupNode, type Operator, type QueryConfig, type QueryNode } from "@/lib/query";
+import type { BlockCounts, HitCounts } from "@/lib/searchIndex";
+import { expandTerm, type Thesaurus } from "@/lib/thesaurus";
+
+type EditorProps = {
+  root: GroupNode;
+  onChange: (root: GroupNode) => void;
+  nextBlockName: () => string;
+  fields: Pick<QueryConfig, "fields" | "searchFields">;
+  counts?: HitCounts | null;
+  thesaurus?: Thesaurus | null;
+};
+
+function OperatorSelect({ value, onChange, hint }: { value: Operator; onChange: (op: Operator) => void; hint: string }) {
+  return (
+    <div className="flex items-center justify-center gap-3">
+      <Select value={value} onValueChange={(v: Operator) => onChange(v)}>
+        <SelectTrigger className="w-40">
+          <SelectValue placeholder={value} />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="AND">AND</SelectItem>
+          <SelectItem value="OR">OR</SelectItem>
+        </SelectContent>
+      </Select>
+      <span className="text-sm text-slate-500">{hint}</span>
+    </div>
+  );
+}
+
+function BlockCountsLabel({ counts }: { counts: BlockCounts }) {
+  const { hits, contribution } = counts;
+  return (
+    <span className="text-sm text-slate-500 tabular-nums" title="Records matching any term of this block, and how the final result would change without this block">
+      {hits} records · {contribution > 0 ? `adds ${contribution}` : contribution < 0 ? `removes ${-contribution}` : "no change"} in result
+    </span>
+  );
+}
+
+function stemTooltip(term: string, forms: string[] | null | undefined) {
+  if (forms?.length) return `Matches: ${forms.join(", ")}`;
+  const words = (parseProximity(term)?.operands ?? [term]).join(" ").match(/\w+/g);
+  return words ? `Also matches other word forms of ${words.join(", ")}; load a library to list them` : undefined;
+}
+
+function BlockFieldsPicker({ block, fields, onChange }: { block: BlockNode; fields: EditorProps["fields"]; onChange: (next: string[] | undefined) => void }) {
+  const own = blockFields(block, fields, fields.searchFields);
+  const toggle = (id: string) => onChange(own.includes(id) ? own.filter((f) => f !== id) : [...own, id]);
+
+  if (!block.fields) {
+    return (
+      <div className="mt-3 flex flex-wrap items-center gap-2 text-sm text-slate-600">
+        <span>Searches the selected fields{own.length ? ` (${own.map((f) => fieldLabel(fields, f)).join(", ")})` : ""}.</span>
+        <Button variant="ghost" size="sm" onClick={() => onChange(own.length ? own : [fields.fields[0].id])}>
+          Choose fields for this block
+        </Button>
+      </div>
+    );
+  }
+  return (
+    <div className="mt-3 flex flex-wrap items-center gap-2 text-sm text-slate-600">
+      <span>Searches</span>
+      {fields.fields.map((f) => (
+        <Button key={f.id} variant={own.includes(f.id) ? "secondary" : "outline"} size="sm" disabled={own.length === 1 && own[0] === f.id} onClick={() => toggle(f.id)} title={`BibTeX: ${f.sources.join(", ")}`}>
+          {fieldLabel(fields, f.id)}
+        </Button>
+      ))}
+      <Button variant="ghost" size="sm" onClick={() => onChange(undefined)}>
+        Use selected fields
+      </Button>
+    </div>
+  );
+}
+
+function BlockEditor({ block, parent, index, root, onChange, nextBlockName, fields, counts, thesaurus }: EditorProps & { block: BlockNode; parent: GroupNode; index: number }) {
+  const update = (patch: Partial<BlockNode>) => onChange(updateNode(root, block.id, patch));
+  const blockCounts = counts?.blocks[block.id];
+
+  const setTerms = (terms: string[], renamed?: { from: string; to: string }) => {
+    if (!block.expansions) return update({ terms });
+    const expansions: Record<string, string[]> = {};
+    for (const term of terms.map((x) => x.trim()).filter(Boolean)) {
+      if (block.expansions[term]) expansions[term] = block.expansions[term];
+      else if (renamed && term === renamed.to && block.expansions[renamed.from]) expansions[term] = thesaurus ? expandTerm(thesaurus, term) : block.expansions[renamed.from];
+    }
+    update({ terms, expansions });
+  };
+
+  const toggleExpansion = (term: string) => {
+    const { [term]: current, ...rest } = block.expansions ?? {};
+    if (current) update({ expansions: rest });
+    else if (thesaurus) update({ expansions: { ...rest, [term]: expandTerm(thesaurus, term) } });
+  };
+
+  return (
+    <div className="rounded-2xl border bg-white shadow-sm p-4">
+      <div className="flex flex-wrap items-center gap-3 justify-between">
+        <div className="flex items-center gap-3">
+          <Input value={block.name} onChange={(e) => update({ name: e.target.value })} className="w-56" />
+          <div className="flex items-center gap-2 text-sm text-slate-600">
+            <span>Regex</span>
+            <Switch checked={!!block.isRegex} onCheckedChange={(v) => update({ isRegex: v })} />
+          </div>
+          <div className="flex items-center gap-2 text-sm text-slate-600" title="Also match other English word forms, e.g. participant, participants, participation">
+            <span>Stemming</span>
+            <Switch checked={!!block.stem} onCheckedChange={(v) => update({ stem: v })} />
+          </div>
+          <div className="flex items-center gap-2 text-sm text-slate-600">
+            <span>Exclude (NOT)</span>
+            <Switch checked={!!block.exclude} onCheckedChange={(v) => update({ exclude: v })} />
+          </div>
+          {blockCounts && <BlockCountsLabel counts={blockCounts} />}
+        </div>
+        <div className="flex gap-2">
+          <Button variant="destructive" onClick={() => onChange(removeNode(root, block.id))}>
+            <Trash2 className="h-4 w-4 mr-2" />
+            Remove
+          </Button>
+          <Button variant="outline" onClick={() => onChange(insertNode(root, parent.id, index, makeBlock(nextBlockName())))}>
+            <Plus className="h-4 w-4 mr-2" />
+            Insert Above
+          </Button>
+          <Button variant="outline" onClick={() => onChange(insertNode(root, parent.id, index + 1, makeBlock(nextBlockName())))}>
+            <Plus className="h-4 w-4 mr-2" />
+            Insert Below
+          </Button>
+        </div>
+      </div>
+      <BlockFieldsPicker block={block} fields={fields} onChange={(next) => update({ fields: next })} />
+      <div className="mt-3 grid gap-2">
+        {block.terms.map((t, ti) => {
+          const expanded = block.expansions?.[t.trim()];
+          return (
+            <div key={ti} className="grid gap-1">
+              <div className="flex items-center gap-2">
+                <Input
+                  value={t}
+                  onChange={(e) => {
+                    const terms = [...block.terms];
+                    terms[ti] = e.target.value;
+                    setTerms(terms, { from: t.trim(), to: e.target.value.trim() });
+                  }}
+                  placeholder={block.isRegex ? "regex term" : "literal term"}
+                  title={block.stem ? stemTooltip(t, blockCounts?.forms[ti]) : undefined}
+                />
+                {blockCounts && (
+                  <span className="w-20 shrink-0 text-right text-sm text-slate-500 tabular-nums" title="Records matching this term on its own">
+                    {blockCounts.terms[ti] ?? "–"}
+                  </span>
+                )}
+                <Button
+                  variant={expanded ? "secondary" : "ghost"}
+                  size="icon"
+                  disabled={!t.trim() || (!thesaurus && !expanded)}
+                  onClick={() => toggleExpansion(t.trim())}
+                  title={expanded ? "Stop expanding this term" : "Expand with synonyms and narrower terms from the thesaurus"}
+                >
+                  <BookOpen className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" onClick={() => setTerms(block.terms.filter((_, k) => k !== ti))}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+              {expanded && <div className="pl-3 text-xs text-slate-500">{expanded.length ? `OR ${expanded.join(" · ")}` : "Not found in the thesaurus"}</div>}
+            </div>
+          );
+        })}
+        <Button variant="secondary" onClick={() => update({ terms: [...block.terms, ""] })}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add term
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function GroupEditor({ group, depth, root, onChange, nextBlockName, fields, counts, thesaurus }: EditorProps & { group: GroupNode; depth: number }) {
+  const isRoot = group.id === root.id;
+
+  return (
+    <div className={isRoot ? "grid gap-4" : "rounded-2xl border-2 border-dashed border-slate-300 bg-slate-50/60 p-4 grid gap-4"}>
+      {!isRoot && (
+        <div className="flex flex-wrap items-center gap-3 justify-between">
+          <div className="flex items-center gap-3">
+            <Input value={group.name || ""} onChange={(e) => onChange(updateNode(root, group.id, { name: e.target.value }))} placeholder={`Group (level ${depth})`} className="w-56" />
+            <div className="flex items-center gap-2 text-sm text-slate-600">
+              <span>Exclude (NOT)</span>
+              <Switch checked={!!group.exclude} onCheckedChange={(v) => onChange(updateNode(root, group.id, { exclude: v }))} />
+            </div>
+          </div>
+          <Button variant="destructive" onClick={() => onChange(removeNode(root, group.id))}>
+            <Trash2 className="h-4 w-4 mr-2" />
+            Remove group
+          </Button>
+        </div>
+      )}
+
+      {group.children.map((child: QueryNode, i) => (
+        <div key={child.id} className="grid gap-4">
+          {child.kind === "block" ? (
+            <BlockEditor block={child} parent={group} index={i} root={root} onChange={onChange} nextBlockName={nextBlockName} fields={fields} counts={counts} thesaurus={thesaurus} />
+          ) : (
+            <GroupEditor group={child} depth={depth + 1} root={root} onChange={onChange} nextBlockName={nextBlockName} fields={fields} counts={counts} thesaurus={thesaurus} />
+          )}
+          {i < group.children.length - 1 && <OperatorSelect value={group.operators[i]} onChange={(op) => onChange(setOperator(root, group.id, i, op))} hint="(operator to next item — AND binds tighter than OR)" />}
+        </div>
+      ))}
+
+      <div className="flex gap-2">
+        <Button variant={isRoot ? "default" : "secondary"} onClick={() => onChange(insertNode(root, group.id, group.children.length, makeBlock(nextBlockName())))}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Block
+        </Button>
+        <Button variant="outline" onClick={() => onChange(insertNode(root, group.id, group.children.length, makeGroup([makeBlock(nextBlockName())])))}>
+          <FolderPlus className="h-4 w-4 mr-2" />
+          Add Group
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export function QueryTreeEditor(props: EditorProps) {
+  return (
+    <div className="grid gap-4">
+      {props.counts && (
+        <div className="text-sm text-slate-600 tabular-nums">
+          {props.counts.matched} of {props.counts.eligible} records match the current query
+        </div>
+      )}
+      <GroupEditor group={props.root} depth={0} {...props} />
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import { RUN_PHASE_LABELS, type RunProgress } from "@/lib/run";
+
+const PREVIEW_LIMIT = 25;
+
+export function RunProgressPanel({ progress }: { progress: RunProgress }) {
+  const { phase, done, total, matched } = progress;
+  const percent = phase === "match" && total ? Math.round((done / total) * 100) : phase === "stats" ? 100 : 0;
+
+  return (
+    <div className="rounded-2xl border bg-white p-4 shadow-sm grid gap-3">
+      <div className="flex items-center justify-between text-sm text-slate-700">
+        <span>{RUN_PHASE_LABELS[phase]}...</span>
+        {phase === "match" && (
+          <span className="tabular-nums text-slate-500">
+            {done} / {total} records · {matched.length} matched
+          </span>
+        )}
+      </div>
+      <div className="h-2 rounded-full bg-slate-100 overflow-hidden">
+        <div className="h-full bg-blue-600 transition-[width]" style={{ width: `${percent}%` }} />
+      </div>
+      {matched.length > 0 && (
+        <div className="grid gap-1 text-sm">
+          <div className="text-xs text-slate-500">First matches</div>
+          <ul className="grid gap-1">
+            {matched.slice(0, PREVIEW_LIMIT).map((r, i) => (
+              <li key={i} className="truncate">
+                <span className="font-mono text-slate-500">{r.CiteKey}</span> {r.Title}
+              </li>
+            ))}
+          </ul>
+          {matched.length > PREVIEW_LIMIT && <div className="text-xs text-slate-500">and {matched.length - PREVIEW_LIMIT} more so far</div>}
+        </div>
+      )}
+    </div>
+  );
+}
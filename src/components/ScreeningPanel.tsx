@@ -0,0 +1,189 @@
+import { useEffect, useMemo, useRef, useState, type ReactNode } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { DECISION_LABELS, getDecision, setDecision, summarizeScreening, type ScreenableRow, type ScreeningDecision, type ScreeningState } from "@/lib/screening";
+
+type Filter = "all" | "undecided" | ScreeningDecision;
+
+const FILTERS: { id: Filter; label: string }[] = [
+  { id: "all", label: "All" },
+  { id: "undecided", label: "Undecided" },
+  { id: "include", label: "Included" },
+  { id: "exclude", label: "Excluded" },
+  { id: "maybe", label: "Maybe" },
+];
+
+const DECISION_STYLES: Record<ScreeningDecision, string> = {
+  include: "bg-green-600 text-white hover:bg-green-700",
+  exclude: "bg-red-600 text-white hover:bg-red-700",
+  maybe: "bg-amber-500 text-white hover:bg-amber-600",
+};
+
+type Props<Row extends ScreenableRow> = {
+  rows: Row[];
+  state: ScreeningState;
+  onChange: (next: ScreeningState) => void;
+  renderRecord: (row: Row) => ReactNode;
+};
+
+export function ScreeningPanel<Row extends ScreenableRow>({ rows, state, onChange, renderRecord }: Props<Row>) {
+  const [filter, setFilter] = useState<Filter>("all");
+  const [position, setPosition] = useState(0);
+  const [newReason, setNewReason] = useState("");
+  const noteRef = useRef<HTMLTextAreaElement>(null);
+
+  const summary = useMemo(() => summarizeScreening(rows, state), [rows, state]);
+  const visible = useMemo(
+    () =>
+      rows.filter((r) => {
+        const d = getDecision(state, r);
+        if (filter === "all") return true;
+        if (filter === "undecided") return !d;
+        return d?.decision === filter;
+      }),
+    [rows, state, filter]
+  );
+
+  const index = Math.min(position, Math.max(0, visible.length - 1));
+  const row = visible[index];
+  const current = row ? getDecision(state, row) : undefined;
+
+  const advance = (decision: ScreeningDecision) => {
+    if (filter === "all" || filter === decision) setPosition(Math.min(index + 1, visible.length - 1));
+  };
+
+  const decide = (decision: ScreeningDecision) => {
+    if (!row) return;
+    onChange(setDecision(state, row, { decision }));
+    if (decision !== "exclude") advance(decision);
+  };
+
+  const update = (patch: { reason?: string; note?: string }) => {
+    if (!row || !current) return;
+    onChange(setDecision(state, row, patch));
+  };
+
+  const keyHandler = useRef<(e: KeyboardEvent) => void>(() => {});
+  keyHandler.current = (e: KeyboardEvent) => {
+    const target = e.target as HTMLElement | null;
+    if (target && (target.isContentEditable || /^(INPUT|TEXTAREA|SELECT)$/.test(target.tagName))) return;
+    if (e.ctrlKey || e.metaKey || e.altKey) return;
+    const key = e.key.toLowerCase();
+    if (key === "i") decide("include");
+    else if (key === "x" || key === "e") decide("exclude");
+    else if (key === "m") decide("maybe");
+    else if (key === "j" || key === "arrowright") setPosition(Math.min(index + 1, visible.length - 1));
+    else if (key === "k" || key === "arrowleft") setPosition(Math.max(index - 1, 0));
+    else if (key === "u" && row) onChange(setDecision(state, row, null));
+    else if (key === "n") noteRef.current?.focus();
+    else if (/^[1-9]$/.test(key) && current?.decision === "exclude" && state.reasons[Number(key) - 1]) {
+      update({ reason: state.reasons[Number(key) - 1] });
+      advance("exclude");
+    } else return;
+    e.preventDefault();
+  };
+
+  useEffect(() => {
+    const listener = (e: KeyboardEvent) => keyHandler.current(e);
+    window.addEventListener("keydown", listener);
+    return () => window.removeEventListener("keydown", listener);
+  }, []);
+
+  const screened = summary.total - summary.undecided;
+
+  return (
+    <div className="grid gap-4">
+      <div className="grid gap-2">
+        <div className="flex flex-wrap items-center justify-between gap-2 text-sm text-slate-700">
+          <span>
+            {screened} of {summary.total} screened · <span className="text-green-700">{summary.included} included</span> · <span className="text-red-700">{summary.excluded} excluded</span> · <span className="text-amber-700">{summary.maybe} maybe</span>
+          </span>
+          <div className="flex gap-1">
+            {FILTERS.map((f) => (
+              <Button
+                key={f.id}
+                size="sm"
+                variant={filter === f.id ? "default" : "outline"}
+                onClick={() => {
+                  setFilter(f.id);
+                  setPosition(0);
+                }}
+              >
+                {f.label}
+              </Button>
+            ))}
+          </div>
+        </div>
+        <div className="h-2 rounded-full bg-slate-100 overflow-hidden flex">
+          <div className="bg-green-600" style={{ width: `${(summary.included / Math.max(1, summary.total)) * 100}%` }} />
+          <div className="bg-red-600" style={{ width: `${(summary.excluded / Math.max(1, summary.total)) * 100}%` }} />
+          <div className="bg-amber-500" style={{ width: `${(summary.maybe / Math.max(1, summary.total)) * 100}%` }} />
+        </div>
+      </div>
+
+      {!row ? (
+        <div className="text-sm text-slate-500">No records in this view.</div>
+      ) : (
+        <>
+          <div className="flex items-center justify-between">
+            <Button variant="outline" size="sm" onClick={() => setPosition(Math.max(index - 1, 0))} disabled={index === 0}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="text-sm text-slate-500 tabular-nums">
+              {index + 1} / {visible.length}
+            </span>
+            <Button variant="outline" size="sm" onClick={() => setPosition(Math.min(index + 1, visible.length - 1))} disabled={index >= visible.length - 1}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+
+          {renderRecord(row)}
+
+          <div className="flex flex-wrap items-center gap-2">
+            {(Object.keys(DECISION_LABELS) as ScreeningDecision[]).map((d) => (
+              <Button key={d} variant="outline" className={current?.decision === d ? DECISION_STYLES[d] : ""} onClick={() => decide(d)}>
+                {DECISION_LABELS[d]}
+              </Button>
+            ))}
+            {current?.decision === "exclude" && (
+              <Select value={current.reason ?? ""} onValueChange={(reason) => update({ reason })}>
+                <SelectTrigger className="w-64">
+                  <SelectValue placeholder="Exclusion reason" />
+                </SelectTrigger>
+                <SelectContent>
+                  {state.reasons.map((r, i) => (
+                    <SelectItem key={r} value={r}>
+                      {i < 9 ? `${i + 1}. ` : ""}
+                      {r}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+          <Textarea ref={noteRef} value={current?.note ?? ""} disabled={!current} onChange={(e) => update({ note: e.target.value })} placeholder={current ? "Note (optional)" : "Make a decision to add a note"} className="min-h-[60px] text-sm" />
+        </>
+      )}
+
+      <div className="flex items-center gap-2">
+        <Input value={newReason} onChange={(e) => setNewReason(e.target.value)} placeholder="New exclusion reason" className="w-64 h-8 text-sm" />
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={!newReason.trim() || state.reasons.includes(newReason.trim())}
+          onClick={() => {
+            onChange({ ...state, reasons: [...state.reasons, newReason.trim()] });
+            setNewReason("");
+          }}
+        >
+          Add reason
+        </Button>
+      </div>
+
+      <p className="text-xs text-slate-500">Shortcuts: I include · X exclude · M maybe · U undo · 1–9 exclusion reason · J/→ next · K/← previous · N note</p>
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Plus, Trash2 } from "lucide-react";
+import { FIELD_NAMES, MAX_FIELDS, type FieldDefinition, type SearchFields } from "@/lib/query";
+
+type Props = {
+  fields: FieldDefinition[];
+  selected: SearchFields;
+  onChange: (fields: FieldDefinition[], selected: SearchFields) => void;
+};
+
+const parseSources = (text: string) => [...new Set(text.split(/[\s,;]+/).map((s) => s.trim().toLowerCase()).filter(Boolean))];
+
+function SourcesInput({ sources, onChange }: { sources: string[]; onChange: (sources: string[]) => void }) {
+  const [draft, setDraft] = useState<string | null>(null);
+  const commit = () => {
+    const next = parseSources(draft ?? "");
+    if (draft !== null && next.length) onChange(next);
+    setDraft(null);
+  };
+
+  return (
+    <Input
+      value={draft ?? sources.join(", ")}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") commit();
+      }}
+      placeholder="BibTeX fields, e.g. keywords, author-keywords"
+      title="BibTeX fields read for this field, in order; the first one that is not empty is searched"
+    />
+  );
+}
+
+export function SearchFieldsPanel({ fields, selected, onChange }: Props) {
+  const [name, setName] = useState("");
+  const id = parseSources(name)[0] ?? "";
+  const taken = fields.some((f) => f.id === id);
+
+  const update = (index: number, patch: Partial<FieldDefinition>) => onChange(fields.map((f, i) => (i === index ? { ...f, ...patch } : f)), selected);
+
+  const add = () => {
+    if (!id || taken || fields.length >= MAX_FIELDS) return;
+    onChange([...fields, { id, label: id, sources: [id] }], { ...selected, [id]: true });
+    setName("");
+  };
+
+  const remove = (field: FieldDefinition) => {
+    const rest = { ...selected };
+    delete rest[field.id];
+    onChange(fields.filter((f) => f.id !== field.id), rest);
+  };
+
+  return (
+    <div className="grid gap-3">
+      <div>
+        <Label className="text-base">Search fields</Label>
+        <p className="text-sm text-slate-500">Blocks without fields of their own search the switched-on fields. Each field reads the first non-empty BibTeX field in its list, so aliases such as abs or summary can stand in for abstract.</p>
+      </div>
+      <div className="grid gap-2 text-sm">
+        {fields.map((f, i) => (
+          <div key={f.id} className="grid grid-cols-[auto_10rem_1fr_auto] items-center gap-2">
+            <Switch checked={!!selected[f.id]} onCheckedChange={(v) => onChange(fields, { ...selected, [f.id]: v })} />
+            <Input value={f.label} onChange={(e) => update(i, { label: e.target.value })} placeholder={f.id} />
+            <SourcesInput sources={f.sources} onChange={(sources) => update(i, { sources })} />
+            <Button variant="ghost" size="icon" disabled={FIELD_NAMES.includes(f.id)} onClick={() => remove(f)} title={FIELD_NAMES.includes(f.id) ? "Built-in fields cannot be removed; switch them off instead" : "Remove field; blocks that search it fall back to their other fields"}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+      <div className="flex items-center gap-2 text-sm">
+        <Input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") add();
+          }}
+          placeholder="BibTeX field, e.g. mesh, note, journal"
+          className="w-72"
+        />
+        <Button variant="outline" onClick={add} disabled={!id || taken || fields.length >= MAX_FIELDS}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add field
+        </Button>
+        {taken && <span className="text-slate-500">{id} is already a search field.</span>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import { useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { BookOpen, Trash2, Upload } from "lucide-react";
+import { THESAURUS_FILE_ACCEPT, type Thesaurus } from "@/lib/thesaurus";
+
+type Props = {
+  thesaurus: Thesaurus | null;
+  onLoad: (file: File) => void;
+  onClear: () => void;
+};
+
+export function ThesaurusPanel({ thesaurus, onLoad, onClear }: Props) {
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 text-sm text-slate-600">
+      <BookOpen className="h-4 w-4" />
+      {thesaurus ? (
+        <span>
+          Thesaurus <span className="font-medium text-slate-800">{thesaurus.name}</span> · {thesaurus.concepts.length} concepts. Use the book button next to a term to expand it with synonyms and narrower terms.
+        </span>
+      ) : (
+        <span>Load a thesaurus (JSON synonym lists or SKOS Turtle) to expand terms with their synonyms and narrower terms.</span>
+      )}
+      <Button variant="outline" size="sm" onClick={() => fileRef.current?.click()}>
+        <Upload className="h-4 w-4 mr-2" />
+        {thesaurus ? "Replace" : "Load Thesaurus"}
+      </Button>
+      {thesaurus && (
+        <Button variant="ghost" size="icon" onClick={onClear} title="Remove thesaurus; expanded terms keep their current synonyms">
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      )}
+      <input
+        ref={fileRef}
+        type="file"
+        accept={THESAURUS_FILE_ACCEPT}
+        className="hidden"
+        onChange={(e) => {
+          const f = e.target.files?.[0];
+          if (f) onLoad(f);
+          e.currentTarget.value = "";
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+// Public API of the matching engine. Other tools import from here (or from the built package,
+// see `npm run build:engine`); modules under src/lib are internal and may change.
+export { parseBibtex, parseBibtexEntries, type BibDiagnostic, type BibEntry, type BibEntry as Entry, type BibParseResult, type BibStringDef } from "@/lib/bibtex";
+export { combineSources, detectLibraryFormat, LIBRARY_FORMATS, parseLibrary, type LibraryFormat, type LibrarySource } from "@/lib/importers";
+export {
+  blockFields,
+  blockLabel,
+  DEFAULT_FIELDS,
+  DEFAULT_SEARCH_FIELDS,
+  evaluateQueryOnText,
+  FIELD_NAMES,
+  fieldLabel,
+  fromFlatQuery,
+  listBlocks,
+  makeBlock,
+  makeGroup,
+  parseProximity,
+  readField,
+  searchedFields,
+  toSmartWordPattern,
+  type Block,
+  type BlockNode,
+  type ConfigMetadata,
+  type FieldDefinition,
+  type FieldHits,
+  type FieldName,
+  type GroupNode,
+  type MatchResult,
+  type Operator,
+  type ProximityTerm,
+  type QueryConfig,
+  type QueryNode,
+  type SearchFields,
+} from "@/lib/query";
+export { parseBooleanQuery, type ParsedBooleanQuery, type QuerySyntaxError } from "@/lib/booleanQuery";
+export { buildConfigFile, CONFIG_FORMAT, CONFIG_VERSION, ConfigValidationError, parseConfigFile, readConfig, type ConfigFile, type LoadedConfig } from "@/lib/configFile";
+export { applyMetadataFilters, entryYear, failedFilter, FILTER_FIELDS, filterLabel, isActiveFilter, type FilterField, type FilterOutcome, type MetadataFilter } from "@/lib/filters";
+export { DEFAULT_DEDUP, deduplicate, type DedupOptions, type DedupResult, type DuplicateCluster } from "@/lib/dedup";
+export { buildSearchIndex, computeHitCounts, createIndexedMatcher, type FieldTexts, type HitCounts, type SearchIndex } from "@/lib/searchIndex";
+export { computeQueryCounts, computeTermStats, executeRun, type MatchedRow, type MatchedTermsMap, type PartialRow, type RecordRow, type RunInput, type RunOutput, type RunProgress, type RunResult, type TermStats } from "@/lib/run";
+export { highlightSpans, type HighlightSpan } from "@/lib/highlight";
+export { buildRunSummary, toCSV, type RunSummary } from "@/lib/report";
+export { buildBibExport, type BibExportMode } from "@/lib/bibExport";
+export { buildAllDatabaseQueries, buildDatabaseQuery, type DatabaseId, type DatabaseQuery } from "@/lib/databaseExport";
+export { buildPrismaSvg, prismaCounts, type PrismaCounts } from "@/lib/prisma";
+export { expandTerm, parseThesaurus, type Thesaurus } from "@/lib/thesaurus";
+export { stem } from "@/lib/stemmer";
@@ -0,0 +1,15 @@
+import { describe, expect, it } from "vitest";
+import { buildBibExport } from "@/lib/bibExport";
+import { parseBibtex } from "@/lib/bibtex";
+
+const { entries, stringDefs } = parseBibtex(`@string{jvr = "J. VR"}\n@article{a, title = {T}, journal = jvr}\n@misc{b, title={U}}`);
+
+describe("buildBibExport", () => {
+  it("keeps the original text and the @string definitions it uses", () => {
+    expect(buildBibExport(entries.slice(0, 1), stringDefs)).toBe('@string{jvr = "J. VR"}\n\n@article{a, title = {T}, journal = jvr}\n');
+  });
+
+  it("writes aligned fields with macros expanded in normalized mode", () => {
+    expect(buildBibExport(entries.slice(0, 1), stringDefs, "normalized")).toBe("@article{a,\n  title   = {T},\n  journal = {J. VR},\n}\n");
+  });
+});
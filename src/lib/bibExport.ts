@@ -0,0 +1,34 @@
+import type { BibEntry, BibStringDef } from "@/lib/bibtex";
+
+export type BibExportMode = "original" | "normalized";
+
+export const BIB_EXPORT_MODES: { id: BibExportMode; label: string }[] = [
+  { id: "original", label: "Original formatting" },
+  { id: "normalized", label: "Normalized" },
+];
+
+function macroDependencies(entries: BibEntry[], stringDefs: Record<string, BibStringDef>) {
+  const needed = new Set<string>();
+  const visit = (name: string) => {
+    if (needed.has(name) || !stringDefs[name]) return;
+    needed.add(name);
+    stringDefs[name].uses.forEach(visit);
+  };
+  entries.forEach((e) => (e.__macros || "").split(" ").filter(Boolean).forEach(visit));
+  return Object.keys(stringDefs).filter((name) => needed.has(name));
+}
+
+export function formatBibEntry(entry: BibEntry) {
+  const { entry_type, citekey, ...fields } = entry;
+  const pairs = Object.entries(fields).filter((pair): pair is [string, string] => !pair[0].startsWith("__") && pair[1] !== undefined);
+  const width = Math.max(0, ...pairs.map(([k]) => k.length));
+  const body = pairs.map(([k, v]) => `  ${k.padEnd(width)} = {${v.replace(/\s+/g, " ").trim()}}`).join(",\n");
+  return `@${entry_type.toLowerCase()}{${citekey},\n${body}${body ? ",\n" : ""}}`;
+}
+
+export function buildBibExport(entries: BibEntry[], stringDefs: Record<string, BibStringDef>, mode: BibExportMode = "original") {
+  if (mode === "normalized") return entries.map(formatBibEntry).join("\n\n") + "\n";
+  const strings = macroDependencies(entries, stringDefs).map((name) => stringDefs[name].raw);
+  const chunks = entries.map((e) => e.__raw);
+  return (strings.length ? strings.join("\n") + "\n\n" : "") + chunks.join("\n\n") + "\n";
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { parseBibtex, parseBibtexEntries } from "@/lib/bibtex";
+
+describe("parseBibtex", () => {
+  it("reads fields case-insensitively and keeps nested braces", () => {
+    const { entries } = parseBibtex("@Article{Key1, Title = {A {VR} study}, YEAR = 2020}");
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({ entry_type: "Article", citekey: "Key1", title: "A {VR} study", year: "2020" });
+  });
+
+  it("expands @string macros, concatenation and month names", () => {
+    const { entries, stringDefs } = parseBibtex(`@string{vr = "Virtual Reality"}\n@article{a, journal = vr # " Journal", month = jan}`);
+    expect(entries[0].journal).toBe("Virtual Reality Journal");
+    expect(entries[0].month).toBe("January");
+    expect(entries[0].__macros).toBe("vr");
+    expect(Object.keys(stringDefs)).toEqual(["vr"]);
+  });
+
+  it("keeps the raw source of every entry", () => {
+    const src = "@misc{a, title={One}}\n\n@misc{b, title={Two}}";
+    expect(parseBibtex(src).entries.map((e) => e.__raw)).toEqual(["@misc{a, title={One}}", "@misc{b, title={Two}}"]);
+  });
+
+  it("reports unterminated values with their line and column and keeps earlier entries", () => {
+    const { entries, diagnostics } = parseBibtex("@misc{ok, title={Fine}}\n@misc{broken, title = {never closed\n");
+    expect(entries.map((e) => e.citekey)).toEqual(["ok"]);
+    expect(diagnostics).toEqual([expect.objectContaining({ severity: "error", line: 2, citekey: "broken" })]);
+  });
+
+  it("throws when text has no entries at all", () => {
+    expect(() => parseBibtexEntries("title = {no at sign}")).toThrow(/No BibTeX entries/);
+    expect(parseBibtexEntries("")).toEqual([]);
+  });
+});
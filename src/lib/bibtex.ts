@@ -0,0 +1,314 @@
+export type BibEntry = {
+  entry_type: string;
+  citekey: string;
+  __raw: string;
+  __macros?: string;
+  [field: string]: string | undefined;
+};
+
+export type BibDiagnostic = {
+  severity: "error" | "warning";
+  message: string;
+  line: number;
+  column: number;
+  citekey?: string;
+  source?: string;
+};
+
+export type BibStringDef = {
+  raw: string;
+  uses: string[];
+};
+
+export type BibParseResult = {
+  entries: BibEntry[];
+  strings: Record<string, string>;
+  stringDefs: Record<string, BibStringDef>;
+  preambles: string[];
+  diagnostics: BibDiagnostic[];
+};
+
+const MONTH_MACROS: Record<string, string> = {
+  jan: "January",
+  feb: "February",
+  mar: "March",
+  apr: "April",
+  may: "May",
+  jun: "June",
+  jul: "July",
+  aug: "August",
+  sep: "September",
+  oct: "October",
+  nov: "November",
+  dec: "December",
+};
+
+class BibSyntaxError extends Error {
+  readonly offset: number;
+
+  constructor(message: string, offset: number) {
+    super(message);
+    this.offset = offset;
+  }
+}
+
+class BibParser {
+  private i = 0;
+  private readonly src: string;
+  private readonly lineStarts: number[] = [0];
+  private readonly result: BibParseResult = { entries: [], strings: {}, stringDefs: {}, preambles: [], diagnostics: [] };
+  private used = new Set<string>();
+
+  constructor(src: string) {
+    this.src = src;
+    for (let k = 0; k < src.length; k++) if (src[k] === "\n") this.lineStarts.push(k + 1);
+  }
+
+  parse(): BibParseResult {
+    const n = this.src.length;
+    while (this.i < n) {
+      const at = this.src.indexOf("@", this.i);
+      if (at === -1) break;
+      this.i = at;
+      try {
+        this.parseItem();
+      } catch (err) {
+        if (!(err instanceof BibSyntaxError)) throw err;
+        this.report("error", err.message, err.offset, this.peekCitekey(at));
+        this.i = this.recover(at, err.offset);
+      }
+    }
+    return this.result;
+  }
+
+  private location(offset: number) {
+    let lo = 0;
+    let hi = this.lineStarts.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (this.lineStarts[mid] <= offset) lo = mid;
+      else hi = mid - 1;
+    }
+    return { line: lo + 1, column: offset - this.lineStarts[lo] + 1 };
+  }
+
+  private report(severity: BibDiagnostic["severity"], message: string, offset: number, citekey?: string) {
+    this.result.diagnostics.push({ severity, message, ...this.location(offset), ...(citekey ? { citekey } : {}) });
+  }
+
+  private peekCitekey(at: number) {
+    const m = this.src.slice(at, at + 300).match(/^@\s*\w+\s*[{(]\s*([^,\s{}()=]+)/);
+    return m?.[1];
+  }
+
+  private recover(at: number, errorOffset: number) {
+    const open = this.matchAt(/@\s*\w*\s*/y, at);
+    if (open && this.src[at + open[0].length] === "{") {
+      let depth = 0;
+      for (let k = at + open[0].length; k < this.src.length; k++) {
+        const ch = this.src[k];
+        if (ch === "@" && k > at && this.atLineStart(k)) break;
+        if (ch === "{") depth++;
+        else if (ch === "}" && --depth === 0) {
+          if (k + 1 > errorOffset) return k + 1;
+          break;
+        }
+      }
+    }
+    for (let k = Math.max(errorOffset, at + 1); k < this.src.length; k++) {
+      if (this.src[k] === "@" && this.atLineStart(k)) return k;
+    }
+    return this.src.length;
+  }
+
+  private atLineStart(k: number) {
+    return /(?:^|\n)[ \t]*$/.test(this.src.slice(Math.max(0, k - 80), k));
+  }
+
+  private matchAt(re: RegExp, at = this.i) {
+    re.lastIndex = at;
+    return re.exec(this.src);
+  }
+
+  private skipWs() {
+    while (this.i < this.src.length && /\s/.test(this.src[this.i])) this.i++;
+  }
+
+  private expect(ch: string, what: string) {
+    this.skipWs();
+    if (this.src[this.i] !== ch) throw new BibSyntaxError(`Expected ${what} but found ${this.describe()}`, this.i);
+    this.i++;
+  }
+
+  private describe() {
+    if (this.i >= this.src.length) return "end of input";
+    const ch = this.src[this.i];
+    return ch === "\n" ? "a line break" : `"${ch}"`;
+  }
+
+  private readIdentifier(what: string) {
+    this.skipWs();
+    const m = this.matchAt(/[^\s"#%'(),={}]+/y);
+    if (!m) throw new BibSyntaxError(`Expected ${what} but found ${this.describe()}`, this.i);
+    this.i += m[0].length;
+    return m[0];
+  }
+
+  private parseItem() {
+    const start = this.i;
+    this.i++;
+    const m = this.matchAt(/\s*([A-Za-z]\w*)/y);
+    if (!m) {
+      this.i = start + 1;
+      return;
+    }
+    this.i += m[0].length;
+    const type = m[1];
+    const kind = type.toLowerCase();
+    this.skipWs();
+    const open = this.src[this.i];
+    if (open !== "{" && open !== "(") {
+      if (kind === "comment") return;
+      throw new BibSyntaxError(`Expected "{" or "(" after @${type} but found ${this.describe()}`, this.i);
+    }
+    const close = open === "{" ? "}" : ")";
+    this.i++;
+    this.used = new Set();
+
+    if (kind === "comment") {
+      this.skipComment(start, open, close);
+      return;
+    }
+    if (kind === "preamble") {
+      this.result.preambles.push(this.parseValue());
+      this.expect(close, `"${close}" to end @preamble`);
+      return;
+    }
+    if (kind === "string") {
+      const name = this.readIdentifier("a macro name");
+      this.expect("=", `"=" after @string name "${name}"`);
+      const key = name.toLowerCase();
+      this.result.strings[key] = this.parseValue();
+      this.skipWs();
+      if (this.src[this.i] === ",") this.i++;
+      this.expect(close, `"${close}" to end @string`);
+      this.result.stringDefs[key] = { raw: this.src.slice(start, this.i).trim(), uses: [...this.used] };
+      return;
+    }
+
+    const citekey = this.readIdentifier(`a citation key for @${type}`);
+    const fields: Record<string, string> = {};
+    this.skipWs();
+    if (this.src[this.i] !== close) this.expect(",", `"," after citation key "${citekey}"`);
+
+    for (;;) {
+      this.skipWs();
+      if (this.src[this.i] === close) {
+        this.i++;
+        break;
+      }
+      if (this.i >= this.src.length) throw new BibSyntaxError(`Entry "${citekey}" is not closed with "${close}"`, start);
+      const nameAt = this.i;
+      const name = this.readIdentifier(`a field name in "${citekey}"`).toLowerCase();
+      this.expect("=", `"=" after field "${name}" in "${citekey}"`);
+      const value = this.parseValue();
+      if (name in fields) this.report("warning", `Duplicate field "${name}" in "${citekey}"; the last value is used`, nameAt, citekey);
+      fields[name] = value;
+      this.skipWs();
+      if (this.src[this.i] === ",") this.i++;
+      else if (this.src[this.i] !== close) throw new BibSyntaxError(`Expected "," or "${close}" after field "${name}" in "${citekey}" but found ${this.describe()}`, this.i);
+    }
+
+    const entry: BibEntry = { ...fields, entry_type: type, citekey, __raw: this.src.slice(start, this.i).trim() };
+    if (this.used.size) entry.__macros = [...this.used].join(" ");
+    this.result.entries.push(entry);
+  }
+
+  private skipComment(start: number, open: string, close: string) {
+    let depth = 1;
+    while (this.i < this.src.length && depth > 0) {
+      const ch = this.src[this.i++];
+      if (ch === open) depth++;
+      else if (ch === close) depth--;
+    }
+    if (depth > 0) throw new BibSyntaxError("Unterminated @comment", start);
+  }
+
+  private parseValue() {
+    const parts = [this.parsePiece()];
+    for (;;) {
+      this.skipWs();
+      if (this.src[this.i] !== "#") break;
+      this.i++;
+      parts.push(this.parsePiece());
+    }
+    return parts.join("");
+  }
+
+  private parsePiece() {
+    this.skipWs();
+    const ch = this.src[this.i];
+    if (ch === "{") return this.parseDelimited("{");
+    if (ch === '"') return this.parseDelimited('"');
+    const num = this.matchAt(/\d+/y);
+    if (num) {
+      this.i += num[0].length;
+      return num[0];
+    }
+    const at = this.i;
+    const name = this.readIdentifier("a value");
+    const key = name.toLowerCase();
+    if (key in this.result.strings) {
+      this.used.add(key);
+      return this.result.strings[key];
+    }
+    if (key in MONTH_MACROS) return MONTH_MACROS[key];
+    this.report("warning", `Undefined @string macro "${name}"`, at);
+    return "";
+  }
+
+  private parseDelimited(open: "{" | '"') {
+    const start = this.i;
+    this.i++;
+    let depth = 0;
+    while (this.i < this.src.length) {
+      const ch = this.src[this.i];
+      if (ch === "\\") {
+        this.i += 2;
+        continue;
+      }
+      if (ch === "{") depth++;
+      else if (ch === "}") {
+        if (depth === 0) {
+          if (open === "{") {
+            this.i++;
+            return this.src.slice(start + 1, this.i - 1);
+          }
+          throw new BibSyntaxError('Unbalanced "}" inside a quoted value', this.i);
+        }
+        depth--;
+      } else if (ch === '"' && open === '"' && depth === 0) {
+        this.i++;
+        return this.src.slice(start + 1, this.i - 1);
+      } else if (ch === "@" && depth <= 1 && this.atLineStart(this.i)) {
+        break;
+      }
+      this.i++;
+    }
+    throw new BibSyntaxError(`Unterminated ${open === "{" ? "braced" : "quoted"} value`, start);
+  }
+}
+
+export function parseBibtex(text: string): BibParseResult {
+  return new BibParser(text || "").parse();
+}
+
+export function parseBibtexEntries(text: string) {
+  const { entries } = parseBibtex(text);
+
+  if (entries.length === 0 && (text || "").trim().length > 0) {
+    throw new Error("No BibTeX entries found. Did you forget the '@' symbol?");
+  }
+
+  return entries;
+}
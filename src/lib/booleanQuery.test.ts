@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { parseBooleanQuery } from "@/lib/booleanQuery";
+import type { QueryNode } from "@/lib/query";
+
+const shape = (node: QueryNode | null): unknown => {
+  if (!node) return null;
+  if (node.kind === "block") return { terms: node.terms, ...(node.exclude ? { exclude: true } : {}), ...(node.fields ? { fields: node.fields } : {}) };
+  return { operators: node.operators, children: node.children.map(shape) };
+};
+
+describe("parseBooleanQuery", () => {
+  it("turns OR groups into blocks joined by AND and NOT", () => {
+    const { query, errors } = parseBooleanQuery('("virtual reality" OR VR) AND (training OR "user study") NOT review');
+    expect(errors).toEqual([]);
+    expect(shape(query)).toEqual({ operators: ["AND", "AND"], children: [{ terms: ["virtual reality", "VR"] }, { terms: ["training", "user study"] }, { terms: ["review"], exclude: true }] });
+    expect(query?.children.map((c) => c.name)).toEqual(["Group 1", "Group 2", "Group 3"]);
+  });
+
+  it("binds AND tighter than OR", () => {
+    expect(shape(parseBooleanQuery("a OR b AND c").query)).toEqual({ operators: ["OR"], children: [{ terms: ["a"] }, { operators: ["AND"], children: [{ terms: ["b"] }, { terms: ["c"] }] }] });
+  });
+
+  it("reports syntax errors with their position", () => {
+    expect(parseBooleanQuery("(a OR b")).toMatchObject({ query: null, errors: [{ message: 'Missing ")" to close this "("', position: 0, length: 1 }] });
+    expect(parseBooleanQuery("a AND").errors).toEqual([{ message: "Expected a term or group but the query ended", position: 5, length: 0 }]);
+  });
+
+  it("detects Scopus field codes and gives blocks their fields", () => {
+    const parsed = parseBooleanQuery('TITLE-ABS-KEY("virtual reality" OR vr) AND TITLE(training)', "auto");
+    expect(parsed.dialect).toBe("scopus");
+    expect(parsed.searchFields).toBeNull();
+    expect(shape(parsed.query)).toEqual({ operators: ["AND"], children: [{ terms: ["virtual reality", "vr"], fields: ["title", "abstract", "keywords"] }, { terms: ["training"], fields: ["title"] }] });
+  });
+
+  it("selects the search fields when every term shares one restriction", () => {
+    const parsed = parseBooleanQuery("TITLE(a) AND TITLE(b OR c)", "scopus");
+    expect(parsed.searchFields).toEqual({ title: true, abstract: false, keywords: false });
+    expect(shape(parsed.query)).toEqual({ operators: ["AND"], children: [{ terms: ["a"] }, { terms: ["b", "c"] }] });
+  });
+
+  it("keeps unfielded terms on the selected search fields next to fielded ones", () => {
+    const one = parseBooleanQuery("TITLE(a) AND b", "scopus");
+    expect(one.searchFields).toBeNull();
+    expect(shape(one.query)).toEqual({ operators: ["AND"], children: [{ terms: ["a"], fields: ["title"] }, { terms: ["b"] }] });
+    const two = parseBooleanQuery("TITLE(a) AND ABS(c) AND b", "scopus");
+    expect(two.searchFields).toBeNull();
+    expect(shape(two.query)).toEqual({ operators: ["AND", "AND"], children: [{ terms: ["a"], fields: ["title"] }, { terms: ["c"], fields: ["abstract"] }, { terms: ["b"] }] });
+  });
+
+  it("reads PubMed tags", () => {
+    const parsed = parseBooleanQuery('"virtual reality"[tiab] AND training[ti]', "auto");
+    expect(parsed.dialect).toBe("pubmed");
+    expect(shape(parsed.query)).toEqual({ operators: ["AND"], children: [{ terms: ["virtual reality"], fields: ["title", "abstract"] }, { terms: ["training"], fields: ["title"] }] });
+  });
+
+  it("skips Web of Science clauses it cannot search and says so", () => {
+    const parsed = parseBooleanQuery('TS=("virtual reality") AND PY=(2015-2020)', "auto");
+    expect(parsed.dialect).toBe("wos");
+    expect(shape(parsed.query)).toEqual({ operators: [], children: [{ terms: ["virtual reality"] }] });
+    expect(parsed.warnings).toContain('Ignored "PY=(2015-2020)": only title, abstract and keyword searches can be imported as blocks.');
+  });
+});
@@ -0,0 +1,328 @@
+import { FIELD_NAMES, makeBlock, makeGroup, type FieldName, type GroupNode, type Operator, type QueryNode, type SearchFields } from "@/lib/query";
+import { detectDialect, FRONT_ENDS, type QueryDialect } from "@/lib/queryDialects";
+
+export type QuerySyntaxError = {
+  message: string;
+  position: number;
+  length: number;
+};
+
+type Token =
+  | { kind: "term"; value: string; closed: boolean; fields?: FieldName[] | null; position: number; end: number }
+  | { kind: "field"; fields: FieldName[] | null; position: number; end: number }
+  | { kind: "clause" | "and" | "or" | "not" | "lparen" | "rparen"; position: number; end: number };
+
+export type Ast = { kind: "term"; value: string; fields?: FieldName[] } | { kind: "ignored"; text: string } | { kind: "not"; operand: Ast } | { kind: "and" | "or"; operands: Ast[] };
+
+export type ParsedBooleanQuery = {
+  query: GroupNode | null;
+  errors: QuerySyntaxError[];
+  warnings: string[];
+  dialect: QueryDialect;
+  searchFields: SearchFields | null;
+};
+
+const KEYWORDS: Record<string, "and" | "or" | "not"> = { AND: "and", OR: "or", NOT: "not" };
+
+const QUOTES: Record<string, string> = { '"': '"', "“": "”", "„": "“" };
+
+function tokenize(src: string, dialect: QueryDialect, errors: QuerySyntaxError[], note: (msg: string) => void) {
+  const fe = FRONT_ENDS[dialect];
+  const quotes = { ...QUOTES, ...(fe.quotes || {}) };
+  const tokens: Token[] = [];
+  let i = 0;
+  const n = src.length;
+
+  const applySuffix = (t: Extract<Token, { kind: "term" }>) => {
+    const tag = fe.suffix?.(src, i);
+    if (!tag) return;
+    t.fields = tag.fields;
+    t.closed = true;
+    t.end = i + tag.length;
+    if (tag.note) note(tag.note);
+    i += tag.length;
+  };
+
+  while (i < n) {
+    const ch = src[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+    if (ch === "(" || ch === ")") {
+      tokens.push({ kind: ch === "(" ? "lparen" : "rparen", position: i, end: i + 1 });
+      i++;
+      continue;
+    }
+    const clauseLength = fe.clause?.(src, i) ?? 0;
+    if (clauseLength > 0) {
+      tokens.push({ kind: "clause", position: i, end: i + clauseLength });
+      i += clauseLength;
+      continue;
+    }
+    const prefix = fe.prefix?.(src, i);
+    if (prefix) {
+      tokens.push({ kind: "field", fields: prefix.fields, position: i, end: i + prefix.length });
+      if (prefix.note) note(prefix.note);
+      i += prefix.length;
+      continue;
+    }
+    const close = quotes[ch] || (ch === "'" ? "'" : "");
+    if (close) {
+      const endAt = src.indexOf(close, i + 1);
+      if (endAt === -1) {
+        errors.push({ message: `Unterminated quoted phrase starting with ${ch}`, position: i, length: n - i });
+        i = n;
+        break;
+      }
+      const raw = src.slice(i + 1, endAt).replace(/\s+/g, " ").trim();
+      const start = i;
+      i = endAt + 1;
+      if (!raw) {
+        errors.push({ message: "Empty quoted phrase", position: start, length: i - start });
+        continue;
+      }
+      const t: Extract<Token, { kind: "term" }> = { kind: "term", value: fe.term ? fe.term(raw, note) : raw, closed: true, position: start, end: i };
+      tokens.push(t);
+      applySuffix(t);
+      continue;
+    }
+
+    let j = i;
+    while (j < n && !/[\s()"“”„]/.test(src[j]) && !fe.wordBreak?.test(src[j])) j++;
+    if (j === i) {
+      errors.push({ message: `Unexpected character "${ch}"`, position: i, length: 1 });
+      i++;
+      continue;
+    }
+    const word = src.slice(i, j);
+    const op = fe.operator?.(word);
+    const kw = op?.kind ?? KEYWORDS[word.toUpperCase()];
+    const prev = tokens[tokens.length - 1];
+    if (op?.note) note(op.note);
+    if (kw) tokens.push({ kind: kw, position: i, end: j });
+    else if (prev && prev.kind === "term" && !prev.closed) {
+      prev.value = `${prev.value} ${fe.term ? fe.term(word, note) : word}`;
+      prev.end = j;
+    } else tokens.push({ kind: "term", value: fe.term ? fe.term(word, note) : word, closed: false, position: i, end: j });
+    i = j;
+    const last = tokens[tokens.length - 1];
+    if (last.kind === "term") applySuffix(last);
+  }
+
+  return tokens;
+}
+
+class QueryParseError extends Error {
+  readonly position: number;
+  readonly length: number;
+
+  constructor(message: string, position: number, length: number) {
+    super(message);
+    this.position = position;
+    this.length = length;
+  }
+}
+
+function withFields(ast: Ast, fields: FieldName[]): Ast {
+  if (ast.kind === "term") return ast.fields ? ast : { ...ast, fields };
+  if (ast.kind === "ignored") return ast;
+  if (ast.kind === "not") return { kind: "not", operand: withFields(ast.operand, fields) };
+  return { kind: ast.kind, operands: ast.operands.map((o) => withFields(o, fields)) };
+}
+
+class Parser {
+  private pos = 0;
+  private lastEnd = 0;
+  private readonly tokens: Token[];
+  private readonly src: string;
+
+  constructor(tokens: Token[], src: string) {
+    this.tokens = tokens;
+    this.src = src;
+  }
+
+  parse(): Ast {
+    const ast = this.parseOr();
+    const t = this.peek();
+    if (t) throw this.error(t.kind === "rparen" ? 'Unmatched ")"' : "Unexpected token", t);
+    return ast;
+  }
+
+  private peek() {
+    return this.tokens[this.pos] as Token | undefined;
+  }
+
+  private next() {
+    const t = this.tokens[this.pos++];
+    this.lastEnd = t.end;
+    return t;
+  }
+
+  private error(message: string, t?: Token) {
+    if (!t) return new QueryParseError(message, this.src.length, 0);
+    return new QueryParseError(message, t.position, t.end - t.position);
+  }
+
+  private parseOr(): Ast {
+    const operands = [this.parseAnd()];
+    while (this.peek()?.kind === "or") {
+      this.next();
+      operands.push(this.parseAnd());
+    }
+    return operands.length === 1 ? operands[0] : { kind: "or", operands };
+  }
+
+  private parseAnd(): Ast {
+    const operands = [this.parseUnary()];
+    for (;;) {
+      const t = this.peek();
+      if (t?.kind === "and") {
+        this.next();
+        operands.push(this.parseUnary());
+      } else if (t && (t.kind === "term" || t.kind === "lparen" || t.kind === "not" || t.kind === "field" || t.kind === "clause")) {
+        operands.push(this.parseUnary());
+      } else break;
+    }
+    return operands.length === 1 ? operands[0] : { kind: "and", operands };
+  }
+
+  private parseUnary(): Ast {
+    const t = this.peek();
+    if (t?.kind === "not") {
+      this.next();
+      return { kind: "not", operand: this.parseUnary() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): Ast {
+    const t = this.peek();
+    if (!t) throw this.error("Expected a term or group but the query ended");
+    if (t.kind === "term") {
+      this.next();
+      if (t.fields === null) return { kind: "ignored", text: this.src.slice(t.position, t.end) };
+      return { kind: "term", value: t.value, fields: t.fields };
+    }
+    if (t.kind === "clause") {
+      this.next();
+      return { kind: "ignored", text: this.src.slice(t.position, t.end) };
+    }
+    if (t.kind === "field") {
+      this.next();
+      const inner = this.parsePrimary();
+      if (t.fields === null) return { kind: "ignored", text: this.src.slice(t.position, this.lastEnd) };
+      return withFields(inner, t.fields);
+    }
+    if (t.kind === "lparen") {
+      this.next();
+      if (this.peek()?.kind === "rparen") throw this.error("Empty parentheses", this.peek());
+      const inner = this.parseOr();
+      const close = this.peek();
+      if (close?.kind !== "rparen") throw this.error('Missing ")" to close this "("', t);
+      this.next();
+      return inner;
+    }
+    if (t.kind === "rparen") throw this.error('Unmatched ")"', t);
+    throw this.error(`Operator ${t.kind.toUpperCase()} is missing an operand`, t);
+  }
+}
+
+function prune(ast: Ast, warn: (msg: string) => void): Ast | null {
+  if (ast.kind === "term") return ast;
+  if (ast.kind === "ignored") {
+    warn(`Ignored "${ast.text}": only title, abstract and keyword searches can be imported as blocks.`);
+    return null;
+  }
+  if (ast.kind === "not") {
+    const inner = prune(ast.operand, warn);
+    if (!inner) return null;
+    return inner.kind === "not" ? inner.operand : { kind: "not", operand: inner };
+  }
+  const operands = ast.operands
+    .map((o) => prune(o, warn))
+    .filter((o): o is Ast => o !== null)
+    .flatMap((o) => (o.kind === ast.kind ? (o as { operands: Ast[] }).operands : [o]));
+  if (operands.length === 0) return null;
+  return operands.length === 1 ? operands[0] : { kind: ast.kind, operands };
+}
+
+type TermAst = Extract<Ast, { kind: "term" }>;
+
+const fieldsPatch = (fields?: FieldName[]) => (fields ? { fields } : {});
+
+function toNode(ast: Ast, nextName: () => string, seen: (fields?: FieldName[]) => void): QueryNode {
+  if (ast.kind === "term") {
+    seen(ast.fields);
+    return makeBlock(nextName(), [ast.value], fieldsPatch(ast.fields));
+  }
+  if (ast.kind === "not") {
+    const node = toNode(ast.operand, nextName, seen);
+    return { ...node, exclude: !node.exclude };
+  }
+  if (ast.kind === "or") {
+    const termAsts = ast.operands.filter((o): o is TermAst => o.kind === "term");
+    termAsts.forEach((o) => seen(o.fields));
+    const rest = ast.operands.filter((o) => o.kind !== "term");
+    const byFields = new Map<string, TermAst[]>();
+    termAsts.forEach((o) => byFields.set(o.fields?.join("+") ?? "", [...(byFields.get(o.fields?.join("+") ?? "") ?? []), o]));
+    const children: QueryNode[] = [...byFields.values()].map((terms) => makeBlock(nextName(), terms.map((o) => o.value), fieldsPatch(terms[0].fields)));
+    rest.forEach((o) => children.push(toNode(o, nextName, seen)));
+    if (children.length === 1) return children[0];
+    return makeGroup(children, children.slice(1).map((): Operator => "OR"));
+  }
+  if (ast.kind === "ignored") return makeGroup();
+  const children = ast.operands.map((o) => toNode(o, nextName, seen));
+  return makeGroup(children, children.slice(1).map((): Operator => "AND"));
+}
+
+export function parseBooleanAst(input: string, dialect: QueryDialect = "generic") {
+  const errors: QuerySyntaxError[] = [];
+  const notes = new Set<string>();
+  const tokens = tokenize(input || "", dialect, errors, (msg) => notes.add(msg));
+  const done = (ast: Ast | null) => ({ ast, errors, warnings: [...notes] });
+  if (errors.length) return done(null);
+  if (tokens.length === 0) {
+    errors.push({ message: "The query is empty", position: 0, length: 0 });
+    return done(null);
+  }
+  try {
+    const ast = prune(new Parser(tokens, input).parse(), (msg) => notes.add(msg));
+    if (!ast) errors.push({ message: "The query has no title, abstract or keyword terms", position: 0, length: input.length });
+    return done(ast);
+  } catch (err) {
+    if (err instanceof QueryParseError) {
+      errors.push({ message: err.message, position: err.position, length: err.length });
+      return done(null);
+    }
+    throw err;
+  }
+}
+
+// When every term shares one field restriction, it becomes the global field selection instead.
+function stripBlockFields(node: QueryNode): QueryNode {
+  if (node.kind === "group") return { ...node, children: node.children.map(stripBlockFields) };
+  const block = { ...node };
+  delete block.fields;
+  return block;
+}
+
+export function parseBooleanQuery(input: string, dialect: QueryDialect | "auto" = "generic"): ParsedBooleanQuery {
+  const resolved = dialect === "auto" ? detectDialect(input) : dialect;
+  const { ast, errors, warnings } = parseBooleanAst(input, resolved);
+  if (!ast) return { query: null, errors, warnings, dialect: resolved, searchFields: null };
+
+  let count = 0;
+  let unfielded = false;
+  const fieldSets = new Set<string>();
+  const node = toNode(ast, () => `Group ${++count}`, (fields) => {
+    if (fields) fieldSets.add(fields.join("+"));
+    else unfielded = true;
+  });
+  const root = node.kind === "group" && !node.exclude ? node : makeGroup([node]);
+  if (unfielded || fieldSets.size !== 1) return { query: root, errors, warnings, dialect: resolved, searchFields: null };
+
+  const used = new Set([...fieldSets][0].split("+"));
+  const searchFields: SearchFields = Object.fromEntries(FIELD_NAMES.map((f) => [f, used.has(f)]));
+  return { query: stripBlockFields(root) as GroupNode, errors, warnings, dialect: resolved, searchFields };
+}
@@ -0,0 +1,134 @@
+import { describe, expect, it } from "vitest";
+import { buildConfigFile, CONFIG_FORMAT, CONFIG_VERSION, ConfigValidationError, parseConfigFile, type ConfigFile } from "@/lib/configFile";
+import { DEFAULT_DEDUP } from "@/lib/dedup";
+import { DEFAULT_FIELDS, makeBlock, makeGroup, type QueryConfig } from "@/lib/query";
+
+const cfg: QueryConfig = {
+  query: makeGroup([makeBlock("VR", ["virtual reality"], { fields: ["title"] }), makeBlock("Study", ["user study"])], ["AND"]),
+  caseInsensitive: true,
+  decodeLatex: true,
+  foldDiacritics: false,
+  dedup: DEFAULT_DEDUP,
+  fields: [...DEFAULT_FIELDS, { id: "mesh", label: "MeSH", sources: ["mesh", "mesh-terms"] }],
+  searchFields: { title: true, abstract: true, keywords: false, mesh: true },
+  filters: [
+    { id: "years", field: "year", values: [], from: 2015, to: 2024 },
+    { id: "nice", field: "venue", values: ["Nice Conf"], exclude: true },
+  ],
+  metadata: { author: "Jane Doe", date: "2024-05-31", description: "VR user studies", protocolId: "CRD42024000000" },
+};
+
+const issuesOf = (text: string) => {
+  try {
+    parseConfigFile(text);
+  } catch (error) {
+    if (error instanceof ConfigValidationError) return error.issues;
+    throw error;
+  }
+  return [];
+};
+
+describe("config files", () => {
+  it("round-trips a config with its metadata", () => {
+    const file = buildConfigFile(cfg);
+    expect(file).toMatchObject({ format: CONFIG_FORMAT, version: CONFIG_VERSION, metadata: cfg.metadata });
+    expect(parseConfigFile(JSON.stringify(file))).toEqual({ cfg, migratedFrom: null, warnings: [] });
+  });
+
+  it("dates a config on save when no date was entered", () => {
+    expect(buildConfigFile({ ...cfg, metadata: undefined }).metadata.date).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+  });
+
+  it("migrates unversioned tree configs", () => {
+    const legacy = { ...cfg, metadata: undefined };
+    const loaded = parseConfigFile(JSON.stringify(legacy));
+    expect(loaded.migratedFrom).toBe("unversioned");
+    expect(loaded.cfg).toEqual(legacy);
+  });
+
+  it("gives version 1 configs the default search fields", () => {
+    const v1: Partial<ConfigFile["config"]> = buildConfigFile({ ...cfg, searchFields: { title: true, abstract: true, keywords: false } }).config;
+    delete v1.fields;
+    const loaded = parseConfigFile(JSON.stringify({ format: CONFIG_FORMAT, version: 1, metadata: cfg.metadata, config: v1 }));
+    expect(loaded.migratedFrom).toBe("v1");
+    expect(loaded.cfg.fields).toEqual(DEFAULT_FIELDS);
+  });
+
+  it("gives version 2 configs no metadata filters", () => {
+    const v2: Partial<ConfigFile["config"]> = buildConfigFile(cfg).config;
+    delete v2.filters;
+    const loaded = parseConfigFile(JSON.stringify({ format: CONFIG_FORMAT, version: 2, metadata: cfg.metadata, config: v2 }));
+    expect(loaded).toMatchObject({ migratedFrom: "v2", cfg: { filters: [] } });
+  });
+
+  it("leaves filters without values out of the saved file", () => {
+    expect(buildConfigFile({ ...cfg, filters: [...cfg.filters, { id: "blank", field: "author", values: [] }] }).config.filters).toEqual(cfg.filters);
+  });
+
+  it("checks metadata filters", () => {
+    const file = buildConfigFile(cfg);
+    const filters = [{ field: "year" }, { id: "t", field: "type", values: ["article"] }, { id: "v", field: "venue", values: [] }, { id: "y", field: "year", from: "2015", to: 2010.5 }, { id: "z", field: "year", from: 2024, to: 2015 }];
+    expect(issuesOf(JSON.stringify({ ...file, config: { ...file.config, filters } }))).toEqual([
+      'config.filters[1].field: expected one of year, entry_type, venue, language, author, got "type"',
+      'config.filters[3].from: expected a year such as 2015, got "2015"',
+      "config.filters[3].to: expected a year such as 2015, got 2010.5",
+    ]);
+  });
+
+  it("leaves unfinished filters out with a warning", () => {
+    const file = buildConfigFile(cfg);
+    const filters = [{ id: "y", field: "year", values: [] }, { id: "v", field: "venue", values: [" "] }, ...file.config.filters];
+    const loaded = parseConfigFile(JSON.stringify({ ...file, config: { ...file.config, filters } }));
+    expect(loaded.cfg.filters).toEqual(cfg.filters);
+    expect(loaded.warnings).toEqual(['config.filters[0]: no "from" or "to" year; the filter was left out.', "config.filters[1]: no values; the filter was left out."]);
+  });
+
+  it("migrates flat block lists and repairs ids", () => {
+    const loaded = parseConfigFile(JSON.stringify({ blocks: [{ name: "A", terms: ["a"] }, { id: "x", name: "B", terms: ["b"] }, { id: "x", name: "C", terms: ["c"] }], operators: ["OR", "AND"] }));
+    expect(loaded.migratedFrom).toBe("unversioned-flat");
+    expect(loaded.cfg.query.operators).toEqual(["AND"]);
+    expect(loaded.warnings).toEqual(["blocks[0].id: missing; a new id was assigned.", 'blocks[2].id: duplicate "x"; a new id was assigned.', "searchFields: not set; searching title, abstract and keywords."]);
+  });
+
+  it("fits the operator list of flat block lists to the blocks", () => {
+    const single = parseConfigFile(JSON.stringify({ blocks: [{ id: "a", name: "A", terms: ["a"] }], operators: ["AND"] }));
+    expect(single.cfg.query).toMatchObject({ children: [{ id: "a" }], operators: [] });
+    expect(single.warnings).toContain('operators: expected 0 operators for 1 block, got 1; the extra ones were dropped.');
+    const short = parseConfigFile(JSON.stringify({ blocks: [{ id: "a", terms: ["a"] }, { id: "b", terms: ["b"] }, { id: "c", terms: ["c"] }], operators: ["OR"] }));
+    expect(short.cfg.query.children.map((c) => c.kind)).toEqual(["group", "block"]);
+    expect(short.warnings).toContain('operators: expected 2 operators for 3 blocks, got 1; the missing ones were filled with "AND".');
+  });
+
+  it("lists every problem with its path", () => {
+    const file = buildConfigFile(cfg);
+    const broken = { ...file, config: { ...file.config, decodeLatex: "yes", searchFields: { title: 1, doi: true }, dedup: { ...DEFAULT_DEDUP, threshold: 2 } } };
+    broken.config.query = { ...file.config.query, operators: [] };
+    expect(issuesOf(JSON.stringify(broken))).toEqual([
+      "config.query.operators: expected 1 operator for 2 items, got 0",
+      'config.decodeLatex: expected true or false, got "yes"',
+      "config.dedup.threshold: expected a number between 0 and 1, got 2",
+      "config.searchFields.doi: unknown field; expected one of title, abstract, keywords, mesh",
+      "config.searchFields.title: expected true or false, got 1",
+    ]);
+  });
+
+  it("checks field definitions and the fields blocks refer to", () => {
+    const file = buildConfigFile(cfg);
+    const query = { ...file.config.query, children: [{ ...file.config.query.children[0], fields: ["title", "journal"] }, { ...file.config.query.children[1], fields: [] }] };
+    const broken = { ...file, config: { ...file.config, query, fields: [...file.config.fields, { id: "mesh", sources: [] }, "note"] } };
+    expect(issuesOf(JSON.stringify(broken))).toEqual([
+      'config.fields[4].id: duplicate "mesh"',
+      "config.fields[4].sources: expected at least one BibTeX field name",
+      'config.fields[5]: expected a field such as {"id": "mesh", "label": "MeSH", "sources": ["mesh"]}, got "note"',
+      'config.query.children[0].fields[1]: unknown field "journal"; expected one of title, abstract, keywords, mesh',
+      "config.query.children[1].fields: expected at least one field; remove the list to use the selected search fields",
+    ]);
+  });
+
+  it("rejects files that are not configs or come from a newer version", () => {
+    expect(issuesOf("{")[0]).toMatch(/not valid JSON/);
+    expect(issuesOf(JSON.stringify({ format: "lsb-project" }))[0]).toMatch(/not a query config file/);
+    expect(issuesOf(JSON.stringify({ ...buildConfigFile(cfg), version: CONFIG_VERSION + 1 }))[0]).toMatch(/update the app/);
+    expect(issuesOf(JSON.stringify({ blocks: [{ terms: ["a", 3] }], operators: [] }))).toEqual(["blocks[0].terms[1]: expected a string, got 3"]);
+  });
+});
@@ -0,0 +1,371 @@
+import { DEFAULT_DEDUP, type DedupOptions } from "@/lib/dedup";
+import { FILTER_FIELDS, isActiveFilter, type FilterField, type MetadataFilter } from "@/lib/filters";
+import { DEFAULT_FIELDS, FIELD_NAMES, fromFlatQuery, MAX_FIELDS, searchedFields, type Block, type ConfigMetadata, type FieldDefinition, type GroupNode, type Operator, type QueryConfig, type QueryNode, type SearchFields } from "@/lib/query";
+import { uid } from "@/lib/utils";
+
+export const CONFIG_FORMAT = "lsb-query-config";
+
+export const CONFIG_VERSION = 3;
+
+export const EMPTY_METADATA: ConfigMetadata = { author: "", date: "", description: "", protocolId: "" };
+
+export type ConfigFile = {
+  format: typeof CONFIG_FORMAT;
+  version: number;
+  metadata: ConfigMetadata;
+  config: Omit<QueryConfig, "metadata">;
+};
+
+export type LoadedConfig = {
+  cfg: QueryConfig;
+  migratedFrom: "unversioned" | "unversioned-flat" | `v${number}` | null;
+  warnings: string[];
+};
+
+export class ConfigValidationError extends Error {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(issues.length === 1 ? `Invalid config: ${issues[0]}` : `Invalid config:\n${issues.map((i) => `- ${i}`).join("\n")}`);
+    this.issues = issues;
+  }
+}
+
+type Obj = Record<string, unknown>;
+
+const isObject = (v: unknown): v is Obj => !!v && typeof v === "object" && !Array.isArray(v);
+
+const describe = (v: unknown) => (Array.isArray(v) ? "a list" : isObject(v) ? "an object" : typeof v === "string" ? `"${v.slice(0, 40)}"` : String(v));
+
+class Checker {
+  readonly issues: string[] = [];
+  readonly warnings: string[] = [];
+  private readonly ids = new Set<string>();
+  private readonly fieldRefs: Array<{ path: string; ids: string[] }> = [];
+
+  fail(path: string, message: string) {
+    this.issues.push(`${path}: ${message}`);
+  }
+
+  bool(o: Obj, key: string, path: string, fallback: boolean) {
+    const v = o[key];
+    if (v === undefined) return fallback;
+    if (typeof v === "boolean") return v;
+    this.fail(`${path}.${key}`, `expected true or false, got ${describe(v)}`);
+    return fallback;
+  }
+
+  optionalBool(o: Obj, key: string, path: string) {
+    return o[key] === undefined ? undefined : this.bool(o, key, path, false);
+  }
+
+  string(o: Obj, key: string, path: string) {
+    const v = o[key];
+    if (v === undefined || v === null) return "";
+    if (typeof v === "string") return v;
+    this.fail(`${path}.${key}`, `expected text, got ${describe(v)}`);
+    return "";
+  }
+
+  strings(v: unknown, path: string) {
+    if (!Array.isArray(v)) {
+      this.fail(path, `expected a list of strings, got ${describe(v)}`);
+      return [];
+    }
+    v.forEach((s, i) => {
+      if (typeof s !== "string") this.fail(`${path}[${i}]`, `expected a string, got ${describe(s)}`);
+    });
+    return v.filter((s): s is string => typeof s === "string");
+  }
+
+  id(v: unknown, path: string) {
+    if (typeof v === "string" && v && !this.ids.has(v)) {
+      this.ids.add(v);
+      return v;
+    }
+    const next = uid();
+    this.ids.add(next);
+    this.warnings.push(`${path}: ${v === undefined || v === "" ? "missing" : typeof v === "string" ? `duplicate "${v}"` : `not text (${describe(v)})`}; a new id was assigned.`);
+    return next;
+  }
+
+  operators(v: unknown, count: number, path: string): Operator[] {
+    if (!Array.isArray(v)) {
+      this.fail(path, `expected a list of "AND"/"OR", got ${describe(v)}`);
+      return [];
+    }
+    const expected = Math.max(count - 1, 0);
+    if (v.length !== expected) this.fail(path, `expected ${expected} operator${expected === 1 ? "" : "s"} for ${count} item${count === 1 ? "" : "s"}, got ${v.length}`);
+    return v.map((op, i) => {
+      const upper = typeof op === "string" ? op.toUpperCase() : op;
+      if (upper === "AND" || upper === "OR") return upper;
+      this.fail(`${path}[${i}]`, `expected "AND" or "OR", got ${describe(op)}`);
+      return "AND";
+    });
+  }
+
+  // Older versions of the editor could save one operator too many (or too few) for a flat block list.
+  legacyOperators(v: unknown, count: number, path: string): Operator[] {
+    const expected = Math.max(count - 1, 0);
+    if (!Array.isArray(v) || v.length === expected) return this.operators(v, count, path);
+    this.warnings.push(`${path}: expected ${expected} operator${expected === 1 ? "" : "s"} for ${count} block${count === 1 ? "" : "s"}, got ${v.length}; ${v.length > expected ? "the extra ones were dropped" : 'the missing ones were filled with "AND"'}.`);
+    const fitted = [...v.slice(0, expected), ...Array(Math.max(expected - v.length, 0)).fill("AND")];
+    return this.operators(fitted, count, path);
+  }
+
+  block(v: unknown, path: string): Block | null {
+    if (!isObject(v)) {
+      this.fail(path, `expected a block, got ${describe(v)}`);
+      return null;
+    }
+    const block: Block = { id: this.id(v.id, `${path}.id`), name: this.string(v, "name", path), terms: this.strings(v.terms, `${path}.terms`) };
+    const isRegex = this.optionalBool(v, "isRegex", path);
+    const stem = this.optionalBool(v, "stem", path);
+    const exclude = this.optionalBool(v, "exclude", path);
+    if (isRegex !== undefined) block.isRegex = isRegex;
+    if (stem !== undefined) block.stem = stem;
+    if (exclude !== undefined) block.exclude = exclude;
+    if (v.fields !== undefined) {
+      block.fields = this.strings(v.fields, `${path}.fields`);
+      this.fieldRefs.push({ path: `${path}.fields`, ids: block.fields });
+    }
+    if (v.expansions !== undefined) {
+      if (isObject(v.expansions)) block.expansions = Object.fromEntries(Object.entries(v.expansions).map(([term, list]) => [term, this.strings(list, `${path}.expansions["${term}"]`)]));
+      else this.fail(`${path}.expansions`, `expected an object of term lists, got ${describe(v.expansions)}`);
+    }
+    return block;
+  }
+
+  node(v: unknown, path: string): QueryNode | null {
+    if (isObject(v) && v.kind === "group") return this.group(v, path);
+    if (isObject(v) && v.kind !== undefined && v.kind !== "block") {
+      this.fail(`${path}.kind`, `expected "block" or "group", got ${describe(v.kind)}`);
+      return null;
+    }
+    const block = this.block(v, path);
+    return block && { ...block, kind: "block" };
+  }
+
+  group(v: unknown, path: string): GroupNode | null {
+    if (!isObject(v) || v.kind !== "group") {
+      this.fail(path, `expected a group, got ${describe(v)}`);
+      return null;
+    }
+    if (!Array.isArray(v.children)) {
+      this.fail(`${path}.children`, `expected a list of blocks and groups, got ${describe(v.children)}`);
+      return null;
+    }
+    const id = this.id(v.id, `${path}.id`);
+    const children = v.children.map((c, i) => this.node(c, `${path}.children[${i}]`)).filter((c): c is QueryNode => !!c);
+    const group: GroupNode = { kind: "group", id, children, operators: this.operators(v.operators, v.children.length, `${path}.operators`) };
+    if (v.name !== undefined) group.name = this.string(v, "name", path);
+    const exclude = this.optionalBool(v, "exclude", path);
+    if (exclude !== undefined) group.exclude = exclude;
+    return group;
+  }
+
+  fields(v: unknown, path: string): FieldDefinition[] {
+    if (v === undefined) return DEFAULT_FIELDS.map((f) => ({ ...f, sources: [...f.sources] }));
+    if (!Array.isArray(v) || v.length === 0) {
+      this.fail(path, `expected a non-empty list of fields, got ${describe(v)}`);
+      return DEFAULT_FIELDS;
+    }
+    if (v.length > MAX_FIELDS) this.fail(path, `expected at most ${MAX_FIELDS} fields, got ${v.length}`);
+    const seen = new Set<string>();
+    return v.flatMap((f, i): FieldDefinition[] => {
+      const at = `${path}[${i}]`;
+      if (!isObject(f)) {
+        this.fail(at, `expected a field such as {"id": "mesh", "label": "MeSH", "sources": ["mesh"]}, got ${describe(f)}`);
+        return [];
+      }
+      const id = this.string(f, "id", at).trim();
+      if (!id || seen.has(id)) this.fail(`${at}.id`, id ? `duplicate "${id}"` : "missing");
+      const sources = f.sources === undefined ? [id] : this.strings(f.sources, `${at}.sources`).map((s) => s.trim().toLowerCase()).filter(Boolean);
+      if (f.sources !== undefined && Array.isArray(f.sources) && sources.length === 0) this.fail(`${at}.sources`, "expected at least one BibTeX field name");
+      if (!id || seen.has(id)) return [];
+      seen.add(id);
+      return [{ id, label: this.string(f, "label", at) || id, sources }];
+    });
+  }
+
+  searchFields(v: unknown, path: string, defs: FieldDefinition[]): SearchFields {
+    const ids = defs.map((f) => f.id);
+    const fields: SearchFields = Object.fromEntries(ids.map((f) => [f, FIELD_NAMES.includes(f)]));
+    if (v === undefined) {
+      this.warnings.push(`${path}: not set; searching title, abstract and keywords.`);
+      return fields;
+    }
+    if (!isObject(v)) {
+      this.fail(path, `expected an object such as {"title": true}, got ${describe(v)}`);
+      return fields;
+    }
+    for (const key of Object.keys(v)) {
+      if (!ids.includes(key)) this.fail(`${path}.${key}`, `unknown field; expected one of ${ids.join(", ")}`);
+    }
+    ids.forEach((f) => (fields[f] = this.bool(v, f, path, fields[f])));
+    return fields;
+  }
+
+  blockFields(defs: FieldDefinition[]) {
+    const ids = defs.map((f) => f.id);
+    for (const ref of this.fieldRefs) {
+      if (ref.ids.length === 0) this.fail(ref.path, "expected at least one field; remove the list to use the selected search fields");
+      ref.ids.forEach((id, i) => {
+        if (!ids.includes(id)) this.fail(`${ref.path}[${i}]`, `unknown field "${id}"; expected one of ${ids.join(", ")}`);
+      });
+    }
+  }
+
+  dedup(v: unknown, path: string): DedupOptions {
+    if (v === undefined) return { ...DEFAULT_DEDUP, policy: { ...DEFAULT_DEDUP.policy }, keepSeparate: [] };
+    if (!isObject(v)) {
+      this.fail(path, `expected an object, got ${describe(v)}`);
+      return DEFAULT_DEDUP;
+    }
+    const threshold = v.threshold === undefined ? DEFAULT_DEDUP.threshold : v.threshold;
+    if (typeof threshold !== "number" || !(threshold > 0 && threshold <= 1)) this.fail(`${path}.threshold`, `expected a number between 0 and 1, got ${describe(threshold)}`);
+    const policy = v.policy === undefined ? {} : v.policy;
+    if (!isObject(policy)) this.fail(`${path}.policy`, `expected an object, got ${describe(policy)}`);
+    const choice = <T extends string>(key: string, allowed: T[], fallback: T): T => {
+      const value = isObject(policy) ? policy[key] : undefined;
+      if (value === undefined) return fallback;
+      if (allowed.includes(value as T)) return value as T;
+      this.fail(`${path}.policy.${key}`, `expected ${allowed.map((a) => `"${a}"`).join(" or ")}, got ${describe(value)}`);
+      return fallback;
+    };
+    return {
+      enabled: this.bool(v, "enabled", path, DEFAULT_DEDUP.enabled),
+      byDoi: this.bool(v, "byDoi", path, DEFAULT_DEDUP.byDoi),
+      byTitleYear: this.bool(v, "byTitleYear", path, DEFAULT_DEDUP.byTitleYear),
+      fuzzyTitle: this.bool(v, "fuzzyTitle", path, DEFAULT_DEDUP.fuzzyTitle),
+      threshold: typeof threshold === "number" ? threshold : DEFAULT_DEDUP.threshold,
+      policy: {
+        keep: choice("keep", ["first", "most-complete"], DEFAULT_DEDUP.policy.keep),
+        abstract: choice("abstract", ["kept", "longest"], DEFAULT_DEDUP.policy.abstract),
+        keywords: choice("keywords", ["kept", "union"], DEFAULT_DEDUP.policy.keywords),
+      },
+      keepSeparate: v.keepSeparate === undefined ? [] : this.strings(v.keepSeparate, `${path}.keepSeparate`),
+    };
+  }
+
+  filters(v: unknown, path: string): MetadataFilter[] {
+    if (v === undefined) return [];
+    if (!Array.isArray(v)) {
+      this.fail(path, `expected a list of filters, got ${describe(v)}`);
+      return [];
+    }
+    const fieldIds = FILTER_FIELDS.map((f) => f.id);
+    return v.flatMap((f, i): MetadataFilter[] => {
+      const at = `${path}[${i}]`;
+      if (!isObject(f)) {
+        this.fail(at, `expected a filter such as {"field": "year", "from": 2015, "to": 2024}, got ${describe(f)}`);
+        return [];
+      }
+      if (!fieldIds.includes(f.field as FilterField)) {
+        this.fail(`${at}.field`, `expected one of ${fieldIds.join(", ")}, got ${describe(f.field)}`);
+        return [];
+      }
+      const filter: MetadataFilter = { id: this.id(f.id, `${at}.id`), field: f.field as FilterField, values: f.values === undefined ? [] : this.strings(f.values, `${at}.values`) };
+      for (const key of ["from", "to"] as const) {
+        const year = f[key];
+        if (year === undefined || year === null) continue;
+        if (typeof year === "number" && Number.isInteger(year)) filter[key] = year;
+        else this.fail(`${at}.${key}`, `expected a year such as 2015, got ${describe(year)}`);
+      }
+      if (filter.from != null && filter.to != null && filter.from > filter.to) this.warnings.push(`${at}: "from" (${filter.from}) is after "to" (${filter.to}); no record has a year in this range.`);
+      if (!isActiveFilter(filter)) {
+        this.warnings.push(`${at}: ${filter.field === "year" ? 'no "from" or "to" year' : "no values"}; the filter was left out.`);
+        return [];
+      }
+      const exclude = this.optionalBool(f, "exclude", at);
+      const keepMissing = this.optionalBool(f, "keepMissing", at);
+      if (exclude !== undefined) filter.exclude = exclude;
+      if (keepMissing !== undefined) filter.keepMissing = keepMissing;
+      return [filter];
+    });
+  }
+
+  metadata(v: unknown, path: string): ConfigMetadata {
+    if (v === undefined || v === null) return { ...EMPTY_METADATA };
+    if (!isObject(v)) {
+      this.fail(path, `expected an object, got ${describe(v)}`);
+      return { ...EMPTY_METADATA };
+    }
+    const date = this.string(v, "date", path);
+    if (date && Number.isNaN(Date.parse(date))) this.fail(`${path}.date`, `expected a date such as "2024-05-31", got ${describe(date)}`);
+    return { author: this.string(v, "author", path), date, description: this.string(v, "description", path), protocolId: this.string(v, "protocolId", path) };
+  }
+
+  config(o: Obj, query: GroupNode, path: string, metadata: ConfigMetadata): QueryConfig {
+    const prefix = path ? `${path}.` : "";
+    const fields = this.fields(o.fields, `${prefix}fields`);
+    const cfg: QueryConfig = {
+      query,
+      caseInsensitive: this.bool(o, "caseInsensitive", path || "config", true),
+      decodeLatex: this.bool(o, "decodeLatex", path || "config", true),
+      foldDiacritics: this.bool(o, "foldDiacritics", path || "config", false),
+      dedup: this.dedup(o.dedup, `${prefix}dedup`),
+      fields,
+      searchFields: this.searchFields(o.searchFields, `${prefix}searchFields`, fields),
+      filters: this.filters(o.filters, `${prefix}filters`),
+    };
+    this.blockFields(fields);
+    if (searchedFields(cfg, cfg.searchFields).length === 0) this.fail(`${prefix}searchFields`, "at least one field must be searched");
+    return Object.values(metadata).some(Boolean) ? { ...cfg, metadata } : cfg;
+  }
+}
+
+export function buildConfigFile(cfg: QueryConfig): ConfigFile {
+  const { metadata, ...config } = cfg;
+  const meta = { ...EMPTY_METADATA, ...metadata };
+  return { format: CONFIG_FORMAT, version: CONFIG_VERSION, metadata: { ...meta, date: meta.date || new Date().toISOString().slice(0, 10) }, config: { ...config, filters: config.filters.filter(isActiveFilter) } };
+}
+
+export function parseConfigFile(text: string): LoadedConfig {
+  let obj: unknown;
+  try {
+    obj = JSON.parse(text);
+  } catch (error) {
+    throw new ConfigValidationError([`the file is not valid JSON (${error instanceof Error ? error.message : String(error)})`]);
+  }
+  return readConfig(obj);
+}
+
+// Checks and migrates a config that is already parsed, e.g. one embedded in a project archive or screening package.
+export function readConfig(obj: unknown): LoadedConfig {
+  if (!isObject(obj)) throw new ConfigValidationError([`expected a JSON object, got ${describe(obj)}`]);
+
+  const check = new Checker();
+  let source: Obj;
+  let query: GroupNode | null;
+  let metadata = { ...EMPTY_METADATA };
+  let migratedFrom: LoadedConfig["migratedFrom"] = null;
+  if (obj.format !== undefined) {
+    if (obj.format !== CONFIG_FORMAT) throw new ConfigValidationError([`format: expected "${CONFIG_FORMAT}", got ${describe(obj.format)}; this is not a query config file`]);
+    if (typeof obj.version !== "number" || !Number.isInteger(obj.version) || obj.version < 1) throw new ConfigValidationError([`version: expected a positive whole number, got ${describe(obj.version)}`]);
+    if (obj.version > CONFIG_VERSION) throw new ConfigValidationError([`version: the file uses format version ${obj.version}, but this app reads up to version ${CONFIG_VERSION}; update the app to load it`]);
+    if (!isObject(obj.config)) throw new ConfigValidationError([`config: expected an object, got ${describe(obj.config)}`]);
+    source = obj.config;
+    if (obj.version < CONFIG_VERSION) migratedFrom = `v${obj.version}`;
+    metadata = check.metadata(obj.metadata, "metadata");
+    query = check.group(source.query, "config.query");
+  } else if (obj.query !== undefined) {
+    source = obj;
+    migratedFrom = "unversioned";
+    metadata = check.metadata(obj.metadata, "metadata");
+    query = check.group(obj.query, "query");
+  } else if (obj.blocks !== undefined || obj.operators !== undefined) {
+    source = obj;
+    migratedFrom = "unversioned-flat";
+    if (!Array.isArray(obj.blocks)) check.fail("blocks", `expected a list of blocks, got ${describe(obj.blocks)}`);
+    const list = Array.isArray(obj.blocks) ? obj.blocks : [];
+    const blocks = list.map((b, i) => check.block(b, `blocks[${i}]`)).filter((b): b is Block => !!b);
+    query = fromFlatQuery(blocks, check.legacyOperators(obj.operators, list.length, "operators"));
+  } else {
+    throw new ConfigValidationError([`expected "format" and "config", or a legacy "query" or "blocks" entry; found ${Object.keys(obj).length ? Object.keys(obj).join(", ") : "an empty object"}`]);
+  }
+
+  const cfg = query && check.config(source, query, source === obj ? "" : "config", metadata);
+  if (!cfg || check.issues.length > 0) throw new ConfigValidationError(check.issues);
+  return { cfg, migratedFrom, warnings: check.warnings };
+}
@@ -0,0 +1,134 @@
+import type { BibDiagnostic } from "@/lib/bibtex";
+import type { ImportedRecord, RecordParseResult } from "@/lib/importers";
+
+type Row = { line: number; cells: string[] };
+
+function detectDelimiter(headerLine: string) {
+  const counts = ["\t", ",", ";"].map((d) => [d, headerLine.split(d).length] as const);
+  return counts.reduce((best, c) => (c[1] > best[1] ? c : best))[0];
+}
+
+export function readDelimited(text: string, delimiter?: string) {
+  const src = text.replace(/^\uFEFF/, "");
+  const sep = delimiter ?? detectDelimiter(src.slice(0, src.search(/\r?\n|$/)));
+  const rows: Row[] = [];
+  let cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') quoted = false;
+      else {
+        if (ch === "\n") line++;
+        cell += ch;
+      }
+      continue;
+    }
+    if (ch === '"' && cell === "") quoted = true;
+    else if (ch === sep) {
+      cells.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && src[i + 1] === "\n") i++;
+      cells.push(cell);
+      if (cells.some((c) => c.trim())) rows.push({ line: rowLine, cells });
+      cells = [];
+      cell = "";
+      rowLine = ++line;
+    } else cell += ch;
+  }
+  cells.push(cell);
+  if (cells.some((c) => c.trim())) rows.push({ line: rowLine, cells });
+  return { rows, unterminated: quoted };
+}
+
+const COLUMNS: Record<string, string[]> = {
+  title: ["title", "article title", "ti", "document title"],
+  author: ["authors", "author full names", "au", "af", "author"],
+  year: ["year", "publication year", "py"],
+  abstract: ["abstract", "ab"],
+  keywords: ["author keywords", "de", "keywords"],
+  extraKeywords: ["index keywords", "keywords plus", "id"],
+  venue: ["source title", "so", "publication title", "journal"],
+  volume: ["volume", "vl"],
+  number: ["issue", "is"],
+  pageStart: ["page start", "start page", "bp"],
+  pageEnd: ["page end", "end page", "ep"],
+  doi: ["doi", "di"],
+  url: ["link", "url"],
+  type: ["document type", "dt", "publication type", "pt"],
+  language: ["language of original document", "language", "la"],
+  publisher: ["publisher", "pu"],
+  issn: ["issn", "sn"],
+  id: ["eid", "ut (unique wos id)", "ut", "accession number"],
+};
+
+const DOC_TYPES: [RegExp, string][] = [
+  [/conference|proceedings|^c$/i, "inproceedings"],
+  [/book chapter/i, "incollection"],
+  [/^book$|^b$/i, "book"],
+  [/article|review|letter|editorial|^j$/i, "article"],
+];
+
+function normalizeAuthors(value: string) {
+  const v = value.trim();
+  if (!v) return "";
+  if (v.includes(";")) return v.split(/\s*;\s*/).filter(Boolean).map((a) => a.replace(/\s*\(\d+\)$/, "")).join(" and ");
+  return v.split(/(?<=\.),\s+/).join(" and ");
+}
+
+export function parseCsvExport(text: string): RecordParseResult {
+  const diagnostics: BibDiagnostic[] = [];
+  const { rows, unterminated } = readDelimited(text);
+  if (unterminated) diagnostics.push({ severity: "warning", message: "The file ends inside a quoted cell; the last row may be incomplete", line: rows[rows.length - 1]?.line ?? 1, column: 1 });
+  if (rows.length === 0) return { records: [], diagnostics, database: "" };
+
+  const header = rows[0].cells.map((h) => h.trim().toLowerCase());
+  const column = (key: string) => {
+    for (const name of COLUMNS[key]) {
+      const idx = header.indexOf(name);
+      if (idx !== -1) return idx;
+    }
+    return -1;
+  };
+  const idx = Object.fromEntries(Object.keys(COLUMNS).map((k) => [k, column(k)]));
+  if (idx.title === -1) {
+    diagnostics.push({ severity: "error", message: 'No title column found; expected a Scopus or Web of Science export with a "Title" or "TI" column', line: 1, column: 1 });
+    return { records: [], diagnostics, database: "" };
+  }
+  const database = header.includes("eid") || header.includes("source title") ? "Scopus" : header.some((h) => h === "ut" || h.startsWith("ut (")) ? "Web of Science" : "";
+
+  const records: ImportedRecord[] = rows.slice(1).map(({ line, cells }) => {
+    const get = (key: string) => (idx[key] === -1 ? "" : (cells[idx[key]] || "").trim());
+    const entryType = DOC_TYPES.find(([re]) => re.test(get("type")))?.[1] ?? "article";
+    const start = get("pageStart");
+    const end = get("pageEnd");
+    const keywords = [get("keywords"), get("extraKeywords")].filter(Boolean).join("; ");
+    const fields: Record<string, string> = {
+      title: get("title"),
+      author: normalizeAuthors(get("author")),
+      year: get("year").match(/\d{4}/)?.[0] ?? "",
+      abstract: /^\[no abstract available\]$/i.test(get("abstract")) ? "" : get("abstract"),
+      keywords,
+      [entryType === "inproceedings" || entryType === "incollection" ? "booktitle" : "journal"]: get("venue"),
+      volume: get("volume"),
+      number: get("number"),
+      pages: start && end ? `${start}--${end}` : start,
+      doi: get("doi"),
+      url: get("url"),
+      publisher: get("publisher"),
+      issn: get("issn"),
+      language: get("language"),
+    };
+    if (cells.length !== header.length) diagnostics.push({ severity: "warning", message: `Row has ${cells.length} cells but the header has ${header.length}`, line, column: 1 });
+    return { entry_type: entryType, citekey: "", fields, line, sourceId: get("id") };
+  });
+  return { records, diagnostics, database };
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { buildAllDatabaseQueries, buildDatabaseQuery } from "@/lib/databaseExport";
+import { DEFAULT_DEDUP } from "@/lib/dedup";
+import { DEFAULT_FIELDS, makeBlock, makeGroup, type GroupNode, type QueryConfig } from "@/lib/query";
+
+const config = (query: GroupNode, patch: Partial<QueryConfig> = {}): QueryConfig => ({ query, caseInsensitive: true, decodeLatex: true, foldDiacritics: false, dedup: DEFAULT_DEDUP, fields: DEFAULT_FIELDS, searchFields: { title: true, abstract: true, keywords: true }, filters: [], ...patch });
+
+const byDatabase = (cfg: QueryConfig) => Object.fromEntries(buildAllDatabaseQueries(cfg).map((q) => [q.database, q.query]));
+
+describe("buildDatabaseQuery", () => {
+  it("writes nested groups and NOT in each database's syntax", () => {
+    const query = makeGroup([makeBlock("VR", ["virtual reality", "VR"]), makeGroup([makeBlock("A", ["training"]), makeBlock("B", ["education"])], ["OR"]), makeBlock("R", ["review"], { exclude: true })], ["AND", "AND"]);
+    expect(byDatabase(config(query))).toEqual({
+      scopus: 'TITLE-ABS-KEY("virtual reality" OR VR) AND (TITLE-ABS-KEY(training) OR TITLE-ABS-KEY(education)) AND NOT TITLE-ABS-KEY(review)',
+      wos: 'TS=("virtual reality" OR VR) AND (TS=(training) OR TS=(education)) NOT TS=(review)',
+      pubmed: '("virtual reality"[tiab] OR "virtual reality"[ot] OR "VR"[tiab] OR "VR"[ot]) AND (("training"[tiab] OR "training"[ot]) OR ("education"[tiab] OR "education"[ot])) NOT ("review"[tiab] OR "review"[ot])',
+      ieee: '("Document Title":"virtual reality" OR "Abstract":"virtual reality" OR "Index Terms":"virtual reality" OR "Document Title":VR OR "Abstract":VR OR "Index Terms":VR) AND (("Document Title":training OR "Abstract":training OR "Index Terms":training) OR ("Document Title":education OR "Abstract":education OR "Index Terms":education)) NOT ("Document Title":review OR "Abstract":review OR "Index Terms":review)',
+      acm: '(Title:("virtual reality" OR VR) OR Abstract:("virtual reality" OR VR) OR Keyword:("virtual reality" OR VR)) AND ((Title:(training) OR Abstract:(training) OR Keyword:(training)) OR (Title:(education) OR Abstract:(education) OR Keyword:(education))) NOT (Title:(review) OR Abstract:(review) OR Keyword:(review))',
+    });
+  });
+
+  it("uses each block's own fields", () => {
+    const query = makeGroup([makeBlock("VR", ["vr"], { fields: ["title"] }), makeBlock("Study", ["study"])], ["AND"]);
+    expect(buildDatabaseQuery(config(query, { searchFields: { title: true, abstract: true, keywords: false } }), "wos").query).toBe("TI=(vr) AND (TI=(study) OR AB=(study))");
+  });
+
+  it("spells out regex alternatives and warns about unsupported wildcards", () => {
+    expect(buildDatabaseQuery(config(makeGroup([makeBlock("Colour", ["colou?r"], { isRegex: true })])), "scopus").query).toBe("TITLE-ABS-KEY(color OR colour)");
+    const pubmed = buildDatabaseQuery(config(makeGroup([makeBlock("Women", ["wom?n", "immers*"])]), { searchFields: { title: true, abstract: false, keywords: false } }), "pubmed");
+    expect(pubmed.query).toBe('"wom*"[ti] OR "immers*"[ti]');
+    expect(pubmed.warnings).toEqual(['PubMed only supports truncation at the end of a term; "wom?n" was truncated to "wom*".', 'PubMed requires at least four characters before "*"; "wom*" will be rejected.']);
+  });
+
+  it("keeps a proximity term apart from the OR terms next to it", () => {
+    const cfg = config(makeGroup([makeBlock("VR", ["virtual reality W/3 remote", "telepresence"])]));
+    expect(buildDatabaseQuery(cfg, "scopus").query).toBe('TITLE-ABS-KEY(("virtual reality" W/3 remote) OR telepresence)');
+    expect(buildDatabaseQuery(cfg, "ieee").query).toContain('("Document Title":"virtual reality" NEAR/3 "Document Title":remote) OR');
+  });
+});
@@ -0,0 +1,364 @@
+import { isActiveFilter } from "@/lib/filters";
+import { blockFields, FIELD_NAMES, fieldLabel, hasRegexMeta, parseProximity, searchedFields, termVariants, type Block, type FieldName, type GroupNode, type ProximityTerm, type QueryConfig, type QueryNode } from "@/lib/query";
+
+export type DatabaseId = "scopus" | "wos" | "pubmed" | "ieee" | "acm";
+
+export type DatabaseQuery = {
+  database: DatabaseId;
+  label: string;
+  query: string;
+  warnings: string[];
+};
+
+type Dialect = {
+  id: DatabaseId;
+  label: string;
+  style: "wrapBlock" | "tagTerm";
+  not: string;
+  fieldCodes: (fields: FieldName[], warn: (msg: string) => void) => string[];
+  formatTerm: (term: string, field: string, warn: (msg: string) => void) => string;
+  formatProximity?: (p: ProximityTerm, field: string, warn: (msg: string) => void) => string;
+};
+
+const MAX_ALTERNATIVES = 16;
+
+type RegexConversion = { terms: string[]; approximations: string[]; unsupported: string[] };
+
+function convertRegexTerm(pattern: string): RegexConversion {
+  const approximations = new Set<string>();
+  const unsupported = new Set<string>();
+  let i = 0;
+
+  const cross = (a: string[], b: string[]) => {
+    const out: string[] = [];
+    for (const x of a) for (const y of b) out.push(x + y);
+    if (out.length > MAX_ALTERNATIVES) {
+      approximations.add(`only the first ${MAX_ALTERNATIVES} spelling variants were kept`);
+      return out.slice(0, MAX_ALTERNATIVES);
+    }
+    return out;
+  };
+
+  const parseAlternation = (): string[] => {
+    let alts = parseSequence();
+    while (pattern[i] === "|") {
+      i++;
+      alts = [...alts, ...parseSequence()];
+    }
+    return alts;
+  };
+
+  const parseAtom = (): string[] => {
+    const ch = pattern[i];
+    if (ch === "(") {
+      i += pattern.startsWith("(?:", i) ? 3 : 1;
+      const inner = parseAlternation();
+      if (pattern[i] === ")") i++;
+      return inner;
+    }
+    if (ch === "[") {
+      const close = pattern.indexOf("]", i + 1);
+      const cls = pattern.slice(i, close === -1 ? pattern.length : close + 1);
+      i += cls.length;
+      if (/^\[(?:\\s|-| |\\-)+\]$/.test(cls)) return [" "];
+      approximations.add(`character class ${cls} was replaced by a single-character wildcard`);
+      return ["?"];
+    }
+    if (ch === "\\") {
+      const next = pattern[i + 1];
+      i += 2;
+      if (next === "b") return [""];
+      if (next === "s") return [" "];
+      if (next === "w" || next === "d") return ["?"];
+      if (next === "W" || next === "S" || next === "D") {
+        unsupported.add(`\\${next}`);
+        return ["?"];
+      }
+      return [next ?? ""];
+    }
+    if (ch === ".") {
+      i++;
+      return ["?"];
+    }
+    if (ch === "^" || ch === "$") {
+      i++;
+      approximations.add("anchors (^, $) were dropped");
+      return [""];
+    }
+    i++;
+    return [ch];
+  };
+
+  const parseSequence = (): string[] => {
+    let acc = [""];
+    while (i < pattern.length && pattern[i] !== "|" && pattern[i] !== ")") {
+      const atom = parseAtom();
+      const q = pattern[i];
+      if (q === "?" || q === "*" || q === "+" || q === "{") {
+        i++;
+        if (q === "{") {
+          const close = pattern.indexOf("}", i);
+          i = close === -1 ? pattern.length : close + 1;
+          unsupported.add("counted repetition {n,m}");
+        }
+        if (pattern[i] === "?") i++;
+        if (atom.every((a) => a === " ")) {
+          if (q !== "+") approximations.add("optional hyphen/space variants were written as a phrase; closed compounds are not covered");
+          acc = cross(acc, [" "]);
+        } else if (atom.every((a) => a === "?")) {
+          if (q === "+") approximations.add("a one-or-more wildcard was written as a truncation (*)");
+          acc = cross(acc, q === "?" ? ["", "?"] : ["*"]);
+        } else if (q === "?") {
+          acc = cross(acc, ["", ...atom]);
+        } else {
+          approximations.add(`repetition of "${atom.join("|")}" was written as a truncation (*)`);
+          acc = cross(acc, atom.map((a) => `${a}*`));
+        }
+        continue;
+      }
+      acc = cross(acc, atom);
+    }
+    return acc;
+  };
+
+  const terms = parseAlternation()
+    .map((t) =>
+      t
+        .replace(/\s+/g, " ")
+        .replace(/\*+/g, "*")
+        .trim()
+    )
+    .filter(Boolean);
+  return { terms: [...new Set(terms)], approximations: [...approximations], unsupported: [...unsupported] };
+}
+
+function blockTerms(b: Block, warn: (msg: string) => void) {
+  const out: string[] = [];
+  for (const raw of (b.terms || []).flatMap((t) => termVariants(b, t))) {
+    const t = raw.trim();
+    if (!t) continue;
+    if (!b.isRegex || !hasRegexMeta(t) || parseProximity(t)) {
+      out.push(t);
+      continue;
+    }
+    const conv = convertRegexTerm(t);
+    if (conv.unsupported.length) warn(`Regex term "${t}" in ${b.name} uses ${conv.unsupported.join(", ")}, which cannot be represented; approximated as ${conv.terms.map((x) => `"${x}"`).join(" OR ")}.`);
+    else if (conv.approximations.length) warn(`Regex term "${t}" in ${b.name} approximated as ${conv.terms.map((x) => `"${x}"`).join(" OR ")}: ${conv.approximations.join("; ")}.`);
+    out.push(...conv.terms);
+  }
+  return [...new Set(out)];
+}
+
+function quoteIfNeeded(term: string) {
+  return /[\s\-/:()"]/.test(term) ? `"${term.replace(/"/g, "")}"` : term;
+}
+
+function fieldCodeMap(codes: Record<FieldName, string>) {
+  return (fields: FieldName[]) => fields.map((f) => codes[f]);
+}
+
+function chainProximity(p: ProximityTerm, format: (operand: string) => string, operator: (link: ProximityTerm["links"][number]) => string) {
+  return p.operands.map((o, i) => (i === 0 ? format(o) : `${operator(p.links[i - 1])} ${format(o)}`)).join(" ");
+}
+
+function formatAnyTerm(d: Dialect, term: string, field: string, warn: (msg: string) => void) {
+  const p = parseProximity(term);
+  if (!p) return d.formatTerm(term, field, warn);
+  if (d.formatProximity) return d.formatProximity(p, field, warn);
+  warn(`${d.label} has no proximity operator; the term ${term} was written with AND.`);
+  return `(${p.operands.map((o) => d.formatTerm(o, field, warn)).join(" AND ")})`;
+}
+
+const DIALECTS: Dialect[] = [
+  {
+    id: "scopus",
+    label: "Scopus",
+    not: "AND NOT",
+    style: "wrapBlock",
+    fieldCodes: (fields) => {
+      const key = fields.join("+");
+      if (key === "title+abstract+keywords") return ["TITLE-ABS-KEY"];
+      if (key === "title+abstract") return ["TITLE-ABS"];
+      return fieldCodeMap({ title: "TITLE", abstract: "ABS", keywords: "KEY" })(fields);
+    },
+    formatTerm: (t) => quoteIfNeeded(t),
+    formatProximity: (p) => `(${chainProximity(p, quoteIfNeeded, (l) => `${l.operator === "PRE" ? "PRE" : "W"}/${l.distance}`)})`,
+  },
+  {
+    id: "wos",
+    label: "Web of Science",
+    not: "NOT",
+    style: "wrapBlock",
+    fieldCodes: (fields, warn) => {
+      if (fields.length === 3) {
+        warn("Web of Science TS= also searches Keywords Plus, so it may return slightly more records than title/abstract/keywords.");
+        return ["TS="];
+      }
+      return fieldCodeMap({ title: "TI=", abstract: "AB=", keywords: "AK=" })(fields);
+    },
+    formatTerm: (t) => quoteIfNeeded(t),
+    formatProximity: (p, _field, warn) => {
+      if (p.links.some((l) => l.operator === "PRE")) warn("Web of Science NEAR/n does not keep word order; PRE/n was written as NEAR/n.");
+      return chainProximity(p, quoteIfNeeded, (l) => `NEAR/${l.distance}`);
+    },
+  },
+  {
+    id: "pubmed",
+    label: "PubMed",
+    not: "NOT",
+    style: "tagTerm",
+    fieldCodes: (fields) => {
+      const tags: string[] = [];
+      if (fields.includes("title") && fields.includes("abstract")) tags.push("tiab");
+      else if (fields.includes("title")) tags.push("ti");
+      else if (fields.includes("abstract")) tags.push("ab");
+      if (fields.includes("keywords")) tags.push("ot");
+      return tags;
+    },
+    formatTerm: (t, tag, warn) => {
+      let term = t;
+      if (/[?]|\*(?=.)/.test(term)) {
+        const cut = term.search(/[?*]/);
+        term = `${term.slice(0, cut)}*`;
+        warn(`PubMed only supports truncation at the end of a term; "${t}" was truncated to "${term}".`);
+      }
+      if (/\*$/.test(term) && term.replace(/\*$/, "").replace(/\s/g, "").length < 4) warn(`PubMed requires at least four characters before "*"; "${term}" will be rejected.`);
+      return `"${term.replace(/"/g, "")}"[${tag}]`;
+    },
+    formatProximity: (p, tag, warn) => {
+      const plain = p.operands.length === 2 && p.operands.every((o) => !/[*?]/.test(o));
+      if (!plain || (tag !== "tiab" && tag !== "ti")) {
+        warn(`PubMed proximity search only takes two operands without wildcards in [tiab] or [ti]; the term ${chainProximity(p, (o) => o, (l) => `${l.operator}/${l.distance}`)} was written with AND.`);
+        return `(${p.operands.map((o) => `"${o.replace(/"/g, "")}"[${tag}]`).join(" AND ")})`;
+      }
+      if (p.links[0].operator === "PRE") warn("PubMed proximity search does not keep word order; PRE/n was written as an unordered search.");
+      return `"${p.operands.join(" ").replace(/"/g, "")}"[${tag}:~${p.links[0].distance}]`;
+    },
+  },
+  {
+    id: "ieee",
+    label: "IEEE Xplore",
+    not: "NOT",
+    style: "tagTerm",
+    fieldCodes: fieldCodeMap({ title: "Document Title", abstract: "Abstract", keywords: "Index Terms" }),
+    formatTerm: (t, field) => `"${field}":${quoteIfNeeded(t)}`,
+    formatProximity: (p, field) => `(${chainProximity(p, (o) => `"${field}":${quoteIfNeeded(o)}`, (l) => `${l.operator === "PRE" ? "ONEAR" : "NEAR"}/${l.distance}`)})`,
+  },
+  {
+    id: "acm",
+    label: "ACM Digital Library",
+    not: "NOT",
+    style: "wrapBlock",
+    fieldCodes: fieldCodeMap({ title: "Title:", abstract: "Abstract:", keywords: "Keyword:" }),
+    formatTerm: (t) => quoteIfNeeded(t),
+  },
+];
+
+function orList(parts: string[]) {
+  return parts.length === 1 ? parts[0] : `(${parts.join(" OR ")})`;
+}
+
+function renderBlock(d: Dialect, b: Block, cfg: QueryConfig, warn: (msg: string) => void) {
+  const terms = blockTerms(b, warn);
+  if (terms.length === 0) return null;
+  const searched = blockFields(b, cfg, cfg.searchFields);
+  const fields = searched.filter((f) => FIELD_NAMES.includes(f));
+  searched.filter((f) => !FIELD_NAMES.includes(f)).forEach((f) => warn(`${d.label} has no field for ${fieldLabel(cfg, f)}; it was left out of ${b.name}.`));
+  if (fields.length === 0) {
+    warn(`${b.name} only searches fields ${d.label} does not have, so it was left out.`);
+    return null;
+  }
+  if (b.stem) warn(`${b.name} uses stemming; ${d.label} applies its own word-form rules, so check whether its terms need truncation (*).`);
+  const codes = d.fieldCodes(fields, warn);
+  if (d.style === "wrapBlock") {
+    const inner = terms.map((t) => formatAnyTerm(d, t, "", warn)).join(" OR ");
+    return orList(codes.map((c) => `${c}(${inner})`));
+  }
+  return orList(terms.flatMap((t) => codes.map((c) => formatAnyTerm(d, t, c, warn))));
+}
+
+type Rendered = { text: string; negated: boolean };
+
+function renderNode(d: Dialect, node: QueryNode, cfg: QueryConfig, warn: (msg: string) => void): Rendered | null {
+  if (node.kind === "block") {
+    const text = renderBlock(d, node, cfg, warn);
+    return text ? { text, negated: !!node.exclude } : null;
+  }
+  const text = renderGroup(d, node, cfg, warn);
+  return text ? { text, negated: !!node.exclude } : null;
+}
+
+function renderAndRun(d: Dialect, run: Rendered[], warn: (msg: string) => void) {
+  const pos = run.filter((r) => !r.negated).map((r) => r.text);
+  const neg = run.filter((r) => r.negated).map((r) => r.text);
+  if (pos.length === 0) {
+    warn("A group consists only of excluded (NOT) items; databases need at least one positive term before NOT.");
+    return neg.map((t) => `NOT ${t}`).join(" AND ");
+  }
+  return [pos.join(" AND "), ...neg.map((t) => `${d.not} ${t}`)].join(" ");
+}
+
+function renderGroup(d: Dialect, g: GroupNode, cfg: QueryConfig, warn: (msg: string) => void): string | null {
+  const runs: Rendered[][] = [];
+  let current: Rendered[] = [];
+  g.children.forEach((c, i) => {
+    const r = renderNode(d, c, cfg, warn);
+    if (i > 0 && g.operators[i - 1] === "OR" && current.length) {
+      runs.push(current);
+      current = [];
+    }
+    if (r) current.push(r);
+  });
+  if (current.length) runs.push(current);
+  if (runs.length === 0) return null;
+
+  const parts = runs.map((run) => {
+    const text = renderAndRun(d, run, warn);
+    return run.length > 1 && runs.length > 1 ? `(${text})` : text;
+  });
+  if (runs.some((run) => run.length === 1 && run[0].negated)) warn("NOT inside an OR group has no direct equivalent in database syntax; review the generated string.");
+  const text = parts.join(" OR ");
+  return runs.length > 1 || runs[0].length > 1 ? `(${text})` : text;
+}
+
+function stripOuterParens(s: string) {
+  if (!s.startsWith("(") || !s.endsWith(")")) return s;
+  let depth = 0;
+  let inQuote = false;
+  for (let i = 0; i < s.length; i++) {
+    const ch = s[i];
+    if (ch === '"') inQuote = !inQuote;
+    if (inQuote) continue;
+    if (ch === "(") depth++;
+    else if (ch === ")") depth--;
+    if (depth === 0 && i < s.length - 1) return s;
+  }
+  return s.slice(1, -1);
+}
+
+export const DATABASES = DIALECTS.map((d) => ({ id: d.id, label: d.label }));
+
+export function buildDatabaseQuery(cfg: QueryConfig, database: DatabaseId): DatabaseQuery {
+  const d = DIALECTS.find((x) => x.id === database)!;
+  const warnings = new Set<string>();
+  const warn = (msg: string) => warnings.add(msg);
+
+  if (!cfg.caseInsensitive) warn("Case-sensitive matching is not available in bibliographic databases; the string is case-insensitive.");
+  if (searchedFields(cfg, cfg.searchFields).length === 0) {
+    warn("No search fields are selected.");
+    return { database, label: d.label, query: "", warnings: [...warnings] };
+  }
+
+  if (cfg.filters.some(isActiveFilter)) warn(`Metadata filters are not part of the string; apply them with the limits ${d.label} offers (years, document types, languages).`);
+  const root = renderNode(d, cfg.query, cfg, warn);
+  let query = root ? stripOuterParens(root.text) : "";
+  if (root?.negated) {
+    warn("The whole query is excluded (NOT); databases need at least one positive term before NOT.");
+    query = `NOT (${query})`;
+  }
+  return { database, label: d.label, query, warnings: [...warnings] };
+}
+
+export function buildAllDatabaseQueries(cfg: QueryConfig) {
+  return DIALECTS.map((d) => buildDatabaseQuery(cfg, d.id));
+}
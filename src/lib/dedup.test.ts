@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { parseBibtex } from "@/lib/bibtex";
+import { DEFAULT_DEDUP, deduplicate, normalizeDoi } from "@/lib/dedup";
+
+const { entries } = parseBibtex(`@article{a, title={Virtual Reality Training for Novices}, year={2021}, doi={10.1/A}, abstract={short}}
+@article{b, title={Virtual reality training for novices}, year={2021}, abstract={a much longer abstract}, keywords={x}}
+@article{c, title={Other}, doi={https://doi.org/10.1/a}, year={2020}, keywords={y}}
+@article{d, title={Virtual reality trainings for novices}, year={2021}}
+@article{e, title={Something else entirely here}, year={2021}}`);
+
+describe("deduplicate", () => {
+  it("links records by DOI, title and year, and similar titles", () => {
+    const result = deduplicate(entries);
+    expect(result.removed).toBe(3);
+    expect(result.entries.map((e) => e.citekey)).toEqual(["a", "e"]);
+    const [cluster] = result.clusters;
+    expect(cluster.members.map((e) => e.citekey)).toEqual(["a", "b", "c", "d"]);
+    expect(cluster.reasons).toEqual(["doi", "title-year", "fuzzy-title"]);
+    expect(cluster.similarity).toBeGreaterThanOrEqual(DEFAULT_DEDUP.threshold);
+  });
+
+  it("merges the longest abstract and the union of keywords", () => {
+    const merged = deduplicate(entries).clusters[0].merged;
+    expect(merged).toMatchObject({ citekey: "a", abstract: "a much longer abstract", keywords: "x, y" });
+  });
+
+  it("only uses the rules that are switched on", () => {
+    expect(deduplicate(entries, { ...DEFAULT_DEDUP, fuzzyTitle: false }).clusters.map((c) => c.members.map((e) => e.citekey))).toEqual([["a", "b", "c"]]);
+    expect(deduplicate(entries, { ...DEFAULT_DEDUP, enabled: false })).toMatchObject({ removed: 0, entries });
+  });
+
+  it("keeps clusters the user marked as separate records", () => {
+    const { key } = deduplicate(entries).clusters[0];
+    const result = deduplicate(entries, { ...DEFAULT_DEDUP, keepSeparate: [key] });
+    expect(result).toMatchObject({ removed: 0, clusters: [] });
+    expect(result.separated.map((c) => c.key)).toEqual([key]);
+    expect(result.entries).toHaveLength(5);
+  });
+
+  it("normalizes DOI prefixes and case", () => {
+    expect(normalizeDoi(" https://dx.doi.org/10.1/ABC ")).toBe("10.1/abc");
+    expect(normalizeDoi("doi: 10.1/abc")).toBe("10.1/abc");
+  });
+});
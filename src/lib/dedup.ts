@@ -0,0 +1,267 @@
+import type { BibEntry } from "@/lib/bibtex";
+import { formatBibEntry } from "@/lib/bibExport";
+import { foldDiacritics, latexToUnicode } from "@/lib/latex";
+
+export type MergePolicy = {
+  keep: "first" | "most-complete";
+  abstract: "kept" | "longest";
+  keywords: "kept" | "union";
+};
+
+export type DedupOptions = {
+  enabled: boolean;
+  byDoi: boolean;
+  byTitleYear: boolean;
+  fuzzyTitle: boolean;
+  threshold: number;
+  policy: MergePolicy;
+  keepSeparate: string[];
+};
+
+export type DuplicateReason = "doi" | "title-year" | "fuzzy-title";
+
+export type DuplicateCluster = {
+  key: string;
+  merged: BibEntry;
+  members: BibEntry[];
+  reasons: DuplicateReason[];
+  similarity: number;
+};
+
+export type DedupResult = {
+  entries: BibEntry[];
+  clusters: DuplicateCluster[];
+  separated: DuplicateCluster[];
+  removed: number;
+};
+
+export const DEFAULT_DEDUP: DedupOptions = {
+  enabled: true,
+  byDoi: true,
+  byTitleYear: true,
+  fuzzyTitle: true,
+  threshold: 0.9,
+  policy: { keep: "most-complete", abstract: "longest", keywords: "union" },
+  keepSeparate: [],
+};
+
+export function normalizeDoi(doi: string | undefined) {
+  return (doi || "")
+    .trim()
+    .toLowerCase()
+    .replace(/^(?:https?:\/\/)?(?:dx\.)?doi\.org\//, "")
+    .replace(/^doi:\s*/, "");
+}
+
+export function normalizeTitle(title: string | undefined) {
+  return foldDiacritics(latexToUnicode(title || ""))
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+function bigrams(s: string) {
+  const compact = s.replace(/ /g, "");
+  const codes = new Uint32Array(Math.max(0, compact.length - 1));
+  for (let i = 0; i < codes.length; i++) codes[i] = compact.charCodeAt(i) * 65536 + compact.charCodeAt(i + 1);
+  return codes.sort();
+}
+
+function dice(x: Uint32Array, y: Uint32Array) {
+  if (x.length === 0 || y.length === 0) return 0;
+  let shared = 0;
+  for (let i = 0, j = 0; i < x.length && j < y.length; ) {
+    if (x[i] === y[j]) {
+      shared++;
+      i++;
+      j++;
+    } else if (x[i] < y[j]) i++;
+    else j++;
+  }
+  return (2 * shared) / (x.length + y.length);
+}
+
+export function titleSimilarity(a: string, b: string) {
+  return a === b ? 1 : dice(bigrams(a), bigrams(b));
+}
+
+export function entryId(e: BibEntry) {
+  return `${e.__source || ""}:${e.citekey}`;
+}
+
+function clusterKey(members: BibEntry[]) {
+  return members.map(entryId).sort().join("|");
+}
+
+function completeness(e: BibEntry) {
+  return Object.entries(e).filter(([k, v]) => !k.startsWith("__") && v && v.trim()).length;
+}
+
+function splitKeywords(value: string) {
+  return value
+    .split(/\s*[;,]\s*/)
+    .map((k) => k.trim())
+    .filter(Boolean);
+}
+
+export function mergeEntries(members: BibEntry[], policy: MergePolicy): BibEntry {
+  const base = policy.keep === "most-complete" ? members.reduce((best, e) => (completeness(e) > completeness(best) ? e : best)) : members[0];
+  const merged: BibEntry = { ...base };
+  let changed = false;
+
+  for (const e of members) {
+    for (const [k, v] of Object.entries(e)) {
+      if (k.startsWith("__") || !v || merged[k]) continue;
+      merged[k] = v;
+      changed = true;
+    }
+  }
+
+  if (policy.abstract === "longest") {
+    const longest = members.map((e) => e.abstract || "").reduce((a, b) => (b.length > a.length ? b : a), "");
+    if (longest && longest !== merged.abstract) {
+      merged.abstract = longest;
+      changed = true;
+    }
+  }
+
+  if (policy.keywords === "union") {
+    const seen = new Map<string, string>();
+    members.forEach((e) => splitKeywords(e.keywords || e.keyword || "").forEach((k) => seen.has(k.toLowerCase()) || seen.set(k.toLowerCase(), k)));
+    const union = [...seen.values()].join((base.keywords || "").includes(";") ? "; " : ", ");
+    if (union && union !== merged.keywords) {
+      merged.keywords = union;
+      changed = true;
+    }
+  }
+
+  const unique = (values: (string | undefined)[]) => [...new Set(values.filter(Boolean))].join("; ");
+  merged.__source = unique(members.map((e) => e.__source));
+  const databases = unique(members.map((e) => e.__database));
+  if (databases) merged.__database = databases;
+  merged.__merged_from = members.filter((e) => e !== base).map(entryId).join("; ");
+  if (changed) merged.__raw = formatBibEntry(merged);
+  return merged;
+}
+
+class UnionFind {
+  private readonly parent: number[];
+
+  constructor(n: number) {
+    this.parent = Array.from({ length: n }, (_, i) => i);
+  }
+
+  find(i: number): number {
+    while (this.parent[i] !== i) {
+      this.parent[i] = this.parent[this.parent[i]];
+      i = this.parent[i];
+    }
+    return i;
+  }
+
+  union(a: number, b: number) {
+    const ra = this.find(a);
+    const rb = this.find(b);
+    if (ra !== rb) this.parent[Math.max(ra, rb)] = Math.min(ra, rb);
+  }
+}
+
+export function deduplicate(entries: BibEntry[], options: DedupOptions = DEFAULT_DEDUP): DedupResult {
+  if (!options.enabled || entries.length < 2) return { entries, clusters: [], separated: [], removed: 0 };
+
+  const uf = new UnionFind(entries.length);
+  const reasons = new Map<number, Set<DuplicateReason>>();
+  const similarity = new Map<number, number>();
+  const link = (a: number, b: number, reason: DuplicateReason, score = 1) => {
+    uf.union(a, b);
+    for (const i of [a, b]) {
+      if (!reasons.has(i)) reasons.set(i, new Set());
+      reasons.get(i)?.add(reason);
+      similarity.set(i, Math.min(similarity.get(i) ?? 1, score));
+    }
+  };
+
+  const titles = entries.map((e) => normalizeTitle(e.title));
+  const years = entries.map((e) => (e.year || "").match(/\d{4}/)?.[0] ?? "");
+
+  const linkByKey = (keyOf: (i: number) => string, reason: DuplicateReason) => {
+    const firstSeen = new Map<string, number>();
+    entries.forEach((_, i) => {
+      const key = keyOf(i);
+      if (!key) return;
+      const j = firstSeen.get(key);
+      if (j === undefined) firstSeen.set(key, i);
+      else link(j, i, reason);
+    });
+  };
+
+  if (options.byDoi) linkByKey((i) => normalizeDoi(entries[i].doi), "doi");
+  if (options.byTitleYear) linkByKey((i) => (titles[i].length >= 10 ? `${titles[i]}|${years[i]}` : ""), "title-year");
+
+  if (options.fuzzyTitle) {
+    const grams = titles.map((t) => (t.length >= 10 ? bigrams(t) : new Uint32Array()));
+    const byYear = new Map<string, number[]>();
+    titles.forEach((t, i) => {
+      if (t.length < 10) return;
+      if (!byYear.has(years[i])) byYear.set(years[i], []);
+      byYear.get(years[i])?.push(i);
+    });
+    const minRatio = options.threshold / (2 - options.threshold);
+    for (const bucket of byYear.values()) {
+      bucket.sort((a, b) => grams[a].length - grams[b].length);
+      for (let x = 0; x < bucket.length; x++) {
+        const a = bucket[x];
+        for (let y = x + 1; y < bucket.length; y++) {
+          const b = bucket[y];
+          if (grams[a].length < minRatio * grams[b].length) break;
+          if (uf.find(a) === uf.find(b)) continue;
+          const score = titles[a] === titles[b] ? 1 : dice(grams[a], grams[b]);
+          if (score >= options.threshold) link(a, b, "fuzzy-title", score);
+        }
+      }
+    }
+  }
+
+  const groups = new Map<number, number[]>();
+  entries.forEach((_, i) => {
+    const root = uf.find(i);
+    if (!groups.has(root)) groups.set(root, []);
+    groups.get(root)?.push(i);
+  });
+
+  const keepSeparate = new Set(options.keepSeparate);
+  const out: BibEntry[] = [];
+  const clusters: DuplicateCluster[] = [];
+  const separated: DuplicateCluster[] = [];
+  let removed = 0;
+
+  entries.forEach((e, i) => {
+    const group = groups.get(uf.find(i)) ?? [i];
+    if (group.length === 1) {
+      out.push(e);
+      return;
+    }
+    if (group[0] !== i) {
+      if (separated.some((c) => c.members.includes(e))) out.push(e);
+      return;
+    }
+    const members = group.map((j) => entries[j]);
+    const cluster: DuplicateCluster = {
+      key: clusterKey(members),
+      merged: mergeEntries(members, options.policy),
+      members,
+      reasons: [...new Set(group.flatMap((j) => [...(reasons.get(j) ?? [])]))],
+      similarity: Math.min(...group.map((j) => similarity.get(j) ?? 1)),
+    };
+    if (keepSeparate.has(cluster.key)) {
+      separated.push(cluster);
+      out.push(e);
+    } else {
+      clusters.push(cluster);
+      out.push(cluster.merged);
+      removed += members.length - 1;
+    }
+  });
+
+  return { entries: out, clusters, separated, removed };
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { buildDecisionSet, buildScreeningPackage, cohensKappa, compareDecisionSets, parseDecisionSet, parseScreeningPackage, type PackageRecord } from "@/lib/dualReview";
+import { DEFAULT_DEDUP } from "@/lib/dedup";
+import { DEFAULT_FIELDS, makeBlock, makeGroup, type QueryConfig } from "@/lib/query";
+import { setDecision, type ScreeningState } from "@/lib/screening";
+
+const config: QueryConfig = { query: makeGroup([makeBlock("VR", ["virtual reality"])]), caseInsensitive: true, decodeLatex: true, foldDiacritics: false, dedup: DEFAULT_DEDUP, fields: DEFAULT_FIELDS, searchFields: { title: true, abstract: true, keywords: true }, filters: [] };
+
+const row = (CiteKey: string, DOI = ""): PackageRecord => ({ CiteKey, DOI, Title: CiteKey, TitleRaw: CiteKey, Authors: "", Year: "2021", Venue: "", URL: "", AbstractRaw: "", KeywordsRaw: "", MatchedTermsMap: { VR: { title: ["virtual reality"] } } });
+
+const rows = [row("a", "10.1/a"), row("b"), row("c"), row("d")];
+
+const decide = (decisions: Array<"include" | "exclude" | "maybe">, reviewer: string) => buildDecisionSet(decisions.reduce<ScreeningState>((state, decision, i) => setDecision(state, rows[i], { decision }), { decisions: {}, reasons: [] }), reviewer, 1);
+
+const roundTrip = <T>(v: T): unknown => JSON.parse(JSON.stringify(v));
+
+describe("screening packages", () => {
+  it("round-trips records and config", () => {
+    const pkg = parseScreeningPackage(roundTrip(buildScreeningPackage(rows, config, ["Off-topic"], 2)));
+    expect(pkg).toMatchObject({ round: 2, reasons: ["Off-topic"], records: rows, config });
+  });
+
+  it("reports the record that is malformed", () => {
+    const pkg = roundTrip(buildScreeningPackage(rows, config, [], 1)) as { records: unknown[] };
+    expect(() => parseScreeningPackage({ ...pkg, records: [1, null] })).toThrow("records[0]: expected a record object.");
+    expect(() => parseScreeningPackage({ ...pkg, records: [row("a"), { ...row("b"), CiteKey: 3 }] })).toThrow("records[1].CiteKey: expected text.");
+    expect(() => parseScreeningPackage({ ...pkg, records: [{ ...row("a"), MatchedTermsMap: undefined }] })).toThrow("records[0].MatchedTermsMap: expected an object of matched terms per block.");
+  });
+
+  it("checks the config like a config file", () => {
+    const filters = [{ id: "a", field: "venue", values: "Nice Conf" }];
+    expect(() => parseScreeningPackage({ format: "lsb-screening-package", records: [], config: { ...config, filters } })).toThrow('config.filters[0].values: expected a list of strings, got "Nice Conf"');
+  });
+});
+
+describe("decision sets", () => {
+  it("rejects unknown decisions with their key", () => {
+    const set = roundTrip(decide(["include"], "A")) as { decisions: Record<string, object> };
+    expect(parseDecisionSet(set).decisions).toEqual(set.decisions);
+    expect(() => parseDecisionSet({ ...set, decisions: { "key:b": { decision: "yes" } } })).toThrow('decisions["key:b"].decision: expected "include", "exclude" or "maybe".');
+    expect(() => parseDecisionSet({ ...set, decisions: { "key:b": null } })).toThrow('decisions["key:b"]: expected a decision object.');
+  });
+
+  it("compares two reviewers and counts records only one of them decided", () => {
+    const comparison = compareDecisionSets(rows, decide(["include", "exclude", "include"], "A"), decide(["include", "exclude", "exclude", "maybe"], "B"));
+    expect(comparison).toMatchObject({ reviewers: ["A", "B"], compared: 3, agreements: 2, missing: 1, percentAgreement: 2 / 3 });
+    expect(comparison.conflicts.map((c) => c.row.CiteKey)).toEqual(["c"]);
+  });
+});
+
+describe("cohensKappa", () => {
+  it("corrects agreement for chance", () => {
+    expect(cohensKappa([["include", "include"], ["exclude", "exclude"], ["include", "exclude"], ["maybe", "maybe"]])).toBeCloseTo(7 / 11);
+    expect(cohensKappa([["include", "exclude"], ["exclude", "include"]])).toBe(-1);
+  });
+
+  it("handles no pairs and a single shared category", () => {
+    expect(cohensKappa([])).toBeNull();
+    expect(cohensKappa([["include", "include"]])).toBe(1);
+  });
+});
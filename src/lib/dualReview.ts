@@ -0,0 +1,205 @@
+import { ConfigValidationError, readConfig } from "@/lib/configFile";
+import type { FieldHits, QueryConfig } from "@/lib/query";
+import type { MatchedRow } from "@/lib/run";
+import { getDecision, readDecisions, type ScreenableRow, type ScreeningDecision, type ScreeningRecord, type ScreeningState } from "@/lib/screening";
+
+export type PackageRecord = ScreenableRow & {
+  Title: string;
+  TitleRaw: string;
+  Authors: string;
+  Year: string;
+  Venue: string;
+  URL: string;
+  Source?: string;
+  AbstractRaw: string;
+  KeywordsRaw: string;
+  FieldsRaw?: Record<string, string>;
+  MatchedTermsMap: Record<string, FieldHits>;
+};
+
+export type ScreeningPackage = {
+  format: "lsb-screening-package";
+  version: 1;
+  createdAt: string;
+  round: number;
+  config: QueryConfig;
+  reasons: string[];
+  records: PackageRecord[];
+};
+
+export type DecisionSet = {
+  format: "lsb-screening-decisions";
+  version: 1;
+  reviewer: string;
+  round: number;
+  exportedAt: string;
+  decisions: Record<string, ScreeningRecord>;
+};
+
+export type ReviewConflict = {
+  row: PackageRecord;
+  a: ScreeningRecord;
+  b: ScreeningRecord;
+};
+
+export type ReviewComparison = {
+  round: number;
+  reviewers: [string, string];
+  compared: number;
+  agreements: number;
+  conflicts: ReviewConflict[];
+  missing: number;
+  percentAgreement: number;
+  kappa: number | null;
+};
+
+const CATEGORIES: ScreeningDecision[] = ["include", "exclude", "maybe"];
+
+export function buildScreeningPackage(rows: PackageRecord[], config: QueryConfig, reasons: string[], round: number): ScreeningPackage {
+  const records = rows.map((r) => ({
+    CiteKey: r.CiteKey,
+    DOI: r.DOI,
+    Title: r.Title,
+    TitleRaw: r.TitleRaw,
+    Authors: r.Authors,
+    Year: r.Year,
+    Venue: r.Venue,
+    URL: r.URL,
+    Source: r.Source,
+    AbstractRaw: r.AbstractRaw,
+    KeywordsRaw: r.KeywordsRaw,
+    FieldsRaw: r.FieldsRaw,
+    MatchedTermsMap: r.MatchedTermsMap,
+  }));
+  return { format: "lsb-screening-package", version: 1, createdAt: new Date().toISOString(), round, config, reasons, records };
+}
+
+export function buildDecisionSet(state: ScreeningState, reviewer: string, round: number): DecisionSet {
+  return { format: "lsb-screening-decisions", version: 1, reviewer, round, exportedAt: new Date().toISOString(), decisions: state.decisions };
+}
+
+const RECORD_TEXT = ["CiteKey", "Title", "TitleRaw", "Authors", "Year", "Venue", "URL", "AbstractRaw", "KeywordsRaw"] as const;
+
+const isObject = (v: unknown): v is Record<string, unknown> => !!v && typeof v === "object" && !Array.isArray(v);
+
+const isTextMap = (v: unknown) => isObject(v) && Object.values(v).every((t) => typeof t === "string");
+
+function packageRecord(v: unknown, i: number): PackageRecord {
+  const at = `records[${i}]`;
+  if (!isObject(v)) throw new Error(`${at}: expected a record object.`);
+  for (const key of RECORD_TEXT) {
+    if (typeof v[key] !== "string") throw new Error(`${at}.${key}: expected text.`);
+  }
+  if (!v.CiteKey) throw new Error(`${at}.CiteKey: expected a citation key.`);
+  for (const key of ["DOI", "Source"]) {
+    if (v[key] !== undefined && typeof v[key] !== "string") throw new Error(`${at}.${key}: expected text.`);
+  }
+  if (v.FieldsRaw !== undefined && !isTextMap(v.FieldsRaw)) throw new Error(`${at}.FieldsRaw: expected an object of field texts.`);
+  if (!isObject(v.MatchedTermsMap)) throw new Error(`${at}.MatchedTermsMap: expected an object of matched terms per block.`);
+  for (const [block, hits] of Object.entries(v.MatchedTermsMap)) {
+    if (!isObject(hits) || !Object.values(hits).every((terms) => Array.isArray(terms) && terms.every((t) => typeof t === "string"))) throw new Error(`${at}.MatchedTermsMap["${block}"]: expected lists of terms per field.`);
+  }
+  return v as PackageRecord;
+}
+
+const round = (v: unknown) => (typeof v === "number" && Number.isInteger(v) && v > 0 ? v : 1);
+
+export function parseScreeningPackage(obj: unknown): ScreeningPackage {
+  const o = obj as Partial<ScreeningPackage> | null;
+  if (!o || o.format !== "lsb-screening-package") throw new Error("This file is not a screening package.");
+  if (!Array.isArray(o.records)) throw new Error("The screening package has no records.");
+  let config: QueryConfig;
+  try {
+    config = readConfig(o.config).cfg;
+  } catch (error) {
+    if (error instanceof ConfigValidationError) throw new Error(`The screening package has an invalid query config: ${error.issues.map((i) => `config.${i}`).join("; ")}`);
+    throw error;
+  }
+  const records = o.records.map(packageRecord);
+  return { format: o.format, version: 1, createdAt: typeof o.createdAt === "string" ? o.createdAt : "", round: round(o.round), config, reasons: Array.isArray(o.reasons) ? o.reasons.filter((r) => typeof r === "string") : [], records };
+}
+
+export function packageRows(pkg: ScreeningPackage): MatchedRow[] {
+  return pkg.records.map((r) => ({ ...r, DOI: r.DOI ?? "", Source: r.Source ?? "", MatchedBlocks: Object.keys(r.MatchedTermsMap).join("; "), MatchedTermsDetail: "" }));
+}
+
+export function parseDecisionSet(obj: unknown): DecisionSet {
+  const o = obj as Partial<DecisionSet> | null;
+  if (!o || o.format !== "lsb-screening-decisions") throw new Error("This file is not a screening decision set.");
+  if (!o.decisions || typeof o.decisions !== "object") throw new Error("The decision set has no decisions.");
+  const decisions = readDecisions(o.decisions, "decisions");
+  return { format: o.format, version: 1, reviewer: typeof o.reviewer === "string" && o.reviewer ? o.reviewer : "Unnamed reviewer", round: round(o.round), exportedAt: typeof o.exportedAt === "string" ? o.exportedAt : "", decisions };
+}
+
+export function cohensKappa(pairs: [ScreeningDecision, ScreeningDecision][]) {
+  const n = pairs.length;
+  if (n === 0) return null;
+  const observed = pairs.filter(([a, b]) => a === b).length / n;
+  const expected = CATEGORIES.reduce((sum, c) => sum + (pairs.filter(([a]) => a === c).length / n) * (pairs.filter(([, b]) => b === c).length / n), 0);
+  if (expected === 1) return observed === 1 ? 1 : null;
+  return (observed - expected) / (1 - expected);
+}
+
+export function compareDecisionSets(rows: PackageRecord[], a: DecisionSet, b: DecisionSet): ReviewComparison {
+  const stateA: ScreeningState = { decisions: a.decisions, reasons: [] };
+  const stateB: ScreeningState = { decisions: b.decisions, reasons: [] };
+  const pairs: [ScreeningDecision, ScreeningDecision][] = [];
+  const conflicts: ReviewConflict[] = [];
+  let missing = 0;
+
+  for (const row of rows) {
+    const da = getDecision(stateA, row);
+    const db = getDecision(stateB, row);
+    if (!da || !db) {
+      missing++;
+      continue;
+    }
+    pairs.push([da.decision, db.decision]);
+    if (da.decision !== db.decision) conflicts.push({ row, a: da, b: db });
+  }
+
+  const agreements = pairs.length - conflicts.length;
+  return {
+    round: Math.max(a.round, b.round),
+    reviewers: [a.reviewer, b.reviewer],
+    compared: pairs.length,
+    agreements,
+    conflicts,
+    missing,
+    percentAgreement: pairs.length ? agreements / pairs.length : 0,
+    kappa: cohensKappa(pairs),
+  };
+}
+
+export function agreedDecisions(rows: PackageRecord[], a: DecisionSet, b: DecisionSet) {
+  const stateA: ScreeningState = { decisions: a.decisions, reasons: [] };
+  const stateB: ScreeningState = { decisions: b.decisions, reasons: [] };
+  return rows.flatMap((row) => {
+    const da = getDecision(stateA, row);
+    const db = getDecision(stateB, row);
+    if (!da || !db || da.decision !== db.decision) return [];
+    const note = [da.note && `${a.reviewer}: ${da.note}`, db.note && `${b.reviewer}: ${db.note}`].filter(Boolean).join("\n");
+    return [{ row, record: { decision: da.decision, reason: da.reason || db.reason, ...(note ? { note } : {}) } }];
+  });
+}
+
+export type RoundSummary = Omit<ReviewComparison, "conflicts"> & { conflicts: number };
+
+export type DualReviewState = {
+  reviewer: string;
+  round: number;
+  sets: DecisionSet[];
+  history: RoundSummary[];
+};
+
+export const EMPTY_REVIEW: DualReviewState = { reviewer: "", round: 1, sets: [], history: [] };
+
+export function addDecisionSet(state: DualReviewState, set: DecisionSet): DualReviewState {
+  const sets = state.sets.filter((s) => !(s.reviewer === set.reviewer && s.round === set.round));
+  return { ...state, sets: [...sets, set] };
+}
+
+export function recordRound(state: DualReviewState, comparison: ReviewComparison): DualReviewState {
+  const summary: RoundSummary = { ...comparison, conflicts: comparison.conflicts.length };
+  return { ...state, round: state.round + 1, history: [...state.history.filter((h) => h.round !== summary.round), summary] };
+}
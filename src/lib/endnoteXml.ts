@@ -0,0 +1,84 @@
+import type { BibDiagnostic } from "@/lib/bibtex";
+import type { ImportedRecord, RecordParseResult } from "@/lib/importers";
+import { detectDatabaseName } from "@/lib/ris";
+
+const REF_TYPES: [RegExp, string][] = [
+  [/conference|proceedings/i, "inproceedings"],
+  [/book section|chapter/i, "incollection"],
+  [/^(edited )?book/i, "book"],
+  [/thesis/i, "phdthesis"],
+  [/report/i, "techreport"],
+  [/journal|magazine|newspaper/i, "article"],
+];
+
+const ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" };
+
+function decodeXml(s: string) {
+  return s
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (m, code: string) => {
+      if (code[0] !== "#") return ENTITIES[code] ?? m;
+      const n = code[1] === "x" || code[1] === "X" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(n) ? String.fromCodePoint(n) : m;
+    })
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function elements(xml: string, tag: string) {
+  const re = new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, "g");
+  return [...xml.matchAll(re)].map((m) => m[1]);
+}
+
+function first(xml: string, ...path: string[]) {
+  let scope = [xml];
+  for (const tag of path) scope = scope.flatMap((s) => elements(s, tag));
+  return scope.length ? decodeXml(scope[0]) : "";
+}
+
+function all(xml: string, ...path: string[]) {
+  let scope = [xml];
+  for (const tag of path) scope = scope.flatMap((s) => elements(s, tag));
+  return scope.map(decodeXml).filter(Boolean);
+}
+
+export function parseEndnoteXml(text: string): RecordParseResult {
+  const diagnostics: BibDiagnostic[] = [];
+  const records: ImportedRecord[] = [];
+  let database = "";
+  const re = /<record>([\s\S]*?)<\/record>/g;
+  let m: RegExpExecArray | null;
+  let line = 1;
+  let lineAt = 0;
+
+  while ((m = re.exec(text))) {
+    for (; lineAt < m.index; lineAt++) if (text[lineAt] === "\n") line++;
+    const rec = m[1];
+    const refType = rec.match(/<ref-type[^>]*name="([^"]*)"/)?.[1] ?? "";
+    const entryType = REF_TYPES.find(([r]) => r.test(refType))?.[1] ?? "misc";
+    const container = first(rec, "titles", "secondary-title") || first(rec, "periodical", "full-title");
+    const fields: Record<string, string> = {
+      title: first(rec, "titles", "title"),
+      author: all(rec, "contributors", "authors", "author").join(" and "),
+      year: first(rec, "dates", "year").match(/\d{4}/)?.[0] ?? "",
+      abstract: first(rec, "abstract"),
+      keywords: all(rec, "keywords", "keyword").join("; "),
+      [entryType === "inproceedings" || entryType === "incollection" ? "booktitle" : "journal"]: container,
+      volume: first(rec, "volume"),
+      number: first(rec, "number"),
+      pages: first(rec, "pages").replace(/\s*-\s*/, "--"),
+      publisher: first(rec, "publisher"),
+      doi: first(rec, "electronic-resource-num").replace(/^https?:\/\/(dx\.)?doi\.org\//i, ""),
+      url: first(rec, "urls", "related-urls", "url"),
+      issn: first(rec, "isbn"),
+      language: first(rec, "language"),
+    };
+    database ||= detectDatabaseName(`${first(rec, "remote-database-name")} ${first(rec, "remote-database-provider")}`);
+    if (!fields.title) diagnostics.push({ severity: "warning", message: "EndNote record has no title", line, column: 1 });
+    records.push({ entry_type: entryType, citekey: first(rec, "label"), fields, line, sourceId: first(rec, "rec-number") });
+  }
+
+  if (records.length === 0 && text.trim()) diagnostics.push({ severity: "error", message: "No <record> elements found; expected an EndNote XML export", line: 1, column: 1 });
+  return { records, diagnostics, database };
+}
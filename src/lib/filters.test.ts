@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import type { BibEntry } from "@/lib/bibtex";
+import { applyMetadataFilters, failedFilter, filterLabel, type MetadataFilter } from "@/lib/filters";
+
+const entry = (citekey: string, fields: Record<string, string>, entry_type = "article"): BibEntry => ({ citekey, entry_type, __raw: "", ...fields });
+
+const passes = (e: BibEntry, f: Omit<MetadataFilter, "id" | "values"> & { values?: string[] }) => failedFilter(e, [{ id: "f", values: [], ...f }]) === null;
+
+describe("metadata filters", () => {
+  it("keeps years inside the range and drops records without a year unless asked", () => {
+    const range = { field: "year" as const, from: 2015, to: 2024 };
+    expect(passes(entry("a", { year: "2015" }), range)).toBe(true);
+    expect(passes(entry("b", { date: "2024-03-01" }), range)).toBe(true);
+    expect(passes(entry("c", { year: "2014" }), range)).toBe(false);
+    expect(passes(entry("d", {}), range)).toBe(false);
+    expect(passes(entry("d", {}), { ...range, keepMissing: true })).toBe(true);
+    expect(passes(entry("e", { year: "2030" }), { field: "year", from: 2015 })).toBe(true);
+  });
+
+  it("matches entry types and excludes venues by whole words", () => {
+    const types = { field: "entry_type" as const, values: ["article", "InProceedings"] };
+    expect(passes(entry("a", {}, "inproceedings"), types)).toBe(true);
+    expect(passes(entry("b", {}, "misc"), types)).toBe(false);
+    const notNice = { field: "venue" as const, values: ["Nice Conf"], exclude: true };
+    expect(passes(entry("c", { booktitle: "Proc. of the Nice Conf 2021" }), notNice)).toBe(false);
+    expect(passes(entry("d", { booktitle: "Nice Conference" }), notNice)).toBe(true);
+    expect(passes(entry("e", {}), notNice)).toBe(true);
+  });
+
+  it("understands language codes and author initials", () => {
+    const english = { field: "language" as const, values: ["en"] };
+    expect(passes(entry("a", { language: "English" }), english)).toBe(true);
+    expect(passes(entry("b", { langid: "german and english" }), english)).toBe(true);
+    expect(passes(entry("c", { language: "deu" }), english)).toBe(false);
+    const doe = { field: "author" as const, values: ["J Doe"] };
+    expect(passes(entry("d", { author: "Smith, Ann and Doe, Jane" }), doe)).toBe(true);
+    expect(passes(entry("e", { author: "Doe, Mary" }), doe)).toBe(false);
+    expect(passes(entry("g", { author: "M{\\\"u}ller, Jan" }), { field: "author", values: ["Muller"] })).toBe(true);
+  });
+
+  it("counts each excluded record against the first filter that removes it", () => {
+    const filters: MetadataFilter[] = [
+      { id: "year", field: "year", values: [], from: 2020 },
+      { id: "type", field: "entry_type", values: ["article"] },
+      { id: "empty", field: "author", values: [] },
+    ];
+    const outcome = applyMetadataFilters([entry("a", { year: "2019" }, "misc"), entry("b", { year: "2021" }, "misc"), entry("c", { year: "2022" })], filters);
+    expect([...outcome.passed]).toEqual([0, 0, 1]);
+    expect(outcome).toMatchObject({ excluded: 2, excludedBy: { year: 1, type: 1 } });
+    expect(filters.map(filterLabel)).toEqual(["Year from 2020", "Entry type: article", "Author: "]);
+  });
+});
@@ -0,0 +1,163 @@
+import type { BibEntry } from "@/lib/bibtex";
+import { foldDiacritics, latexToUnicode } from "@/lib/latex";
+
+export type FilterField = "year" | "entry_type" | "venue" | "language" | "author";
+
+// Year filters use `from`/`to`; the other fields keep records matching any of `values`.
+export type MetadataFilter = {
+  id: string;
+  field: FilterField;
+  values: string[];
+  from?: number | null;
+  to?: number | null;
+  exclude?: boolean;
+  keepMissing?: boolean;
+};
+
+export type FilterOutcome = {
+  passed: Uint8Array;
+  excluded: number;
+  excludedBy: Record<string, number>;
+};
+
+export const FILTER_FIELDS: { id: FilterField; label: string }[] = [
+  { id: "year", label: "Year" },
+  { id: "entry_type", label: "Entry type" },
+  { id: "venue", label: "Venue" },
+  { id: "language", label: "Language" },
+  { id: "author", label: "Author" },
+];
+
+const LANGUAGE_CODES: Record<string, string> = {
+  en: "english",
+  eng: "english",
+  de: "german",
+  deu: "german",
+  ger: "german",
+  fr: "french",
+  fra: "french",
+  fre: "french",
+  es: "spanish",
+  spa: "spanish",
+  it: "italian",
+  ita: "italian",
+  pt: "portuguese",
+  por: "portuguese",
+  nl: "dutch",
+  nld: "dutch",
+  dut: "dutch",
+  zh: "chinese",
+  zho: "chinese",
+  chi: "chinese",
+  ja: "japanese",
+  jpn: "japanese",
+  ko: "korean",
+  kor: "korean",
+  ru: "russian",
+  rus: "russian",
+  pl: "polish",
+  pol: "polish",
+  sv: "swedish",
+  swe: "swedish",
+};
+
+function normalize(value: string) {
+  return foldDiacritics(latexToUnicode(value))
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+function normalizeLanguage(value: string) {
+  const v = normalize(value);
+  return LANGUAGE_CODES[v] ?? v;
+}
+
+export function entryYear(e: BibEntry) {
+  const m = (e.year || e.date || "").match(/\b(\d{4})\b/);
+  return m ? Number(m[1]) : null;
+}
+
+// An author value matches when each of its words is one of the author's words;
+// single letters match initials, so "J Doe" finds "Doe, Jane".
+function authorMatches(author: string, value: string) {
+  const words = author.split(" ");
+  return value.split(" ").every((w) => words.some((a) => a === w || (w.length === 1 && a.startsWith(w))));
+}
+
+export function filterLabel(f: MetadataFilter) {
+  const label = FILTER_FIELDS.find((x) => x.id === f.field)?.label ?? f.field;
+  if (f.field === "year") {
+    const range = f.from != null && f.to != null ? `${f.from}–${f.to}` : f.from != null ? `from ${f.from}` : `until ${f.to}`;
+    return `${label} ${f.exclude ? "not " : ""}${range}`;
+  }
+  return `${label}${f.exclude ? " is not " : ": "}${f.values.join("; ")}`;
+}
+
+export function isActiveFilter(f: MetadataFilter) {
+  return f.field === "year" ? f.from != null || f.to != null : f.values.some((v) => v.trim());
+}
+
+// null when the entry has no value for the filtered field.
+function filterMatches(f: MetadataFilter, e: BibEntry): boolean | null {
+  if (f.field === "year") {
+    const year = entryYear(e);
+    if (year === null) return null;
+    return (f.from == null || year >= f.from) && (f.to == null || year <= f.to);
+  }
+  const values = f.values.map((v) => (f.field === "language" ? normalizeLanguage(v) : normalize(v))).filter(Boolean);
+  if (f.field === "entry_type") return values.includes(normalize(e.entry_type));
+  if (f.field === "language") {
+    const language = e.language || e.langid || "";
+    return language.trim() ? language.split(/[,;]|\band\b/).some((l) => values.includes(normalizeLanguage(l))) : null;
+  }
+  if (f.field === "venue") {
+    const venue = normalize(e.journal || e.booktitle || "");
+    return venue ? values.some((v) => ` ${venue} `.includes(` ${v} `)) : null;
+  }
+  const authors = (e.author || "")
+    .split(/\s+and\s+/i)
+    .map(normalize)
+    .filter(Boolean);
+  return authors.length ? authors.some((a) => values.some((v) => authorMatches(a, v))) : null;
+}
+
+const isYear = (v: unknown) => v === undefined || v === null || (typeof v === "number" && Number.isInteger(v));
+
+// Keeps the well-formed filters of a stored config; the checked path for config files is Checker.filters.
+export function readFilters(v: unknown): MetadataFilter[] {
+  if (!Array.isArray(v)) return [];
+  return v.flatMap((f): MetadataFilter[] => {
+    if (!f || typeof f !== "object") return [];
+    const { id, field, values = [], from, to, exclude, keepMissing } = f as Record<string, unknown>;
+    if (typeof id !== "string" || !id || !FILTER_FIELDS.some((x) => x.id === field)) return [];
+    if (!Array.isArray(values) || !values.every((s) => typeof s === "string") || !isYear(from) || !isYear(to)) return [];
+    if ((exclude !== undefined && typeof exclude !== "boolean") || (keepMissing !== undefined && typeof keepMissing !== "boolean")) return [];
+    return [{ ...(f as MetadataFilter), values }];
+  });
+}
+
+export function failedFilter(e: BibEntry, filters: MetadataFilter[]): MetadataFilter | null {
+  for (const f of filters) {
+    if (!isActiveFilter(f)) continue;
+    const hit = filterMatches(f, e);
+    if (hit === null ? !f.exclude && !f.keepMissing : hit === !!f.exclude) return f;
+  }
+  return null;
+}
+
+// Records are counted against the first filter that excludes them, in list order.
+export function applyMetadataFilters(entries: BibEntry[], filters: MetadataFilter[]): FilterOutcome {
+  const passed = new Uint8Array(entries.length);
+  const excludedBy: Record<string, number> = {};
+  let excluded = 0;
+  entries.forEach((e, i) => {
+    const failed = failedFilter(e, filters);
+    if (!failed) passed[i] = 1;
+    else {
+      excluded++;
+      excludedBy[failed.id] = (excludedBy[failed.id] || 0) + 1;
+    }
+  });
+  return { passed, excluded, excludedBy };
+}
@@ -0,0 +1,65 @@
+import { foldDiacritics } from "@/lib/latex";
+import { blockLabel, hasRegexMeta, listBlocks, PROXIMITY_GROUP, safeRegExp, termVariants, toSmartWordPattern, type Block, type FieldName, type QueryConfig } from "@/lib/query";
+import type { MatchedTermsMap } from "@/lib/run";
+import { createStemExpander, type StemExpander } from "@/lib/stemmer";
+
+export type HighlightSpan = { start: number; end: number; block: string; text: string };
+
+function compileRegexesForBlockField(block: Block | undefined, hits: string[] | undefined, caseInsensitive: boolean, expand: () => StemExpander): RegExp[] {
+  if (!block || !hits?.length) return [];
+  return hits.map((h) => {
+    const stemmed = block.stem && !(block.isRegex && hasRegexMeta(h));
+    return safeRegExp(toSmartWordPattern(h, !!block.isRegex, stemmed ? expand() : undefined), `gd${caseInsensitive || stemmed ? "i" : ""}`);
+  });
+}
+
+function collectSpans(text: string, arr: Array<{ block: string; re: RegExp }>): HighlightSpan[] {
+  const spans: HighlightSpan[] = [];
+  for (const { block, re } of arr) {
+    const rx = new RegExp(re.source, re.flags.includes("g") ? re.flags : re.flags + "g");
+    let m: RegExpExecArray | null;
+    while ((m = rx.exec(text))) {
+      const operands = Object.entries(m.indices?.groups ?? {}).flatMap(([name, range]) => (name.startsWith(PROXIMITY_GROUP) && range ? [range] : []));
+      if (operands.length) {
+        for (const [start, end] of operands) spans.push({ start, end, block, text: text.slice(start, end) });
+      } else {
+        spans.push({
+          start: m.index,
+          end: m.index + m[0].length,
+          block,
+          text: m[0],
+        });
+      }
+      if (m[0].length === 0) rx.lastIndex++;
+    }
+  }
+
+  spans.sort((a, b) => a.start - b.start || b.end - b.start - (a.end - a.start));
+  const picked: HighlightSpan[] = [];
+  let lastEnd = -1;
+  for (const s of spans) {
+    if (s.start >= lastEnd) {
+      picked.push(s);
+      lastEnd = s.end;
+    }
+  }
+  return picked;
+}
+
+// Spans are sorted and never overlap; their offsets index into the original text.
+export function highlightSpans(text: string, matchedTermsMap: MatchedTermsMap, cfg: QueryConfig, field: FieldName): HighlightSpan[] {
+  if (!text) return [];
+  const perBlock: Array<{ block: string; re: RegExp }> = [];
+  const searched = cfg.foldDiacritics ? foldDiacritics(text) : text;
+  let stems: StemExpander | undefined;
+  const expand = () => (stems ||= createStemExpander(searched.toLowerCase().match(/\w+/g) ?? []));
+
+  const blocks = new Map(listBlocks(cfg.query).map((b, idx) => [blockLabel(b, idx), b]));
+  for (const [blockName, fields] of Object.entries(matchedTermsMap || {})) {
+    const block = blocks.get(blockName);
+    const hits = (fields?.[field] || []).flatMap((h) => (block ? termVariants(block, h) : [h]));
+    for (const re of compileRegexesForBlockField(block, cfg.foldDiacritics ? hits.map(foldDiacritics) : hits, !!cfg.caseInsensitive, expand)) perBlock.push({ block: blockName, re });
+  }
+
+  return perBlock.length ? collectSpans(searched, perBlock) : [];
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { combineSources, detectLibraryFormat, parseLibrary } from "@/lib/importers";
+
+const RIS = `TY  - JOUR
+AU  - Doe, Jane
+AU  - Roe, Rick
+TI  - Virtual reality training
+AB  - A user study.
+KW  - VR
+KW  - training
+PY  - 2021
+JO  - J. VR
+DO  - 10.1/a
+UR  - https://www.scopus.com/x
+ER  - 
+
+TY  - CONF
+TI  - Second
+PY  - 2020
+ER  - 
+`;
+
+const MEDLINE = `PMID- 123
+TI  - Virtual reality for
+      rehabilitation.
+AB  - Abstract here.
+FAU - Doe, Jane
+AU  - Doe J
+DP  - 2019 Mar
+JT  - Journal of Rehab
+MH  - Virtual Reality
+OT  - VR
+LID - 10.2/b [doi]
+PT  - Journal Article
+`;
+
+const ENDNOTE = `<?xml version="1.0"?><xml><records><record><ref-type name="Journal Article">17</ref-type><contributors><authors><author>Doe, Jane</author></authors></contributors><titles><title>XML title</title><secondary-title>Some Journal</secondary-title></titles><dates><year>2018</year></dates><abstract>Abs</abstract><keywords><keyword>k1</keyword><keyword>k2</keyword></keywords><electronic-resource-num>10.3/c</electronic-resource-num></record></records></xml>`;
+
+const CSV = `Authors,Title,Year,Source title,Abstract,Author Keywords,DOI,Document Type
+"Doe, J.; Roe, R.","CSV, title",2017,Conf X,"Abs, with comma",a; b,10.4/d,Conference Paper
+`;
+
+describe("parseLibrary", () => {
+  it("reads RIS records and tags the database they came from", () => {
+    const source = parseLibrary("scopus.ris", RIS);
+    expect(source).toMatchObject({ format: "ris", database: "Scopus", diagnostics: [] });
+    expect(source.entries[0]).toMatchObject({ entry_type: "article", citekey: "doe2021virtual", author: "Doe, Jane and Roe, Rick", keywords: "VR; training", journal: "J. VR", doi: "10.1/a", __source: "scopus.ris", __database: "Scopus" });
+    expect(source.entries[1]).toMatchObject({ entry_type: "inproceedings", citekey: "anon2020second" });
+    expect(source.entries[0].__raw).toMatch(/^@article\{doe2021virtual,/);
+  });
+
+  it("reads MEDLINE records with continuation lines and MeSH terms", () => {
+    const [entry] = parseLibrary("pubmed.nbib", MEDLINE).entries;
+    expect(entry).toMatchObject({ title: "Virtual reality for rehabilitation.", author: "Doe, Jane", year: "2019", keywords: "VR; Virtual Reality", doi: "10.2/b", pmid: "123", url: "https://pubmed.ncbi.nlm.nih.gov/123/", __database: "PubMed" });
+  });
+
+  it("reads EndNote XML records", () => {
+    const [entry] = parseLibrary("library.xml", ENDNOTE).entries;
+    expect(entry).toMatchObject({ entry_type: "article", title: "XML title", author: "Doe, Jane", year: "2018", journal: "Some Journal", keywords: "k1; k2", doi: "10.3/c" });
+  });
+
+  it("reads database CSV exports with quoted commas", () => {
+    const source = parseLibrary("export.csv", CSV);
+    expect(source.database).toBe("Scopus");
+    expect(source.entries[0]).toMatchObject({ entry_type: "inproceedings", title: "CSV, title", author: "Doe, J. and Roe, R.", abstract: "Abs, with comma", booktitle: "Conf X", keywords: "a; b" });
+  });
+
+  it("detects the format from the content when the extension does not tell", () => {
+    expect([RIS, MEDLINE, ENDNOTE, "@article{a, title={T}}"].map((text) => detectLibraryFormat("export.txt", text))).toEqual(["ris", "nbib", "endnote-xml", "bibtex"]);
+  });
+
+  it("combines sources in order", () => {
+    const combined = combineSources([parseLibrary("a.ris", RIS), parseLibrary("b.nbib", MEDLINE)]);
+    expect(combined.entries.map((e) => e.__source)).toEqual(["a.ris", "a.ris", "b.nbib"]);
+  });
+});
@@ -0,0 +1,123 @@
+import { parseBibtex, type BibDiagnostic, type BibEntry, type BibStringDef } from "@/lib/bibtex";
+import { formatBibEntry } from "@/lib/bibExport";
+import { parseCsvExport } from "@/lib/csvImport";
+import { parseEndnoteXml } from "@/lib/endnoteXml";
+import { detectDatabaseName, parseMedline, parseRis } from "@/lib/ris";
+
+export type LibraryFormat = "bibtex" | "ris" | "nbib" | "endnote-xml" | "csv";
+
+export const LIBRARY_FORMATS: Record<LibraryFormat, string> = {
+  bibtex: "BibTeX",
+  ris: "RIS",
+  nbib: "PubMed (MEDLINE)",
+  "endnote-xml": "EndNote XML",
+  csv: "CSV export",
+};
+
+export const LIBRARY_FILE_ACCEPT = ".bib,.bibtex,.ris,.nbib,.txt,.xml,.csv,.tsv";
+
+export type ImportedRecord = {
+  entry_type: string;
+  citekey: string;
+  fields: Record<string, string>;
+  line: number;
+  sourceId?: string;
+};
+
+export type RecordParseResult = {
+  records: ImportedRecord[];
+  diagnostics: BibDiagnostic[];
+  database: string;
+};
+
+export type LibrarySource = {
+  id: string;
+  name: string;
+  format: LibraryFormat;
+  database: string;
+  entries: BibEntry[];
+  stringDefs: Record<string, BibStringDef>;
+  diagnostics: BibDiagnostic[];
+};
+
+export function detectLibraryFormat(fileName: string, text: string): LibraryFormat {
+  const ext = fileName.toLowerCase().match(/\.([a-z]+)$/)?.[1] ?? "";
+  const head = text.replace(/^\uFEFF/, "").trimStart().slice(0, 2000);
+  if (ext === "bib" || ext === "bibtex") return "bibtex";
+  if (ext === "ris") return "ris";
+  if (ext === "nbib") return "nbib";
+  if (ext === "xml" || head.startsWith("<?xml") || head.startsWith("<xml")) return "endnote-xml";
+  if (ext === "csv" || ext === "tsv") return "csv";
+  if (/^TY {2}- /m.test(head)) return "ris";
+  if (/^PMID- /m.test(head)) return "nbib";
+  if (head.startsWith("@") || /^\s*@\w+\s*[{(]/m.test(head)) return "bibtex";
+  return "csv";
+}
+
+function citekeyBase(fields: Record<string, string>) {
+  const firstAuthor = (fields.author || "").split(/\s+and\s+/)[0].trim();
+  const names = firstAuthor.split(",")[0].trim().split(/\s+/);
+  const initialsLast = !firstAuthor.includes(",") && names.length > 1 && /^(?:[A-Z]\.-?)+$/.test(names[names.length - 1]);
+  const surname = (initialsLast ? names[0] : names[names.length - 1]) || "anon";
+  const word = (fields.title || "").split(/\s+/).find((w) => w.replace(/\W/g, "").length > 3) || "";
+  const clean = (s: string) => s.normalize("NFD").replace(/[^A-Za-z0-9]/g, "");
+  return `${clean(surname).toLowerCase()}${fields.year || ""}${clean(word).toLowerCase()}` || "entry";
+}
+
+function uniqueKey(base: string, taken: Set<string>) {
+  let key = base;
+  for (let n = 0; taken.has(key); n++) key = `${base}${n < 26 ? String.fromCharCode(97 + n) : n}`;
+  taken.add(key);
+  return key;
+}
+
+function toEntry(record: ImportedRecord, taken: Set<string>): BibEntry {
+  const fields = Object.fromEntries(Object.entries(record.fields).filter(([, v]) => v));
+  const citekey = uniqueKey(record.citekey.replace(/[\s,{}()"#%'=]/g, "") || citekeyBase(fields), taken);
+  const entry: BibEntry = { ...fields, entry_type: record.entry_type, citekey, __raw: "" };
+  entry.__raw = formatBibEntry(entry);
+  if (record.sourceId) entry.__source_id = record.sourceId;
+  return entry;
+}
+
+const RECORD_PARSERS: Record<Exclude<LibraryFormat, "bibtex">, (text: string) => RecordParseResult> = {
+  ris: parseRis,
+  nbib: parseMedline,
+  "endnote-xml": parseEndnoteXml,
+  csv: parseCsvExport,
+};
+
+export function parseLibrary(name: string, text: string, format = detectLibraryFormat(name, text), id = name): LibrarySource {
+  let entries: BibEntry[];
+  let stringDefs: Record<string, BibStringDef> = {};
+  let diagnostics: BibDiagnostic[];
+  let database: string;
+
+  if (format === "bibtex") {
+    const result = parseBibtex(text);
+    ({ entries, stringDefs, diagnostics } = result);
+    database = detectDatabaseName(entries.slice(0, 20).map((e) => `${e.url || ""} ${e.publisher || ""}`).join(" "));
+  } else {
+    const result = RECORD_PARSERS[format](text);
+    const taken = new Set<string>();
+    entries = result.records.map((r) => toEntry(r, taken));
+    diagnostics = result.diagnostics;
+    database = result.database;
+  }
+
+  for (const e of entries) {
+    e.__source = name;
+    if (database) e.__database = database;
+  }
+  return { id, name, format, database, entries, stringDefs, diagnostics: diagnostics.map((d) => ({ ...d, source: name })) };
+}
+
+export function combineSources(sources: LibrarySource[]) {
+  const stringDefs: Record<string, BibStringDef> = {};
+  for (const s of sources) Object.assign(stringDefs, s.stringDefs);
+  return {
+    entries: sources.flatMap((s) => s.entries),
+    stringDefs,
+    diagnostics: sources.flatMap((s) => s.diagnostics),
+  };
+}
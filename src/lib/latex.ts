@@ -0,0 +1,141 @@
+const ACCENTS: Record<string, string> = {
+  "`": "\u0300",
+  "'": "\u0301",
+  "^": "\u0302",
+  "~": "\u0303",
+  "=": "\u0304",
+  u: "\u0306",
+  ".": "\u0307",
+  '"': "\u0308",
+  r: "\u030a",
+  H: "\u030b",
+  v: "\u030c",
+  d: "\u0323",
+  c: "\u0327",
+  k: "\u0328",
+  b: "\u0331",
+};
+
+const LETTERS: Record<string, string> = {
+  i: "ı",
+  j: "ȷ",
+  o: "ø",
+  O: "Ø",
+  l: "ł",
+  L: "Ł",
+  ss: "ß",
+  ae: "æ",
+  AE: "Æ",
+  oe: "œ",
+  OE: "Œ",
+  aa: "å",
+  AA: "Å",
+  dh: "ð",
+  DH: "Ð",
+  th: "þ",
+  TH: "Þ",
+  ng: "ŋ",
+  NG: "Ŋ",
+};
+
+const SYMBOLS: Record<string, string> = {
+  textendash: "–",
+  textemdash: "—",
+  textquoteleft: "‘",
+  textquoteright: "’",
+  textquotedblleft: "“",
+  textquotedblright: "”",
+  textregistered: "®",
+  texttrademark: "™",
+  textcopyright: "©",
+  textdegree: "°",
+  textasciitilde: "~",
+  textbackslash: "\\",
+  textbar: "|",
+  textless: "<",
+  textgreater: ">",
+  dots: "…",
+  ldots: "…",
+  textellipsis: "…",
+  alpha: "α",
+  beta: "β",
+  gamma: "γ",
+  delta: "δ",
+  epsilon: "ε",
+  lambda: "λ",
+  mu: "μ",
+  pi: "π",
+  sigma: "σ",
+  tau: "τ",
+  theta: "θ",
+  omega: "ω",
+  times: "×",
+  pm: "±",
+  leq: "≤",
+  geq: "≥",
+  le: "≤",
+  ge: "≥",
+  neq: "≠",
+  approx: "≈",
+  rightarrow: "→",
+  to: "→",
+  infty: "∞",
+  cdot: "·",
+};
+
+const FORMATTING = /\\(?:textit|textbf|textsc|texttt|textsf|textrm|textup|textmd|textsl|emph|mathrm|mathit|mathbf|mathsf|mathtt|mathcal|mbox|text|url|uppercase|lowercase|MakeUppercase|MakeLowercase|NoCaseChange|ensuremath)\s*\{/g;
+
+const SWITCHES = /\\(?:itshape|bfseries|scshape|ttfamily|sffamily|rmfamily|upshape|mdseries|slshape|em|it|bf|sc|tt|sf|rm|sl|normalfont)\b\s*/g;
+
+function decodeAccents(s: string) {
+  return s.replace(/\\([`'^~="]|[uvrHdckb](?![a-zA-Z]))\s*(?:\{\s*(\\?[a-zA-Z]{1,2}|\\[ij])?\s*\}|(\\[ij](?![a-zA-Z])|[a-zA-Z]))/g, (match, accent: string, braced?: string, bare?: string) => {
+    const base = (braced ?? bare ?? "").replace(/^\\([ij])$/, "$1");
+    const mark = ACCENTS[accent];
+    if (!mark || base.length !== 1) return match;
+    return (base + mark).normalize("NFC");
+  });
+}
+
+export function latexToUnicode(input: string) {
+  if (!input || !/[\\{}$~`']/.test(input)) return input || "";
+  let s = input;
+
+  s = decodeAccents(s);
+  s = s.replace(/\\(ss|ae|AE|oe|OE|aa|AA|dh|DH|th|TH|ng|NG|[ijoOlL])(?![a-zA-Z])\s?/g, (_, name: string) => LETTERS[name]);
+  s = decodeAccents(s);
+  s = s.replace(/\\([a-zA-Z]+)(?![a-zA-Z])\s?(?:\{\})?/g, (match, name: string) => SYMBOLS[name] ?? match);
+  s = s.replace(/\\([&%$#_{}])/g, "$1");
+  s = s.replace(/\\[,;:! ]/g, " ");
+
+  let prev = "";
+  while (prev !== s) {
+    prev = s;
+    s = s.replace(FORMATTING, "{");
+  }
+  s = s.replace(SWITCHES, "");
+
+  s = s
+    .replace(/---/g, "—")
+    .replace(/--/g, "–")
+    .replace(/``/g, "“")
+    .replace(/''/g, "”")
+    .replace(/(?<!\\)~/g, " ")
+    .replace(/(?<!\\)\$([^$]*)(?<!\\)\$/g, "$1")
+    .replace(/\\\\/g, " ")
+    .replace(/(?<!\\)[{}]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+
+  return s.normalize("NFC");
+}
+
+const FOLD_EXTRA: Record<string, string> = { ø: "o", Ø: "O", ł: "l", Ł: "L", đ: "d", Đ: "D", ı: "i", ȷ: "j" };
+
+export function foldDiacritics(input: string) {
+  let out = "";
+  for (const ch of input || "") {
+    const base = FOLD_EXTRA[ch] ?? ch.normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+    out += base.length === ch.length ? base : ch;
+  }
+  return out;
+}
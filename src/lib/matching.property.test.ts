@@ -0,0 +1,122 @@
+import fc from "fast-check";
+import { describe, expect, it } from "vitest";
+import { DEFAULT_DEDUP } from "@/lib/dedup";
+import { highlightSpans } from "@/lib/highlight";
+import { foldDiacritics } from "@/lib/latex";
+import { DEFAULT_FIELDS, evaluateQueryOnText, makeGroup, type BlockNode, type GroupNode, type Operator, type QueryConfig, type QueryNode, type SearchFields } from "@/lib/query";
+import { buildSearchIndex, createIndexedMatcher, type FieldTexts } from "@/lib/searchIndex";
+
+const WORDS = ["virtual", "reality", "VR", "study", "studies", "user", "users", "training", "trained", "review", "café", "cafe", "head-mounted", "display", "remote", "online"];
+
+const word = fc.constantFrom(...WORDS);
+
+const text = fc.array(word, { maxLength: 12 }).chain((ws) => fc.constantFrom(" ", ", ", ". ").map((sep) => ws.join(sep)));
+
+const FIELDS = [...DEFAULT_FIELDS, { id: "note", label: "Note", sources: ["note"] }];
+
+const FIELD_IDS = FIELDS.map((f) => f.id);
+
+const record = fc.record({ title: text, abstract: text, keywords: text, note: text });
+
+const term = fc.oneof(
+  word,
+  fc.tuple(word, word).map(([a, b]) => `${a} ${b}`),
+  word.map((w) => `${w.slice(0, 3)}*`),
+  word.map((w) => (w.length > 3 ? `${w.slice(0, 2)}?${w.slice(3)}` : w)),
+  fc.tuple(word, fc.constantFrom("NEAR", "W", "PRE"), fc.integer({ min: 0, max: 3 }), word).map(([a, op, n, b]) => `${a} ${op}/${n} ${b}`),
+  word.map((w) => `(${w}`),
+);
+
+let nextId = 0;
+
+const block: fc.Arbitrary<BlockNode> = fc
+  .record({
+    terms: fc.uniqueArray(term, { minLength: 1, maxLength: 3 }),
+    stem: fc.boolean(),
+    isRegex: fc.boolean(),
+    exclude: fc.boolean(),
+    synonym: fc.option(word, { nil: undefined }),
+    fields: fc.option(fc.subarray(FIELD_IDS, { minLength: 1 }), { nil: undefined }),
+    named: fc.boolean(),
+  })
+  .map(({ terms, stem, isRegex, exclude, synonym, fields, named }) => {
+    const id = `b${nextId++}`;
+    return { kind: "block", id, name: named ? `Block ${id}` : "", terms, stem, isRegex, exclude, expansions: synonym ? { [terms[0]]: [synonym] } : undefined, fields };
+  });
+
+const operators = (n: number) => fc.array(fc.constantFrom<Operator>("AND", "OR"), { minLength: Math.max(n - 1, 0), maxLength: Math.max(n - 1, 0) });
+
+const group: fc.Arbitrary<GroupNode> = fc.letrec<{ node: QueryNode; group: GroupNode }>((tie) => ({
+  node: fc.oneof({ depthSize: "small", withCrossShrink: true }, block, tie("group")),
+  group: fc
+    .array(tie("node"), { minLength: 1, maxLength: 3 })
+    .chain((children) => fc.tuple(fc.constant(children), operators(children.length), fc.boolean()))
+    .map(([children, ops, exclude]) => makeGroup(children, ops, { exclude })),
+})).group;
+
+const config = fc.record({ query: group, caseInsensitive: fc.boolean(), foldDiacritics: fc.boolean() }).map((c): QueryConfig => ({ ...c, decodeLatex: false, dedup: DEFAULT_DEDUP, fields: FIELDS, searchFields: { title: true, abstract: true, keywords: true, note: true }, filters: [] }));
+
+const selected: fc.Arbitrary<SearchFields> = fc.record({ title: fc.boolean(), abstract: fc.boolean(), keywords: fc.boolean(), note: fc.boolean() });
+
+const fold = (r: FieldTexts, cfg: QueryConfig): FieldTexts => (cfg.foldDiacritics ? Object.fromEntries(Object.entries(r).map(([f, t]) => [f, foldDiacritics(t)])) : r);
+
+describe("matching engine properties", () => {
+  it("the search index gives the same result as evaluating each record's text", () => {
+    fc.assert(
+      fc.property(config, fc.array(record, { minLength: 1, maxLength: 8 }), selected, (cfg, records, fields) => {
+        const evaluate = evaluateQueryOnText("", cfg);
+        const matcher = createIndexedMatcher(buildSearchIndex(records.map((r) => fold(r, cfg)), FIELD_IDS), cfg);
+        records.forEach((r, i) => expect(matcher(i, fields)).toEqual(evaluate(r, fields)));
+      }),
+      { numRuns: 300 },
+    );
+  });
+
+  it("highlight spans are ordered, disjoint and slice the original text", () => {
+    fc.assert(
+      fc.property(config, record, (cfg, r: FieldTexts) => {
+        const { detailed } = evaluateQueryOnText("", cfg)(r, cfg.searchFields);
+        for (const field of FIELD_IDS) {
+          const spans = highlightSpans(r[field], detailed, cfg, field);
+          spans.forEach((s, i) => {
+            expect(s.start).toBeLessThan(s.end);
+            const slice = r[field].slice(s.start, s.end);
+            expect(cfg.foldDiacritics ? foldDiacritics(slice) : slice).toBe(s.text);
+            if (i > 0) expect(s.start).toBeGreaterThanOrEqual(spans[i - 1].end);
+          });
+        }
+      }),
+      { numRuns: 300 },
+    );
+  });
+
+  it("every field the evaluator reports a hit in gets at least one span of that block", () => {
+    fc.assert(
+      fc.property(config, record, (cfg, r: FieldTexts) => {
+        const { detailed } = evaluateQueryOnText("", cfg)(r, cfg.searchFields);
+        for (const [blockName, hits] of Object.entries(detailed)) {
+          for (const field of FIELD_IDS) {
+            if (!hits[field]?.length) continue;
+            const spans = highlightSpans(r[field], { [blockName]: hits }, cfg, field);
+            expect(spans.length).toBeGreaterThan(0);
+            expect(spans.every((s) => s.block === blockName)).toBe(true);
+          }
+        }
+      }),
+      { numRuns: 300 },
+    );
+  });
+
+  it("blocks without hits in a field produce no spans there", () => {
+    fc.assert(
+      fc.property(config, record, (cfg, r: FieldTexts) => {
+        const { detailed } = evaluateQueryOnText("", cfg)(r, cfg.searchFields);
+        for (const field of FIELD_IDS) {
+          const blocks = new Set(highlightSpans(r[field], detailed, cfg, field).map((s) => s.block));
+          blocks.forEach((b) => expect(detailed[b]?.[field]?.length).toBeGreaterThan(0));
+        }
+      }),
+      { numRuns: 300 },
+    );
+  });
+});
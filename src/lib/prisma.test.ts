@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { buildPrismaSvg, prismaCounts } from "@/lib/prisma";
+
+const report = { total: 90, duplicates: 10, filtered: 15, filters: [{ label: "Year 2015–2024", count: 15 }], eligible: 70, matched: 20, sources: [{ name: "Scopus", count: 60 }, { name: "PubMed", count: 40 }] };
+
+describe("prismaCounts", () => {
+  it("splits the records removed before screening", () => {
+    expect(prismaCounts(report, { included: 8, excluded: 5, reasons: [{ reason: "Wrong population", count: 5 }] })).toEqual({
+      sources: report.sources,
+      duplicates: 10,
+      automationExcluded: 50,
+      filtered: report.filters,
+      otherRemoved: 5,
+      screened: 20,
+      excluded: 5,
+      exclusionReasons: [{ reason: "Wrong population", count: 5 }],
+      awaiting: 7,
+      included: 8,
+    });
+  });
+
+  it("reads reports saved before metadata filters", () => {
+    expect(prismaCounts({ total: 90, duplicates: 10, eligible: 70, matched: 20, sources: [] })).toMatchObject({ filtered: [], otherRemoved: 20, awaiting: 20 });
+  });
+
+  it("draws every count into the diagram", () => {
+    const svg = buildPrismaSvg(prismaCounts(report));
+    const n = (v: number) => `(n\u00a0=\u00a0${v})`;
+    for (const text of [`Records identified ${n(100)}`, "Excluded by filter: Year 2015–2024", `Records screened ${n(20)}`]) expect(svg).toContain(text);
+  });
+});
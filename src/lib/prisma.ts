@@ -0,0 +1,163 @@
+export type PrismaCounts = {
+  sources: { name: string; count: number }[];
+  duplicates: number;
+  automationExcluded: number;
+  filtered: { label: string; count: number }[];
+  otherRemoved: number;
+  screened: number;
+  excluded: number;
+  exclusionReasons: { reason: string; count: number }[];
+  awaiting: number;
+  included: number;
+};
+
+export type PrismaRunReport = {
+  total: number;
+  duplicates: number;
+  eligible: number;
+  matched: number;
+  filtered?: number;
+  filters?: { label: string; count: number }[];
+  sources: { name: string; count: number }[];
+};
+
+export type PrismaScreening = {
+  included: number;
+  excluded: number;
+  reasons: { reason: string; count: number }[];
+};
+
+export function prismaCounts(report: PrismaRunReport, screening?: PrismaScreening): PrismaCounts {
+  const included = screening?.included ?? 0;
+  const excluded = screening?.excluded ?? 0;
+  return {
+    sources: report.sources,
+    duplicates: report.duplicates,
+    automationExcluded: report.eligible - report.matched,
+    filtered: report.filters ?? [],
+    otherRemoved: report.total - (report.filtered ?? 0) - report.eligible,
+    screened: report.matched,
+    excluded,
+    exclusionReasons: screening?.reasons ?? [],
+    awaiting: Math.max(0, report.matched - included - excluded),
+    included,
+  };
+}
+
+const WIDTH = 820;
+const LINE = 18;
+const PAD = 12;
+const MAIN_X = 70;
+const SIDE_X = 450;
+const BOX_W = 330;
+const GAP = 40;
+const FONT = "Arial, Helvetica, sans-serif";
+
+type Line = { text: string; indent?: boolean; bold?: boolean };
+
+function escapeXml(s: string) {
+  return s.replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&apos;" })[c] as string);
+}
+
+function wrap(text: string, max: number) {
+  const out: string[] = [];
+  let line = "";
+  for (const word of text.split(" ")) {
+    if (line && (line + " " + word).length > max) {
+      out.push(line);
+      line = word;
+    } else line = line ? `${line} ${word}` : word;
+  }
+  if (line) out.push(line);
+  return out;
+}
+
+function boxHeight(lines: Line[]) {
+  return lines.length * LINE + PAD * 2;
+}
+
+function box(x: number, y: number, lines: Line[], height = boxHeight(lines)) {
+  const text = lines
+    .map((l, i) => `<text x="${x + PAD + (l.indent ? 14 : 0)}" y="${y + PAD + LINE * (i + 1) - 5}"${l.bold ? ' font-weight="bold"' : ""}>${escapeXml(l.text)}</text>`)
+    .join("");
+  return `<rect x="${x}" y="${y}" width="${BOX_W}" height="${height}" fill="#ffffff" stroke="#1f2937" stroke-width="1.2"/>${text}`;
+}
+
+function arrow(x1: number, y1: number, x2: number, y2: number) {
+  return `<line x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}" stroke="#1f2937" stroke-width="1.2" marker-end="url(#arrow)"/>`;
+}
+
+function phase(label: string, y: number, height: number) {
+  const cx = 30;
+  const cy = y + height / 2;
+  return `<rect x="14" y="${y}" width="32" height="${height}" rx="6" fill="#bfdbfe" stroke="#1e3a8a" stroke-width="1"/><text x="${cx}" y="${cy}" transform="rotate(-90 ${cx} ${cy})" text-anchor="middle" dominant-baseline="central" font-weight="bold">${escapeXml(label)}</text>`;
+}
+
+function lines(texts: Line[], max = 44): Line[] {
+  return texts.flatMap((l) => wrap(l.text, l.indent ? max - 2 : max).map((text) => ({ ...l, text })));
+}
+
+export function buildPrismaSvg(c: PrismaCounts, title = "PRISMA 2020 flow diagram") {
+  const n = (v: number) => `(n\u00a0=\u00a0${v})`;
+  const identified = c.sources.reduce((sum, s) => sum + s.count, 0);
+
+  const idLines = lines([{ text: `Records identified ${n(identified)}`, bold: true }, ...c.sources.map((s) => ({ text: `${s.name} ${n(s.count)}`, indent: true }))]);
+  const removedLines = lines([{ text: "Records removed before screening:", bold: true }, { text: `Duplicate records removed ${n(c.duplicates)}`, indent: true }, { text: `Records not matching the search query ${n(c.automationExcluded)}`, indent: true }, ...c.filtered.map((f) => ({ text: `Excluded by filter: ${f.label} ${n(f.count)}`, indent: true })), { text: `Records without title, abstract or keywords ${n(c.otherRemoved)}`, indent: true }]);
+  const screenedLines = lines([{ text: `Records screened ${n(c.screened)}`, bold: true }, ...(c.awaiting > 0 ? [{ text: `Awaiting a screening decision ${n(c.awaiting)}`, indent: true }] : [])]);
+  const excludedLines = lines([{ text: `Records excluded ${n(c.excluded)}`, bold: true }, ...c.exclusionReasons.map((r) => ({ text: `${r.reason} ${n(r.count)}`, indent: true }))]);
+  const includedLines = lines([{ text: `Studies included in review ${n(c.included)}`, bold: true }]);
+
+  const top = 56;
+  const row1 = Math.max(boxHeight(idLines), boxHeight(removedLines));
+  const row2Y = top + row1 + GAP;
+  const row2 = Math.max(boxHeight(screenedLines), boxHeight(excludedLines));
+  const row3Y = row2Y + row2 + GAP;
+  const row3 = boxHeight(includedLines);
+  const height = row3Y + row3 + 24;
+  const mid = MAIN_X + BOX_W / 2;
+
+  const body = [
+    `<text x="${WIDTH / 2}" y="30" text-anchor="middle" font-size="16" font-weight="bold">${escapeXml(title)}</text>`,
+    phase("Identification", top, row1),
+    phase("Screening", row2Y, row2),
+    phase("Included", row3Y, row3),
+    box(MAIN_X, top, idLines, row1),
+    box(SIDE_X, top, removedLines, row1),
+    box(MAIN_X, row2Y, screenedLines, row2),
+    box(SIDE_X, row2Y, excludedLines, row2),
+    box(MAIN_X, row3Y, includedLines, row3),
+    arrow(MAIN_X + BOX_W, top + row1 / 2, SIDE_X - 2, top + row1 / 2),
+    arrow(mid, top + row1, mid, row2Y - 2),
+    arrow(MAIN_X + BOX_W, row2Y + row2 / 2, SIDE_X - 2, row2Y + row2 / 2),
+    arrow(mid, row2Y + row2, mid, row3Y - 2),
+  ].join("");
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${WIDTH}" height="${height}" viewBox="0 0 ${WIDTH} ${height}" font-family="${FONT}" font-size="13" fill="#111827"><defs><marker id="arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="7" markerHeight="7" orient="auto"><path d="M0,0 L10,5 L0,10 z" fill="#1f2937"/></marker></defs><rect width="100%" height="100%" fill="#ffffff"/>${body}</svg>`;
+}
+
+export function svgToPng(svg: string, scale = 2): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    const url = URL.createObjectURL(new Blob([svg], { type: "image/svg+xml;charset=utf-8" }));
+    img.onload = () => {
+      const canvas = document.createElement("canvas");
+      canvas.width = img.width * scale;
+      canvas.height = img.height * scale;
+      const ctx = canvas.getContext("2d");
+      if (!ctx) {
+        URL.revokeObjectURL(url);
+        reject(new Error("Canvas is not available"));
+        return;
+      }
+      ctx.scale(scale, scale);
+      ctx.drawImage(img, 0, 0);
+      URL.revokeObjectURL(url);
+      canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("PNG conversion failed"))), "image/png");
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Could not render the SVG"));
+    };
+    img.src = url;
+  });
+}
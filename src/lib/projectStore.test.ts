@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_DEDUP } from "@/lib/dedup";
+import { EMPTY_REVIEW } from "@/lib/dualReview";
+import { parseLibrary } from "@/lib/importers";
+import { buildProjectArchive, readProjectArchive, type Project } from "@/lib/projectStore";
+import { DEFAULT_FIELDS, makeBlock, makeGroup, type QueryConfig } from "@/lib/query";
+import { executeRun } from "@/lib/run";
+import { EMPTY_SCREENING } from "@/lib/screening";
+
+const BIB = `@article{a, title={Virtual reality training}, year={2021}, doi={10.1/a}}
+@article{b, title={Virtual Reality Training}, year={2021}, doi={10.1/A}}
+@article{c, title={Desktop training}, year={2020}}`;
+
+const cfg: QueryConfig = { query: makeGroup([makeBlock("VR", ["virtual reality"])]), caseInsensitive: true, decodeLatex: true, foldDiacritics: false, dedup: DEFAULT_DEDUP, fields: DEFAULT_FIELDS, searchFields: { title: true, abstract: true, keywords: true }, filters: [] };
+
+const sources = [parseLibrary("library.bib", BIB)];
+const { output, matchedBib } = executeRun({ bib: "", sources, cfg });
+
+const stored: Omit<Project, "id"> = { name: "VR", createdAt: "2024-01-01T00:00:00.000Z", updatedAt: "2024-01-02T00:00:00.000Z", cfg, versions: [], screening: EMPTY_SCREENING, review: EMPTY_REVIEW, thesaurus: null, bib: "", sources, runOutput: output, matchedBib };
+
+const project: Project = { id: "p", ...stored };
+
+const archive = (patch: object) => new Blob([JSON.stringify({ format: "lsb-project", version: 1, project: { ...stored, ...patch } })]);
+
+describe("readProjectArchive", () => {
+  it("round-trips a project with its library and run", async () => {
+    const { project: read } = await readProjectArchive(await buildProjectArchive(project));
+    expect(JSON.parse(JSON.stringify(read))).toEqual(JSON.parse(JSON.stringify(stored)));
+  });
+
+  it("checks the config like a config file", async () => {
+    await expect(readProjectArchive(archive({ cfg: { ...cfg, filters: [{ id: "b", field: "language", values: ["en"], exclude: "yes" }] } }))).rejects.toThrow('The project archive is invalid at project.cfg: filters[0].exclude: expected true or false, got "yes".');
+  });
+
+  it("reports the malformed part of the project", async () => {
+    await expect(readProjectArchive(archive({ screening: { decisions: { "key:a": { decision: "keep" } } } }))).rejects.toThrow('project.screening.decisions["key:a"].decision');
+    await expect(readProjectArchive(archive({ sources: [{ ...sources[0], entries: [1] }] }))).rejects.toThrow("The project archive is invalid at project.sources[0].entries[0]: expected an object.");
+    await expect(readProjectArchive(archive({ runOutput: { ...output, matched: [{ Title: "No key" }] } }))).rejects.toThrow("The project archive is invalid at project.runOutput.matched[0].CiteKey: expected text.");
+    await expect(readProjectArchive(archive({ review: { ...EMPTY_REVIEW, sets: [{ format: "other" }] } }))).rejects.toThrow("project.review.sets[0]: This file is not a screening decision set.");
+    await expect(readProjectArchive(archive({ matchedBib: { entries: [{ citekey: "a" }], stringDefs: {} } }))).rejects.toThrow("project.matchedBib.entries[0].entry_type: expected text.");
+  });
+
+  it("fills in parts older archives do not have", async () => {
+    const { project: read } = await readProjectArchive(archive({ screening: undefined, review: undefined, runOutput: undefined, versions: undefined }));
+    expect(read).toMatchObject({ screening: EMPTY_SCREENING, review: EMPTY_REVIEW, runOutput: null, versions: [] });
+  });
+});
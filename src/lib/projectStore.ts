@@ -0,0 +1,349 @@
+import type { BibEntry } from "@/lib/bibtex";
+import { ConfigValidationError, readConfig } from "@/lib/configFile";
+import { normalizeConfig, type QueryConfig } from "@/lib/query";
+import { EMPTY_SCREENING, readDecisions, type ScreeningState } from "@/lib/screening";
+import { EMPTY_REVIEW, parseDecisionSet, type DualReviewState } from "@/lib/dualReview";
+import { LIBRARY_FORMATS, type LibrarySource } from "@/lib/importers";
+import type { QueryVersion } from "@/lib/queryHistory";
+import type { Thesaurus } from "@/lib/thesaurus";
+import type { MatchedBib, RunOutput } from "@/lib/run";
+import { uid } from "@/lib/utils";
+
+export type ProjectMeta = {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type ProjectState = {
+  cfg: QueryConfig;
+  versions: QueryVersion[];
+  screening: ScreeningState;
+  review: DualReviewState;
+  thesaurus: Thesaurus | null;
+};
+
+export type ProjectLibrary = {
+  bib: string;
+  sources: LibrarySource[];
+  runOutput: RunOutput | null;
+  matchedBib: MatchedBib;
+};
+
+export type Project = ProjectMeta & ProjectState & ProjectLibrary;
+
+export type ProjectArchive = {
+  format: "lsb-project";
+  version: 1;
+  exportedAt: string;
+  project: Omit<Project, "id">;
+};
+
+export const PROJECT_FILE_ACCEPT = ".lsbproj,.json,.gz,application/json,application/gzip";
+
+export const EMPTY_LIBRARY: ProjectLibrary = { bib: "", sources: [], runOutput: null, matchedBib: { entries: [], stringDefs: {} } };
+
+const DB_NAME = "literature-search-builder";
+const DB_VERSION = 1;
+const PROJECTS = "projects";
+const LIBRARIES = "libraries";
+
+type ProjectRecord = ProjectMeta & ProjectState;
+type LibraryRecord = ProjectLibrary & { id: string };
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb() {
+  dbPromise ||= new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(PROJECTS)) db.createObjectStore(PROJECTS, { keyPath: "id" });
+      if (!db.objectStoreNames.contains(LIBRARIES)) db.createObjectStore(LIBRARIES, { keyPath: "id" });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => {
+      dbPromise = null;
+      reject(req.error ?? new Error("Could not open the project database"));
+    };
+  });
+  return dbPromise;
+}
+
+function settle<T>(req: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+async function transaction<T>(stores: string[], mode: IDBTransactionMode, body: (tx: IDBTransaction) => Promise<T>) {
+  const db = await openDb();
+  const tx = db.transaction(stores, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("Transaction aborted"));
+  });
+  const [result] = await Promise.all([body(tx), done]);
+  return result;
+}
+
+function toMeta({ id, name, createdAt, updatedAt }: ProjectMeta): ProjectMeta {
+  return { id, name, createdAt, updatedAt };
+}
+
+function normalizeVersions(versions: QueryVersion[] | undefined): QueryVersion[] {
+  return (versions ?? []).map((v) => ({ ...v, cfg: normalizeConfig(v.cfg) ?? v.cfg }));
+}
+
+export async function listProjects(): Promise<ProjectMeta[]> {
+  const records = await transaction([PROJECTS], "readonly", (tx) => settle(tx.objectStore(PROJECTS).getAll() as IDBRequest<ProjectRecord[]>));
+  return records.map(toMeta).sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export async function loadProject(id: string): Promise<Project | null> {
+  return transaction([PROJECTS, LIBRARIES], "readonly", async (tx) => {
+    const [record, library] = await Promise.all([settle(tx.objectStore(PROJECTS).get(id) as IDBRequest<ProjectRecord | undefined>), settle(tx.objectStore(LIBRARIES).get(id) as IDBRequest<LibraryRecord | undefined>)]);
+    if (!record) return null;
+    return { ...EMPTY_LIBRARY, ...library, ...record, cfg: normalizeConfig(record.cfg) ?? record.cfg, versions: normalizeVersions(record.versions), thesaurus: record.thesaurus ?? null };
+  });
+}
+
+export async function createProject(name: string, state: ProjectState, library: ProjectLibrary = EMPTY_LIBRARY): Promise<Project> {
+  const now = new Date().toISOString();
+  const meta: ProjectMeta = { id: uid(), name, createdAt: now, updatedAt: now };
+  await transaction([PROJECTS, LIBRARIES], "readwrite", async (tx) => {
+    tx.objectStore(PROJECTS).put({ ...meta, ...state });
+    tx.objectStore(LIBRARIES).put({ ...library, id: meta.id });
+  });
+  return { ...meta, ...state, ...library };
+}
+
+async function putRecord(tx: IDBTransaction, id: string, patch: Partial<ProjectRecord>) {
+  const store = tx.objectStore(PROJECTS);
+  const record = (await settle(store.get(id))) as ProjectRecord | undefined;
+  if (!record) throw new Error("The project no longer exists.");
+  const next = { ...record, ...patch, id, updatedAt: new Date().toISOString() };
+  store.put(next);
+  return toMeta(next);
+}
+
+function updateRecord(id: string, patch: Partial<ProjectRecord>) {
+  return transaction([PROJECTS], "readwrite", (tx) => putRecord(tx, id, patch));
+}
+
+export function saveProjectState(id: string, state: ProjectState) {
+  return updateRecord(id, state);
+}
+
+export function renameProject(id: string, name: string) {
+  return updateRecord(id, { name });
+}
+
+export function saveProjectLibrary(id: string, library: ProjectLibrary) {
+  return transaction([PROJECTS, LIBRARIES], "readwrite", async (tx) => {
+    const meta = await putRecord(tx, id, {});
+    tx.objectStore(LIBRARIES).put({ ...library, id });
+    return meta;
+  });
+}
+
+export async function deleteProject(id: string) {
+  await transaction([PROJECTS, LIBRARIES], "readwrite", async (tx) => {
+    tx.objectStore(PROJECTS).delete(id);
+    tx.objectStore(LIBRARIES).delete(id);
+  });
+}
+
+export async function buildProjectArchive(project: Project): Promise<Blob> {
+  const { name, createdAt, updatedAt, cfg, versions, screening, review, thesaurus, bib, sources, runOutput, matchedBib } = project;
+  const archive: ProjectArchive = { format: "lsb-project", version: 1, exportedAt: new Date().toISOString(), project: { name, createdAt, updatedAt, cfg, versions, screening, review, thesaurus, bib, sources, runOutput, matchedBib } };
+  const json = new Blob([JSON.stringify(archive)], { type: "application/json" });
+  if (typeof CompressionStream === "undefined") return json;
+  return new Response(json.stream().pipeThrough(new CompressionStream("gzip"))).blob();
+}
+
+type Obj = Record<string, unknown>;
+
+const isObject = (v: unknown): v is Obj => !!v && typeof v === "object" && !Array.isArray(v);
+
+function invalid(path: string, message: string): never {
+  throw new Error(`The project archive is invalid at ${path}: ${message}.`);
+}
+
+function list(v: unknown, path: string) {
+  return Array.isArray(v) ? v : invalid(path, "expected a list");
+}
+
+function object(v: unknown, path: string) {
+  return isObject(v) ? v : invalid(path, "expected an object");
+}
+
+function texts(o: Obj, keys: string[], path: string, optional: string[] = []) {
+  keys.forEach((k) => typeof o[k] === "string" || invalid(`${path}.${k}`, "expected text"));
+  optional.forEach((k) => o[k] === undefined || typeof o[k] === "string" || invalid(`${path}.${k}`, "expected text"));
+}
+
+function numbers(o: Obj, keys: string[], path: string, optional: string[] = []) {
+  keys.forEach((k) => typeof o[k] === "number" || invalid(`${path}.${k}`, "expected a number"));
+  optional.forEach((k) => o[k] === undefined || typeof o[k] === "number" || invalid(`${path}.${k}`, "expected a number"));
+}
+
+function checkConfig(v: unknown, path: string): QueryConfig {
+  try {
+    return readConfig(v).cfg;
+  } catch (error) {
+    if (error instanceof ConfigValidationError) invalid(path, error.issues.join("; "));
+    throw error;
+  }
+}
+
+function checkEntries(v: unknown, path: string) {
+  list(v, path).forEach((e, i) => {
+    const entry = object(e, `${path}[${i}]`);
+    texts(entry, ["entry_type", "citekey", "__raw"], `${path}[${i}]`);
+    Object.entries(entry).forEach(([k, value]) => value === undefined || typeof value === "string" || invalid(`${path}[${i}].${k}`, "expected text"));
+  });
+  return v as BibEntry[];
+}
+
+function checkDiagnostics(v: unknown, path: string) {
+  list(v, path).forEach((d, i) => texts(object(d, `${path}[${i}]`), ["message"], `${path}[${i}]`));
+}
+
+function checkRows(v: unknown, path: string) {
+  list(v, path).forEach((r, i) => {
+    const row = object(r, `${path}[${i}]`);
+    texts(row, ["CiteKey", "Title", "Authors", "Year", "Venue", "URL", "TitleRaw", "AbstractRaw", "KeywordsRaw"], `${path}[${i}]`, ["DOI", "Source"]);
+    object(row.MatchedTermsMap, `${path}[${i}].MatchedTermsMap`);
+  });
+}
+
+function checkSources(v: unknown, path: string) {
+  list(v, path).forEach((s, i) => {
+    const source = object(s, `${path}[${i}]`);
+    texts(source, ["id", "name", "format", "database"], `${path}[${i}]`);
+    if (!Object.keys(LIBRARY_FORMATS).includes(source.format as string)) invalid(`${path}[${i}].format`, `expected one of ${Object.keys(LIBRARY_FORMATS).join(", ")}`);
+    checkEntries(source.entries, `${path}[${i}].entries`);
+    object(source.stringDefs, `${path}[${i}].stringDefs`);
+    checkDiagnostics(source.diagnostics, `${path}[${i}].diagnostics`);
+  });
+  return v as LibrarySource[];
+}
+
+function checkRunOutput(v: unknown, path: string) {
+  const run = object(v, path);
+  (["matched", "partial", "unmatched"] as const).forEach((k) => checkRows(run[k], `${path}.${k}`));
+  const report = object(run.report, `${path}.report`);
+  numbers(report, ["total", "duplicates", "eligible", "matched", "partial", "unmatched"], `${path}.report`, ["filtered"]);
+  list(report.sources, `${path}.report.sources`);
+  if (report.filters !== undefined) list(report.filters, `${path}.report.filters`);
+  const stats = object(run.termStats, `${path}.termStats`);
+  numbers(stats, ["totalMatchedStudies"], `${path}.termStats`);
+  list(stats.overallTop, `${path}.termStats.overallTop`);
+  ["topByBlock", "perBlock", "overallFieldCounts"].forEach((k) => object(stats[k], `${path}.termStats.${k}`));
+  checkDiagnostics(run.diagnostics, `${path}.diagnostics`);
+  const duplicates = object(run.duplicates, `${path}.duplicates`);
+  (["clusters", "separated"] as const).forEach((k) =>
+    list(duplicates[k], `${path}.duplicates.${k}`).forEach((c, i) => {
+      const cluster = object(c, `${path}.duplicates.${k}[${i}]`);
+      checkEntries(cluster.members, `${path}.duplicates.${k}[${i}].members`);
+      checkEntries([cluster.merged], `${path}.duplicates.${k}[${i}].merged`);
+    }),
+  );
+  return v as RunOutput;
+}
+
+function checkVersions(v: unknown, path: string): QueryVersion[] {
+  return list(v, path).map((x, i) => {
+    const at = `${path}[${i}]`;
+    const version = object(x, at);
+    texts(version, ["id", "createdAt"], at);
+    numbers(version, ["number"], at);
+    object(version.report, `${at}.report`);
+    list(version.matched, `${at}.matched`).forEach((r, j) => texts(object(r, `${at}.matched[${j}]`), ["CiteKey", "Title"], `${at}.matched[${j}]`));
+    return { ...(version as QueryVersion), cfg: checkConfig(version.cfg, `${at}.cfg`) };
+  });
+}
+
+function checkScreening(v: unknown, path: string): ScreeningState {
+  if (v === undefined) return EMPTY_SCREENING;
+  const screening = object(v, path);
+  const reasons = screening.reasons === undefined ? EMPTY_SCREENING.reasons : list(screening.reasons, `${path}.reasons`);
+  reasons.forEach((r, i) => typeof r === "string" || invalid(`${path}.reasons[${i}]`, "expected text"));
+  return { decisions: screening.decisions === undefined ? {} : readDecisions(screening.decisions, `${path}.decisions`), reasons };
+}
+
+function checkReview(v: unknown, path: string): DualReviewState {
+  if (v === undefined) return EMPTY_REVIEW;
+  const review = object(v, path);
+  texts(review, [], path, ["reviewer"]);
+  numbers(review, [], path, ["round"]);
+  const sets = review.sets === undefined ? [] : list(review.sets, `${path}.sets`);
+  const history = review.history === undefined ? [] : list(review.history, `${path}.history`);
+  history.forEach((h, i) => numbers(object(h, `${path}.history[${i}]`), ["round", "compared", "agreements", "conflicts", "missing", "percentAgreement"], `${path}.history[${i}]`));
+  return {
+    ...EMPTY_REVIEW,
+    ...(review as Partial<DualReviewState>),
+    sets: sets.map((s, i) => {
+      try {
+        return parseDecisionSet(s);
+      } catch (error) {
+        return invalid(`${path}.sets[${i}]`, error instanceof Error ? error.message.replace(/\.$/, "") : String(error));
+      }
+    }),
+    history,
+  };
+}
+
+function checkMatchedBib(v: unknown, path: string): MatchedBib {
+  const bib = object(v, path);
+  object(bib.stringDefs, `${path}.stringDefs`);
+  return { entries: checkEntries(bib.entries, `${path}.entries`), stringDefs: bib.stringDefs as MatchedBib["stringDefs"] };
+}
+
+export async function readProjectArchive(file: Blob): Promise<ProjectArchive> {
+  const head = new Uint8Array(await file.slice(0, 2).arrayBuffer());
+  const gzipped = head[0] === 0x1f && head[1] === 0x8b;
+  if (gzipped && typeof DecompressionStream === "undefined") throw new Error("This browser cannot decompress project archives.");
+  const text = gzipped ? await new Response(file.stream().pipeThrough(new DecompressionStream("gzip"))).text() : await file.text();
+
+  let obj: Partial<ProjectArchive> | null;
+  try {
+    obj = JSON.parse(text);
+  } catch {
+    throw new Error("This file is not a project archive.");
+  }
+  if (!obj || obj.format !== "lsb-project" || !obj.project) throw new Error("This file is not a project archive.");
+
+  const p = obj.project;
+  if (p.cfg === undefined) throw new Error("The project archive has no query config.");
+  const now = new Date().toISOString();
+  return {
+    format: "lsb-project",
+    version: 1,
+    exportedAt: obj.exportedAt || "",
+    project: {
+      name: p.name || "Imported project",
+      createdAt: p.createdAt || now,
+      updatedAt: p.updatedAt || now,
+      cfg: checkConfig(p.cfg, "project.cfg"),
+      versions: p.versions === undefined ? [] : checkVersions(p.versions, "project.versions"),
+      screening: checkScreening(p.screening, "project.screening"),
+      review: checkReview(p.review, "project.review"),
+      thesaurus: p.thesaurus && Array.isArray(p.thesaurus.concepts) ? p.thesaurus : null,
+      bib: typeof p.bib === "string" ? p.bib : "",
+      sources: p.sources === undefined ? [] : checkSources(p.sources, "project.sources"),
+      runOutput: p.runOutput == null ? null : checkRunOutput(p.runOutput, "project.runOutput"),
+      matchedBib: p.matchedBib === undefined ? EMPTY_LIBRARY.matchedBib : checkMatchedBib(p.matchedBib, "project.matchedBib"),
+    },
+  };
+}
+
+export async function importProjectArchive(file: Blob): Promise<Project> {
+  const { project } = await readProjectArchive(file);
+  const { name, cfg, versions, screening, review, thesaurus, bib, sources, runOutput, matchedBib } = project;
+  return createProject(name, { cfg, versions, screening, review, thesaurus }, { bib, sources, runOutput, matchedBib });
+}
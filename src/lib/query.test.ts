@@ -0,0 +1,134 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_DEDUP } from "@/lib/dedup";
+import { combineOperands, DEFAULT_FIELDS, evaluateQueryOnText, fromFlatQuery, makeBlock, makeGroup, parseProximity, toSmartWordPattern, type GroupNode, type QueryConfig } from "@/lib/query";
+
+const ALL_FIELDS = { title: true, abstract: true, keywords: true };
+
+const config = (query: GroupNode, patch: Partial<QueryConfig> = {}): QueryConfig => ({ query, caseInsensitive: true, decodeLatex: true, foldDiacritics: false, dedup: DEFAULT_DEDUP, fields: DEFAULT_FIELDS, searchFields: ALL_FIELDS, filters: [], ...patch });
+
+const matches = (pattern: string, text: string, flags = "i") => new RegExp(pattern, flags).test(text);
+
+describe("combineOperands", () => {
+  it("binds AND tighter than OR", () => {
+    expect(combineOperands([true, false, false], ["OR", "AND"])).toBe(true);
+    expect(combineOperands([false, true, false], ["OR", "AND"])).toBe(false);
+    expect(combineOperands([false, true, true], ["OR", "AND"])).toBe(true);
+  });
+
+  it("skips empty operands and returns null when nothing is left", () => {
+    expect(combineOperands([null, true], ["AND"])).toBe(true);
+    expect(combineOperands([null, null], ["OR"])).toBeNull();
+  });
+});
+
+describe("toSmartWordPattern", () => {
+  it("matches whole words and phrases", () => {
+    expect(matches(toSmartWordPattern("virtual reality", false), "in Virtual Reality today")).toBe(true);
+    expect(matches(toSmartWordPattern("art", false), "the party")).toBe(false);
+  });
+
+  it("expands * and ? wildcards", () => {
+    expect(matches(toSmartWordPattern("immers*", false), "immersive")).toBe(true);
+    expect(matches(toSmartWordPattern("wom?n", false), "women and men")).toBe(true);
+    expect(matches(toSmartWordPattern("wom?n", false), "wombat")).toBe(false);
+  });
+
+  it("escapes regex characters unless the term is a regex", () => {
+    expect(matches(toSmartWordPattern("c++ code", false), "c++ code")).toBe(true);
+    expect(toSmartWordPattern("colou?r", true)).toBe("colou?r");
+  });
+
+  it("expands whole words with a stem expander", () => {
+    const pattern = toSmartWordPattern("running study", false, (w) => (w === "running" ? ["running", "runs"] : [w]));
+    expect(matches(pattern, "it runs study")).toBe(true);
+  });
+});
+
+describe("parseProximity", () => {
+  it("splits operands and links", () => {
+    expect(parseProximity('"virtual reality" NEAR/3 training PRE/1 outcome')).toEqual({
+      operands: ["virtual reality", "training", "outcome"],
+      links: [
+        { operator: "NEAR", distance: 3 },
+        { operator: "PRE", distance: 1 },
+      ],
+    });
+    expect(parseProximity("plain term")).toBeNull();
+  });
+
+  it("respects distance and order", () => {
+    const near = toSmartWordPattern("vr NEAR/2 training", false);
+    expect(matches(near, "training with a new vr headset")).toBe(false);
+    expect(matches(near, "training with vr")).toBe(true);
+    expect(matches(toSmartWordPattern("vr PRE/2 training", false), "training with vr")).toBe(false);
+    expect(matches(toSmartWordPattern("vr PRE/2 training", false), "vr based training")).toBe(true);
+  });
+});
+
+describe("fromFlatQuery", () => {
+  it("nests a new group whenever the operator changes", () => {
+    const [a, b, c] = ["A", "B", "C"].map((n) => makeBlock(n, [n.toLowerCase()]));
+    const root = fromFlatQuery([a, b, c], ["OR", "AND"]);
+    expect(root.operators).toEqual(["AND"]);
+    expect(root.children[0]).toMatchObject({ kind: "group", operators: ["OR"] });
+  });
+});
+
+describe("evaluateQueryOnText", () => {
+  const vr = makeBlock("VR", ["virtual reality", "VR"]);
+  const study = makeBlock("Study", ["user study", "experiment*"]);
+  const review = makeBlock("Review", ["review"], { exclude: true });
+
+  it("requires every AND block and reports hits per block and field", () => {
+    const match = evaluateQueryOnText("", config(makeGroup([vr, study], ["AND"])));
+    const result = match({ title: "A VR experiment", abstract: "We ran a user study in virtual reality." }, ALL_FIELDS);
+    expect(result.ok).toBe(true);
+    expect(result.matchedBlocks).toEqual(["VR", "Study"]);
+    expect(result.detailed).toEqual({ VR: { title: ["VR"], abstract: ["virtual reality"] }, Study: { title: ["experiment*"], abstract: ["user study"] } });
+    expect(match({ title: "A VR headset" }, ALL_FIELDS).ok).toBe(false);
+  });
+
+  it("excludes records that match a NOT block and does not report its hits", () => {
+    const match = evaluateQueryOnText("", config(makeGroup([vr, review], ["AND"])));
+    expect(match({ title: "VR today" }, ALL_FIELDS).ok).toBe(true);
+    const excluded = match({ title: "A VR review" }, ALL_FIELDS);
+    expect(excluded.ok).toBe(false);
+    expect(excluded.matchedBlocks).toEqual(["VR"]);
+  });
+
+  it("only searches the selected fields", () => {
+    const match = evaluateQueryOnText("", config(makeGroup([vr])));
+    expect(match({ keywords: "virtual reality" }, { title: true, abstract: true, keywords: false }).ok).toBe(false);
+  });
+
+  it("searches a block only in its own fields when it has them", () => {
+    const titleOnly = makeBlock("VR", ["VR"], { fields: ["title"] });
+    const match = evaluateQueryOnText("", config(makeGroup([titleOnly, study], ["AND"])));
+    expect(match({ title: "A user study", abstract: "VR" }, ALL_FIELDS).ok).toBe(false);
+    expect(match({ title: "VR", abstract: "A user study" }, { title: false, abstract: true, keywords: false }).detailed).toEqual({ VR: { title: ["VR"] }, Study: { abstract: ["user study"] } });
+  });
+
+  it("searches custom fields", () => {
+    const match = evaluateQueryOnText("", config(makeGroup([vr]), { fields: [...DEFAULT_FIELDS, { id: "mesh", label: "MeSH", sources: ["mesh"] }] }));
+    expect(match({ mesh: "Virtual Reality" }, { ...ALL_FIELDS, mesh: true }).detailed).toEqual({ VR: { mesh: ["virtual reality"] } });
+    expect(match({ mesh: "Virtual Reality" }, ALL_FIELDS).ok).toBe(false);
+  });
+
+  it("honours case sensitivity and diacritic folding", () => {
+    const sensitive = evaluateQueryOnText("", config(makeGroup([makeBlock("VR", ["VR"])]), { caseInsensitive: false }));
+    expect(sensitive({ title: "vr" }, ALL_FIELDS).ok).toBe(false);
+    const folded = evaluateQueryOnText("", config(makeGroup([makeBlock("Cafe", ["cafe"])]), { foldDiacritics: true }));
+    expect(folded({ title: "Café culture" }, ALL_FIELDS).ok).toBe(true);
+  });
+
+  it("matches thesaurus expansions and stemmed word forms", () => {
+    const expanded = makeBlock("HMD", ["HMD"], { expansions: { HMD: ["head-mounted display"] } });
+    expect(evaluateQueryOnText("", config(makeGroup([expanded])))({ abstract: "a head-mounted display" }, ALL_FIELDS).detailed).toEqual({ HMD: { abstract: ["HMD"] } });
+    const stemmed = makeBlock("Train", ["training"], { stem: true });
+    expect(evaluateQueryOnText("", config(makeGroup([stemmed])))({ title: "They trained daily" }, ALL_FIELDS).ok).toBe(true);
+  });
+
+  it("treats an empty query as matching everything", () => {
+    expect(evaluateQueryOnText("", config(makeGroup([makeBlock("Empty", [""])])))({ title: "anything" }, ALL_FIELDS).ok).toBe(true);
+  });
+});
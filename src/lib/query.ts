@@ -0,0 +1,394 @@
+import { DEFAULT_DEDUP, type DedupOptions } from "@/lib/dedup";
+import { readFilters, type MetadataFilter } from "@/lib/filters";
+import { foldDiacritics } from "@/lib/latex";
+import { createStemExpander, type StemExpander } from "@/lib/stemmer";
+import { uid } from "@/lib/utils";
+
+export type Operator = "AND" | "OR";
+
+export type FieldName = string;
+
+export type SearchFields = Record<FieldName, boolean>;
+
+// `sources` lists BibTeX fields in order of preference; the first non-empty one is searched.
+export type FieldDefinition = {
+  id: FieldName;
+  label: string;
+  sources: string[];
+};
+
+export type Block = {
+  id: string;
+  name: string;
+  terms: string[];
+  isRegex?: boolean;
+  stem?: boolean;
+  exclude?: boolean;
+  expansions?: Record<string, string[]>;
+  fields?: FieldName[];
+};
+
+export type BlockNode = Block & { kind: "block" };
+
+export type GroupNode = {
+  kind: "group";
+  id: string;
+  name?: string;
+  exclude?: boolean;
+  children: QueryNode[];
+  operators: Operator[];
+};
+
+export type QueryNode = BlockNode | GroupNode;
+
+export type ConfigMetadata = {
+  author: string;
+  date: string;
+  description: string;
+  protocolId: string;
+};
+
+export type QueryConfig = {
+  query: GroupNode;
+  caseInsensitive: boolean;
+  decodeLatex: boolean;
+  foldDiacritics: boolean;
+  dedup: DedupOptions;
+  fields: FieldDefinition[];
+  searchFields: SearchFields;
+  filters: MetadataFilter[];
+  metadata?: ConfigMetadata;
+};
+
+export type FieldHits = Partial<Record<FieldName, string[]>>;
+
+export type MatchResult = {
+  ok: boolean;
+  matchedBlocks: string[];
+  detailed: Record<string, FieldHits>;
+};
+
+export type ProximityOperator = "NEAR" | "W" | "PRE";
+
+export type ProximityTerm = {
+  operands: string[];
+  links: Array<{ operator: ProximityOperator; distance: number }>;
+};
+
+export const FIELD_NAMES: FieldName[] = ["title", "abstract", "keywords"];
+
+export const DEFAULT_FIELDS: FieldDefinition[] = [
+  { id: "title", label: "Title", sources: ["title"] },
+  { id: "abstract", label: "Abstract", sources: ["abstract", "abs", "summary"] },
+  { id: "keywords", label: "Keywords", sources: ["keywords", "keyword"] },
+];
+
+export const DEFAULT_SEARCH_FIELDS: SearchFields = { title: true, abstract: true, keywords: true };
+
+export const MAX_FIELDS = 32;
+
+export const PROXIMITY_GROUP = "near";
+
+export function makeBlock(name: string, terms: string[] = [""], patch: Partial<Block> = {}): BlockNode {
+  return { kind: "block", id: uid(), name, terms, isRegex: false, ...patch };
+}
+
+export function termVariants(block: Block, term: string) {
+  return [term, ...(block.expansions?.[term.trim()] ?? [])];
+}
+
+export function makeGroup(children: QueryNode[] = [], operators: Operator[] = [], patch: Partial<GroupNode> = {}): GroupNode {
+  return { kind: "group", id: uid(), children, operators, ...patch };
+}
+
+export function blockLabel(b: Block, idx: number) {
+  return b.name || `Block ${idx + 1}`;
+}
+
+export function fieldLabel(cfg: Pick<QueryConfig, "fields">, id: FieldName) {
+  return cfg.fields.find((f) => f.id === id)?.label || id;
+}
+
+export function readField(entry: Record<string, string | undefined>, field: FieldDefinition) {
+  for (const source of field.sources) {
+    const value = entry[source];
+    if (value?.trim()) return value;
+  }
+  return "";
+}
+
+export function selectedFields(cfg: Pick<QueryConfig, "fields">, selected: SearchFields): FieldName[] {
+  return cfg.fields.filter((f) => selected[f.id]).map((f) => f.id);
+}
+
+// A block with its own field list ignores the global selection.
+export function blockFields(block: Block, cfg: Pick<QueryConfig, "fields">, selected: SearchFields): FieldName[] {
+  if (!block.fields) return selectedFields(cfg, selected);
+  const own = new Set(block.fields);
+  return cfg.fields.filter((f) => own.has(f.id)).map((f) => f.id);
+}
+
+export function searchedFields(cfg: Pick<QueryConfig, "fields" | "query">, selected: SearchFields): FieldName[] {
+  const used = new Set(selectedFields(cfg, selected));
+  listBlocks(cfg.query).forEach((b) => b.fields?.forEach((f) => used.add(f)));
+  return cfg.fields.filter((f) => used.has(f.id)).map((f) => f.id);
+}
+
+export function fromFlatQuery(blocks: Block[], operators: Operator[]): GroupNode {
+  const nodes: BlockNode[] = blocks.map((b) => ({ ...b, kind: "block" }));
+  let root = makeGroup(nodes.slice(0, 1));
+  nodes.slice(1).forEach((node, i) => {
+    const op = operators[i] || "AND";
+    if (root.operators.every((o) => o === op)) {
+      root.children.push(node);
+      root.operators.push(op);
+    } else {
+      root = makeGroup([root, node], [op]);
+    }
+  });
+  return root;
+}
+
+export function listBlocks(node: QueryNode): Block[] {
+  if (node.kind === "block") return [node];
+  return node.children.flatMap(listBlocks);
+}
+
+export function listPositiveBlocks(node: QueryNode, negated = false): Block[] {
+  const neg = negated !== !!node.exclude;
+  if (node.kind === "block") return neg ? [] : [node];
+  return node.children.flatMap((c) => listPositiveBlocks(c, neg));
+}
+
+export function positiveBlockLabels(root: QueryNode): string[] {
+  const positive = new Set(listPositiveBlocks(root).map((b) => b.id));
+  return listBlocks(root)
+    .map((b, idx) => (positive.has(b.id) ? blockLabel(b, idx) : ""))
+    .filter(Boolean);
+}
+
+function mapGroups(node: QueryNode, fn: (g: GroupNode) => GroupNode): QueryNode {
+  if (node.kind === "block") return node;
+  return fn({ ...node, children: node.children.map((c) => mapGroups(c, fn)) });
+}
+
+export function updateNode(root: GroupNode, id: string, patch: Partial<BlockNode> | Partial<GroupNode>): GroupNode {
+  if (root.id === id) return { ...root, ...(patch as Partial<GroupNode>) };
+  return mapGroups(root, (g) => ({
+    ...g,
+    children: g.children.map((c) => (c.id === id ? ({ ...c, ...patch } as QueryNode) : c)),
+  })) as GroupNode;
+}
+
+export function insertNode(root: GroupNode, parentId: string, index: number, node: QueryNode, op: Operator = "AND"): GroupNode {
+  return mapGroups(root, (g) => {
+    if (g.id !== parentId) return g;
+    const children = [...g.children.slice(0, index), node, ...g.children.slice(index)];
+    const operators = [...g.operators];
+    if (g.children.length > 0) operators.splice(Math.max(0, Math.min(index, operators.length)), 0, op);
+    return { ...g, children, operators };
+  }) as GroupNode;
+}
+
+export function removeNode(root: GroupNode, id: string): GroupNode {
+  return mapGroups(root, (g) => {
+    const idx = g.children.findIndex((c) => c.id === id);
+    if (idx === -1) return g;
+    const operators = [...g.operators];
+    if (operators.length > 0) operators.splice(idx === 0 ? 0 : idx - 1, 1);
+    return { ...g, children: g.children.filter((c) => c.id !== id), operators };
+  }) as GroupNode;
+}
+
+export function setOperator(root: GroupNode, groupId: string, index: number, op: Operator): GroupNode {
+  return mapGroups(root, (g) => {
+    if (g.id !== groupId) return g;
+    const operators = [...g.operators];
+    operators[index] = op;
+    return { ...g, operators };
+  }) as GroupNode;
+}
+
+export function retainBlockFields(node: GroupNode, ids: Set<FieldName>): GroupNode {
+  const visit = (n: QueryNode): QueryNode => {
+    if (n.kind === "group") return { ...n, children: n.children.map(visit) };
+    if (!n.fields || n.fields.every((f) => ids.has(f))) return n;
+    const fields = n.fields.filter((f) => ids.has(f));
+    return { ...n, fields: fields.length ? fields : undefined };
+  };
+  return visit(node) as GroupNode;
+}
+
+export function combineOperands(values: Array<boolean | null>, operators: Operator[]): boolean | null {
+  let result: boolean | null = null;
+  let run: boolean | null = null;
+  values.forEach((v, i) => {
+    if (v === null) return;
+    if (run === null) {
+      run = v;
+      return;
+    }
+    if (operators[i - 1] === "OR") {
+      result = result === null ? run : result || run;
+      run = v;
+    } else {
+      run = run && v;
+    }
+  });
+  if (run === null) return result;
+  return result === null ? run : result || run;
+}
+
+export function normalizeConfig(obj: unknown): QueryConfig | null {
+  if (!obj || typeof obj !== "object") return null;
+  const o = obj as Partial<QueryConfig> & { blocks?: Block[]; operators?: Operator[] };
+  const base = {
+    caseInsensitive: o.caseInsensitive ?? true,
+    decodeLatex: o.decodeLatex ?? true,
+    foldDiacritics: o.foldDiacritics ?? false,
+    dedup: { ...DEFAULT_DEDUP, ...(o.dedup || {}), policy: { ...DEFAULT_DEDUP.policy, ...(o.dedup?.policy || {}) } },
+    fields: o.fields?.length ? o.fields : DEFAULT_FIELDS,
+    searchFields: { ...DEFAULT_SEARCH_FIELDS, ...(o.searchFields || {}) },
+    filters: readFilters(o.filters),
+    ...(o.metadata ? { metadata: o.metadata } : {}),
+  };
+  if (o.query && o.query.kind === "group") return { ...base, query: o.query };
+  if (Array.isArray(o.blocks) && Array.isArray(o.operators)) return { ...base, query: fromFlatQuery(o.blocks, o.operators) };
+  return null;
+}
+
+export function safeRegExp(pattern: string, flags: string) {
+  try {
+    return new RegExp(pattern, flags);
+  } catch {
+    const escaped = pattern.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    return new RegExp(escaped, flags);
+  }
+}
+
+export function hasRegexMeta(s: string) {
+  return /[\\.^$|()[\]?+{}]/.test(s);
+}
+
+function escapeWithWildcards(s: string, expand?: StemExpander): string {
+  if (expand) return s.replace(/[\w*?]+|[^\w*?]+/g, (part) => (/^\w+$/.test(part) ? `(?:${expand(part).join("|")})` : escapeWithWildcards(part)));
+  return s
+    .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    .replace(/\*/g, "[\\w-]*")
+    .replace(/\?/g, "\\w");
+}
+
+export function parseProximity(term: string): ProximityTerm | null {
+  const parts = term.trim().split(/\s+(NEAR|W|PRE)\/(\d+)\s+/i);
+  if (parts.length < 4) return null;
+  const operands: string[] = [];
+  const links: ProximityTerm["links"] = [];
+  for (let i = 0; i < parts.length; i += 3) {
+    operands.push(parts[i].trim().replace(/^"(.*)"$/, "$1").trim());
+    if (i + 2 < parts.length) links.push({ operator: parts[i + 1].toUpperCase() as ProximityOperator, distance: Number(parts[i + 2]) });
+  }
+  return operands.every(Boolean) ? { operands, links } : null;
+}
+
+// NEAR/n and W/n match both orders, PRE/n only left before right; n is the number of words
+// allowed between the operands. Each operand is a named group so it can be highlighted alone.
+function proximityPattern(p: ProximityTerm, isRegex: boolean, expand?: StemExpander) {
+  let group = 0;
+  const operand = (i: number) => `(?<${PROXIMITY_GROUP}${group++}>${toSmartWordPattern(p.operands[i], isRegex, expand)})`;
+  const build = (k: number): string => {
+    if (k === 0) return operand(0);
+    const { operator, distance } = p.links[k - 1];
+    const gap = `(?:\\W+\\w+){0,${distance}}\\W+`;
+    const forward = `${build(k - 1)}${gap}${operand(k)}`;
+    return operator === "PRE" ? forward : `(?:${forward}|${operand(k)}${gap}${build(k - 1)})`;
+  };
+  return build(p.operands.length - 1);
+}
+
+// With an expander (stemmed blocks) every whole word is replaced by its word forms; those are
+// lower case, so the pattern must be used case-insensitively.
+export function toSmartWordPattern(term: string, isRegex: boolean, expand?: StemExpander): string {
+  const t = term.trim();
+
+  const proximity = parseProximity(t);
+  if (proximity) return proximityPattern(proximity, isRegex, expand);
+
+  if (isRegex && hasRegexMeta(t)) return t;
+
+  const trailingStar = /\*$/.test(t);
+  if (trailingStar) {
+    const stem = escapeWithWildcards(t.slice(0, -1));
+    return `\\b${stem}[\\w-]*`;
+  }
+
+  return `\\b${escapeWithWildcards(t, expand)}\\b`;
+}
+
+export function evaluateQueryOnText(_text: string, cfg: QueryConfig) {
+  const flags = cfg.caseInsensitive ? "i" : "";
+  const prep = (t: string) => (cfg.foldDiacritics ? foldDiacritics(t) : t);
+  const compiled = new Map<string, { name: string; block: Block; terms: string[]; variants: string[][]; isRegex: boolean; regexes: RegExp[][] | null }>();
+  listBlocks(cfg.query).forEach((b, idx) => {
+    const terms = (b.terms || []).filter((t) => t.trim().length > 0);
+    if (terms.length === 0) return;
+    compiled.set(b.id, {
+      name: blockLabel(b, idx),
+      block: b,
+      terms,
+      variants: terms.map((t) => termVariants(b, t)),
+      isRegex: !!b.isRegex,
+      regexes: b.stem ? null : terms.map((t) => termVariants(b, t).map((v) => safeRegExp(toSmartWordPattern(prep(v), !!b.isRegex), flags))),
+    });
+  });
+
+  return function matchesByFields(fields: Partial<Record<FieldName, string>>, selected: SearchFields): MatchResult {
+    const searched = new Set(searchedFields(cfg, selected));
+    const texts: Record<FieldName, string> = Object.fromEntries(cfg.fields.map((f) => [f.id, searched.has(f.id) ? prep(fields[f.id] || "") : ""]));
+
+    const matchedBlocks: string[] = [];
+    const detailed: Record<string, FieldHits> = {};
+    let expand: StemExpander | undefined;
+
+    const blockHitAtLeastOne = (id: string, negated: boolean) => {
+      const c = compiled.get(id);
+      if (!c) return null;
+      expand ||= c.regexes ? undefined : createStemExpander(Object.values(texts).join(" ").toLowerCase().match(/\w+/g) ?? []);
+      const regexes = c.regexes ?? c.variants.map((vs) => vs.map((v) => safeRegExp(toSmartWordPattern(prep(v), c.isRegex, expand), c.isRegex && hasRegexMeta(v) ? flags : "i")));
+      let any = false;
+      const perFieldHits: FieldHits = {};
+      blockFields(c.block, cfg, selected).forEach((field) => {
+        const t = texts[field];
+        if (!t) return;
+        const hits: string[] = [];
+        regexes.forEach((res, i) => {
+          if (res.some((re) => re.test(t))) hits.push(c.terms[i]);
+        });
+        if (hits.length > 0) {
+          perFieldHits[field] = hits;
+          any = true;
+        }
+      });
+      if (any && !negated) {
+        detailed[c.name] = perFieldHits;
+        matchedBlocks.push(c.name);
+      }
+      return any;
+    };
+
+    const evalNode = (node: QueryNode, negated: boolean): boolean | null => {
+      const neg = negated !== !!node.exclude;
+      const v =
+        node.kind === "block"
+          ? blockHitAtLeastOne(node.id, neg)
+          : combineOperands(
+              node.children.map((c) => evalNode(c, neg)),
+              node.operators
+            );
+      if (v === null) return null;
+      return node.exclude ? !v : v;
+    };
+
+    const val = evalNode(cfg.query, false);
+    return { ok: val ?? true, matchedBlocks, detailed };
+  };
+}
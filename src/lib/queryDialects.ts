@@ -0,0 +1,144 @@
+import type { FieldName } from "@/lib/query";
+
+export type QueryDialect = "generic" | "scopus" | "wos" | "pubmed";
+
+export type FieldTag = {
+  fields: FieldName[] | null;
+  length: number;
+  note?: string;
+};
+
+export type FrontEnd = {
+  id: QueryDialect;
+  label: string;
+  quotes?: Record<string, string>;
+  wordBreak?: RegExp;
+  prefix?: (src: string, i: number) => FieldTag | null;
+  suffix?: (src: string, i: number) => FieldTag | null;
+  clause?: (src: string, i: number) => number;
+  operator?: (word: string) => { kind: "and" | "or" | "not"; note?: string } | null;
+  term?: (value: string, note: (msg: string) => void) => string;
+};
+
+const ALL: FieldName[] = ["title", "abstract", "keywords"];
+
+const SCOPUS_CODES: Record<string, FieldTag["fields"]> = {
+  "TITLE-ABS-KEY": ALL,
+  "TITLE-ABS": ["title", "abstract"],
+  TITLE: ["title"],
+  ABS: ["abstract"],
+  KEY: ["keywords"],
+  AUTHKEY: ["keywords"],
+  INDEXTERMS: ["keywords"],
+  ALL,
+};
+
+const WOS_CODES: Record<string, FieldTag["fields"]> = {
+  TS: ALL,
+  TI: ["title"],
+  AB: ["abstract"],
+  AK: ["keywords"],
+  KP: ["keywords"],
+  ALL,
+};
+
+const PUBMED_TAGS: Record<string, FieldTag["fields"]> = {
+  tiab: ["title", "abstract"],
+  "title/abstract": ["title", "abstract"],
+  ti: ["title"],
+  title: ["title"],
+  ab: ["abstract"],
+  abstract: ["abstract"],
+  ot: ["keywords"],
+  "other term": ["keywords"],
+  kw: ["keywords"],
+  keyword: ["keywords"],
+  mh: ["keywords"],
+  mesh: ["keywords"],
+  "mesh terms": ["keywords"],
+  majr: ["keywords"],
+  "mesh major topic": ["keywords"],
+  sh: ["keywords"],
+  tw: ALL,
+  "text word": ALL,
+  all: ALL,
+  "all fields": ALL,
+};
+
+function skipBalanced(src: string, open: number) {
+  let depth = 0;
+  for (let j = open; j < src.length; j++) {
+    if (src[j] === "(") depth++;
+    else if (src[j] === ")" && --depth === 0) return j + 1;
+  }
+  return src.length;
+}
+
+export const FRONT_ENDS: Record<QueryDialect, FrontEnd> = {
+  generic: { id: "generic", label: "Generic Boolean" },
+  scopus: {
+    id: "scopus",
+    label: "Scopus",
+    quotes: { "{": "}" },
+    prefix: (src, i) => {
+      const m = src.slice(i).match(/^([A-Za-z][A-Za-z0-9-]*)(?=\s*\()/);
+      if (!m) return null;
+      const code = m[1].toUpperCase();
+      if (code === "AND" || code === "OR" || code === "NOT") return null;
+      if (code in SCOPUS_CODES) {
+        const note = code === "ALL" ? "Scopus ALL() also searches full text and references; imported as title, abstract and keywords." : code === "INDEXTERMS" ? "Scopus INDEXTERMS() was imported as keywords." : undefined;
+        return { fields: SCOPUS_CODES[code], length: m[0].length, note };
+      }
+      return m[1] === code ? { fields: null, length: m[0].length } : null;
+    },
+    clause: (src, i) => {
+      const rest = src.slice(i);
+      if (/^(?:LIMIT-TO|EXCLUDE)\s*\(/i.test(rest)) return skipBalanced(src, src.indexOf("(", i)) - i;
+      return rest.match(/^(?:PUBYEAR|PUBDATETXT|LOAD-DATE)\s*(?:>=|<=|>|<|=|AFT|BEF|IS)\s*\d+/i)?.[0].length ?? 0;
+    },
+    operator: (word) => (/^(?:W|PRE)\/\d+$/i.test(word) ? { kind: "and", note: `Proximity operator ${word} was imported as AND.` } : null),
+  },
+  wos: {
+    id: "wos",
+    label: "Web of Science",
+    prefix: (src, i) => {
+      const m = src.slice(i).match(/^([A-Za-z]{2,3})\s*=\s*/);
+      if (!m) return null;
+      const code = m[1].toUpperCase();
+      if (!(code in WOS_CODES)) return { fields: null, length: m[0].length };
+      const note = code === "TS" ? "Web of Science TS= also covers Keywords Plus; imported as title, abstract and keywords." : code === "KP" ? "Web of Science Keywords Plus (KP=) was imported as keywords." : undefined;
+      return { fields: WOS_CODES[code], length: m[0].length, note };
+    },
+    operator: (word) => (/^(?:NEAR(?:\/\d+)?|SAME)$/i.test(word) ? { kind: "and", note: `Proximity operator ${word} was imported as AND.` } : null),
+    term: (value, note) => {
+      if (!value.includes("$")) return value;
+      note(`Web of Science "$" (zero or one character) in "${value}" was imported as "?".`);
+      return value.replace(/\$/g, "?");
+    },
+  },
+  pubmed: {
+    id: "pubmed",
+    label: "PubMed",
+    wordBreak: /\[/,
+    suffix: (src, i) => {
+      const m = src.slice(i).match(/^\s*\[([^\]]+)\]/);
+      if (!m) return null;
+      const [tag, option] = m[1].trim().toLowerCase().split(":");
+      const fields = PUBMED_TAGS[tag] ?? null;
+      let note: string | undefined;
+      if (fields && /^(mh|mesh|mesh terms|majr|mesh major topic|sh)$/.test(tag)) note = "MeSH headings were imported as keyword text; records are only matched if the heading appears in their keywords.";
+      else if (fields && /^(tw|text word|all|all fields)$/.test(tag)) note = `PubMed [${tag}] searches more than title, abstract and keywords; imported as those three fields.`;
+      else if (option?.startsWith("~")) note = `PubMed proximity search [${m[1]}] was imported without the distance.`;
+      return { fields, length: m[0].length, note };
+    },
+  },
+};
+
+export const QUERY_DIALECTS = Object.values(FRONT_ENDS).map((f) => ({ id: f.id, label: f.label }));
+
+export function detectDialect(input: string): QueryDialect {
+  if (/\b(?:TITLE-ABS-KEY|TITLE-ABS|TITLE|ABS|KEY|AUTHKEY|LIMIT-TO)\s*\(|\bPUBYEAR\s*[<>=]/i.test(input)) return "scopus";
+  if (/\b(?:TS|TI|AB|AK|KP|PY|AU|SO)\s*=/i.test(input)) return "wos";
+  if (/\[[a-z][a-z /:~0-9]*\]/i.test(input)) return "pubmed";
+  return "generic";
+}
@@ -0,0 +1,177 @@
+import { filterLabel, isActiveFilter } from "@/lib/filters";
+import { listBlocks, type GroupNode, type QueryConfig, type QueryNode } from "@/lib/query";
+import type { RunOutput } from "@/lib/run";
+import { uid } from "@/lib/utils";
+
+export type VersionRecord = { CiteKey: string; Title: string };
+
+export type QueryVersion = {
+  id: string;
+  number: number;
+  createdAt: string;
+  cfg: QueryConfig;
+  report: RunOutput["report"];
+  matched: VersionRecord[];
+};
+
+export type BlockDiff = {
+  id: string;
+  name: string;
+  status: "added" | "removed" | "changed" | "unchanged";
+  addedTerms: string[];
+  removedTerms: string[];
+  changes: string[];
+};
+
+type ReportCount = Exclude<keyof RunOutput["report"], "sources" | "filters">;
+
+export type ReportDelta = { key: ReportCount; label: string; from: number; to: number };
+
+export type VersionDiff = {
+  blocks: BlockDiff[];
+  operators: string[];
+  settings: string[];
+  outline: { from: string; to: string } | null;
+  report: ReportDelta[];
+  entered: VersionRecord[];
+  left: VersionRecord[];
+};
+
+const REPORT_LABELS: { key: ReportDelta["key"]; label: string }[] = [
+  { key: "total", label: "Total entries" },
+  { key: "duplicates", label: "Duplicates removed" },
+  { key: "filtered", label: "Excluded by filters" },
+  { key: "eligible", label: "With selected fields" },
+  { key: "matched", label: "Matched" },
+  { key: "partial", label: "Partially matched" },
+  { key: "unmatched", label: "Unmatched" },
+];
+
+function nodeLabel(node: QueryNode, fallback: string) {
+  return node.name || fallback;
+}
+
+export function queryOutline(node: QueryNode): string {
+  const blocks = listBlocks(node);
+  const label = (n: QueryNode): string => {
+    const text = n.kind === "block" ? nodeLabel(n, `Block ${blocks.findIndex((b) => b.id === n.id) + 1}`) : `(${n.children.map((c, i) => (i ? `${n.operators[i - 1] || "AND"} ${label(c)}` : label(c))).join(" ")})`;
+    return n.exclude ? `NOT ${text}` : text;
+  };
+  const text = label(node);
+  return node.kind === "group" && !node.exclude ? text.slice(1, -1) : text;
+}
+
+function listGroups(node: QueryNode): GroupNode[] {
+  if (node.kind === "block") return [];
+  return [node, ...node.children.flatMap(listGroups)];
+}
+
+function sameVersion(a: QueryVersion, cfg: QueryConfig, matched: VersionRecord[]) {
+  return JSON.stringify(a.cfg) === JSON.stringify(cfg) && a.matched.length === matched.length && a.matched.every((r, i) => r.CiteKey === matched[i].CiteKey);
+}
+
+export function recordVersion(history: QueryVersion[], cfg: QueryConfig, report: RunOutput["report"], matched: VersionRecord[]): QueryVersion[] {
+  const last = history[history.length - 1];
+  if (last && sameVersion(last, cfg, matched)) return history;
+  const version: QueryVersion = { id: uid(), number: (last?.number ?? 0) + 1, createdAt: new Date().toISOString(), cfg, report, matched };
+  return [...history, version];
+}
+
+function diffBlocks(a: QueryConfig, b: QueryConfig): BlockDiff[] {
+  const from = listBlocks(a.query);
+  const to = listBlocks(b.query);
+  const used = new Set<string>();
+  const out: BlockDiff[] = [];
+
+  to.forEach((nb, idx) => {
+    const remaining = from.filter((x) => !used.has(x.id));
+    const ob = remaining.find((x) => x.id === nb.id) ?? remaining.find((x) => !!nb.name && x.name === nb.name);
+    const name = nb.name || `Block ${idx + 1}`;
+    if (!ob) {
+      out.push({ id: nb.id, name, status: "added", addedTerms: nb.terms.filter((t) => t.trim()), removedTerms: [], changes: [] });
+      return;
+    }
+    used.add(ob.id);
+    const oldTerms = new Set(ob.terms.map((t) => t.trim()).filter(Boolean));
+    const newTerms = new Set(nb.terms.map((t) => t.trim()).filter(Boolean));
+    const changes: string[] = [];
+    if ((ob.name || "") !== (nb.name || "")) changes.push(`Renamed from "${ob.name || "unnamed"}"`);
+    if (!!ob.isRegex !== !!nb.isRegex) changes.push(nb.isRegex ? "Regex turned on" : "Regex turned off");
+    if (!!ob.stem !== !!nb.stem) changes.push(nb.stem ? "Stemming turned on" : "Stemming turned off");
+    if (!!ob.exclude !== !!nb.exclude) changes.push(nb.exclude ? "NOT added" : "NOT removed");
+    if ((ob.fields ?? []).join("+") !== (nb.fields ?? []).join("+")) changes.push(nb.fields ? `Searches ${nb.fields.join(", ")}` : "Searches the selected fields");
+    [...newTerms].filter((t) => oldTerms.has(t) && !!ob.expansions?.[t] !== !!nb.expansions?.[t]).forEach((t) => changes.push(`Thesaurus expansion of "${t}" turned ${nb.expansions?.[t] ? "on" : "off"}`));
+    const addedTerms = [...newTerms].filter((t) => !oldTerms.has(t));
+    const removedTerms = [...oldTerms].filter((t) => !newTerms.has(t));
+    const changed = addedTerms.length > 0 || removedTerms.length > 0 || changes.length > 0;
+    out.push({ id: nb.id, name, status: changed ? "changed" : "unchanged", addedTerms, removedTerms, changes });
+  });
+
+  from.forEach((ob, idx) => {
+    if (!used.has(ob.id)) out.push({ id: ob.id, name: ob.name || `Block ${idx + 1}`, status: "removed", addedTerms: [], removedTerms: ob.terms.filter((t) => t.trim()), changes: [] });
+  });
+  return out;
+}
+
+function diffOperators(a: QueryConfig, b: QueryConfig): string[] {
+  const oldGroups = new Map(listGroups(a.query).map((g) => [g.id, g]));
+  const out: string[] = [];
+  listGroups(b.query).forEach((ng, gi) => {
+    const og = oldGroups.get(ng.id);
+    if (!og) return;
+    const groupName = nodeLabel(ng, gi === 0 ? "top level" : `group ${gi}`);
+    if (!!og.exclude !== !!ng.exclude) out.push(`NOT ${ng.exclude ? "added to" : "removed from"} ${groupName}`);
+    ng.operators.forEach((op, i) => {
+      const left = ng.children[i];
+      const right = ng.children[i + 1];
+      const oi = og.children.findIndex((c) => c.id === left?.id);
+      if (oi === -1 || og.children[oi + 1]?.id !== right?.id) return;
+      const oldOp = og.operators[oi] || "AND";
+      if (oldOp !== op) out.push(`${groupName}: ${nodeLabel(left, "group")} ${oldOp} ${nodeLabel(right, "group")} → ${op}`);
+    });
+  });
+  return out;
+}
+
+function diffSettings(a: QueryConfig, b: QueryConfig): string[] {
+  const out: string[] = [];
+  const flag = (label: string, x: boolean, y: boolean) => {
+    if (x !== y) out.push(`${label} turned ${y ? "on" : "off"}`);
+  };
+  flag("Case-insensitive matching", a.caseInsensitive, b.caseInsensitive);
+  flag("LaTeX decoding", a.decodeLatex, b.decodeLatex);
+  flag("Diacritic folding", a.foldDiacritics, b.foldDiacritics);
+  const before = new Map(a.fields.map((f) => [f.id, f]));
+  const after = new Map(b.fields.map((f) => [f.id, f]));
+  b.fields.forEach((f) => {
+    const old = before.get(f.id);
+    if (!old) out.push(`Field ${f.id} added`);
+    else if (old.sources.join("+") !== f.sources.join("+")) out.push(`Field ${f.id} now reads ${f.sources.join(", ")}`);
+  });
+  a.fields.forEach((f) => {
+    if (!after.has(f.id)) out.push(`Field ${f.id} removed`);
+  });
+  [...new Set([...before.keys(), ...after.keys()])].forEach((f) => flag(`Search in ${f}`, !!a.searchFields[f], !!b.searchFields[f]));
+  if (JSON.stringify(a.dedup) !== JSON.stringify(b.dedup)) out.push("Deduplication settings changed");
+  const filters = (cfg: QueryConfig) => (cfg.filters ?? []).filter(isActiveFilter).map(filterLabel);
+  const [oldFilters, newFilters] = [filters(a), filters(b)];
+  newFilters.filter((f) => !oldFilters.includes(f)).forEach((f) => out.push(`Filter added: ${f}`));
+  oldFilters.filter((f) => !newFilters.includes(f)).forEach((f) => out.push(`Filter removed: ${f}`));
+  return out;
+}
+
+export function diffVersions(a: QueryVersion, b: QueryVersion): VersionDiff {
+  const fromOutline = queryOutline(a.cfg.query);
+  const toOutline = queryOutline(b.cfg.query);
+  const before = new Set(a.matched.map((r) => r.CiteKey));
+  const after = new Set(b.matched.map((r) => r.CiteKey));
+  return {
+    blocks: diffBlocks(a.cfg, b.cfg),
+    operators: diffOperators(a.cfg, b.cfg),
+    settings: diffSettings(a.cfg, b.cfg),
+    outline: fromOutline === toOutline ? null : { from: fromOutline, to: toOutline },
+    report: REPORT_LABELS.map(({ key, label }) => ({ key, label, from: a.report[key] ?? 0, to: b.report[key] ?? 0 })),
+    entered: b.matched.filter((r) => !before.has(r.CiteKey)),
+    left: a.matched.filter((r) => !after.has(r.CiteKey)),
+  };
+}
@@ -0,0 +1,60 @@
+import type { LoadedConfig } from "@/lib/configFile";
+import type { LibrarySource } from "@/lib/importers";
+import { prismaCounts, type PrismaCounts } from "@/lib/prisma";
+import type { RunOutput } from "@/lib/run";
+import { EMPTY_SCREENING, getDecision, summarizeScreening, type ScreeningState } from "@/lib/screening";
+
+export type RunSummary = {
+  ok: true;
+  config: { file: string; migratedFrom: LoadedConfig["migratedFrom"]; warnings: string[]; metadata: LoadedConfig["cfg"]["metadata"] | null };
+  inputs: { file: string; format: LibrarySource["format"]; database: string; records: number; errors: number; warnings: number }[];
+  report: RunOutput["report"];
+  prisma: PrismaCounts;
+  duplicateClusters: number;
+  termStats: RunOutput["termStats"];
+  outputs: Record<string, string>;
+  durationMs: number;
+};
+
+function csvEscape(s: string) {
+  if (s == null) return "";
+  const needs = /[",\n]/.test(s);
+  const t = String(s).replace(/"/g, '""');
+  return needs ? `"${t}"` : t;
+}
+
+export function toCSV(rows: RunOutput["matched"], screening: ScreeningState = EMPTY_SCREENING) {
+  const headers = ["CiteKey", "Title", "Authors", "Year", "Venue", "URL/DOI", "Source", "Matched Blocks", "Matched Terms (by block & field)", "Decision", "Exclusion Reason", "Note"];
+  const body = rows
+    .map((r) => {
+      const d = getDecision(screening, r);
+      return [r.CiteKey, r.Title, r.Authors, r.Year, r.Venue, r.URL, r.Source, r.MatchedBlocks, r.MatchedTermsDetail, d?.decision ?? "", d?.reason ?? "", d?.note ?? ""].map(csvEscape).join(",");
+    })
+    .join("\n");
+  return headers.join(",") + "\n" + body;
+}
+
+export function runPrismaCounts(output: RunOutput, screening: ScreeningState = EMPTY_SCREENING) {
+  return prismaCounts(output.report, summarizeScreening(output.matched, screening));
+}
+
+export function buildRunSummary(configFile: string, loaded: LoadedConfig, sources: LibrarySource[], output: RunOutput, outputs: Record<string, string>, durationMs: number): RunSummary {
+  return {
+    ok: true,
+    config: { file: configFile, migratedFrom: loaded.migratedFrom, warnings: loaded.warnings, metadata: loaded.cfg.metadata ?? null },
+    inputs: sources.map((s) => ({
+      file: s.name,
+      format: s.format,
+      database: s.database,
+      records: s.entries.length,
+      errors: s.diagnostics.filter((d) => d.severity === "error").length,
+      warnings: s.diagnostics.filter((d) => d.severity === "warning").length,
+    })),
+    report: output.report,
+    prisma: runPrismaCounts(output),
+    duplicateClusters: output.duplicates.clusters.length,
+    termStats: output.termStats,
+    outputs,
+    durationMs,
+  };
+}
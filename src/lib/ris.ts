@@ -0,0 +1,174 @@
+import type { BibDiagnostic } from "@/lib/bibtex";
+import type { ImportedRecord, RecordParseResult } from "@/lib/importers";
+
+const RIS_TYPES: Record<string, string> = {
+  JOUR: "article",
+  JFULL: "article",
+  EJOUR: "article",
+  MGZN: "article",
+  NEWS: "article",
+  CONF: "inproceedings",
+  CPAPER: "inproceedings",
+  BOOK: "book",
+  EBOOK: "book",
+  EDBOOK: "book",
+  CHAP: "incollection",
+  ECHAP: "incollection",
+  THES: "phdthesis",
+  RPRT: "techreport",
+  UNPB: "unpublished",
+};
+
+const RIS_DATABASES: [RegExp, string][] = [
+  [/\bscopus\b/i, "Scopus"],
+  [/web of science|clarivate|\bisi\b/i, "Web of Science"],
+  [/pubmed|medline|\bnlm\b/i, "PubMed"],
+  [/\bieee/i, "IEEE Xplore"],
+  [/\bacm\b|association for computing machinery/i, "ACM Digital Library"],
+];
+
+type TaggedRecord = { line: number; tags: Record<string, string[]> };
+
+function readTagged(text: string, tagRe: RegExp, isEnd: (tag: string) => boolean, isStart: (tag: string) => boolean) {
+  const records: TaggedRecord[] = [];
+  let current: TaggedRecord | null = null;
+  let last: string | null = null;
+  const lines = text.replace(/^\uFEFF/, "").split(/\r?\n/);
+
+  lines.forEach((raw, idx) => {
+    const m = raw.match(tagRe);
+    if (m) {
+      const tag = m[1];
+      const value = (m[2] || "").trim();
+      if (isStart(tag) || !current) {
+        current = { line: idx + 1, tags: {} };
+        records.push(current);
+      }
+      if (isEnd(tag)) {
+        current = null;
+        last = null;
+        return;
+      }
+      (current.tags[tag] ||= []).push(value);
+      last = tag;
+    } else if (current && last && raw.trim()) {
+      const values = current.tags[last];
+      values[values.length - 1] = `${values[values.length - 1]} ${raw.trim()}`;
+    } else if (!raw.trim()) {
+      last = null;
+    }
+  });
+  return records.filter((r) => Object.keys(r.tags).length > 0);
+}
+
+function firstOf(tags: Record<string, string[]>, ...names: string[]) {
+  for (const n of names) {
+    const v = tags[n]?.find((s) => s.trim());
+    if (v) return v.trim();
+  }
+  return "";
+}
+
+function allOf(tags: Record<string, string[]>, ...names: string[]) {
+  return names.flatMap((n) => tags[n] || []).map((s) => s.trim()).filter(Boolean);
+}
+
+function splitKeywords(values: string[]) {
+  return values.flatMap((v) => v.split(/\s*;\s*/)).filter(Boolean);
+}
+
+export function detectDatabaseName(hint: string) {
+  return RIS_DATABASES.find(([re]) => re.test(hint))?.[1] ?? "";
+}
+
+export function parseRis(text: string): RecordParseResult {
+  const diagnostics: BibDiagnostic[] = [];
+  const tagged = readTagged(
+    text,
+    /^([A-Z][A-Z0-9])\s{1,2}-(?: (.*))?$/,
+    (tag) => tag === "ER",
+    (tag) => tag === "TY"
+  );
+  const records: ImportedRecord[] = [];
+  let database = "";
+
+  for (const { line, tags } of tagged) {
+    const type = firstOf(tags, "TY").toUpperCase();
+    if (!type) {
+      diagnostics.push({ severity: "error", message: "RIS record does not start with a TY tag", line, column: 1 });
+      continue;
+    }
+    const entryType = RIS_TYPES[type] ?? "misc";
+    const container = firstOf(tags, "T2", "JF", "JO", "BT", "JA", "J2");
+    const startPage = firstOf(tags, "SP");
+    const endPage = firstOf(tags, "EP");
+    const fields: Record<string, string> = {
+      title: firstOf(tags, "TI", "T1", "CT"),
+      author: allOf(tags, "AU", "A1").join(" and "),
+      year: firstOf(tags, "PY", "Y1", "DA").match(/\d{4}/)?.[0] ?? "",
+      abstract: firstOf(tags, "AB", "N2"),
+      keywords: splitKeywords(allOf(tags, "KW")).join("; "),
+      [entryType === "inproceedings" || entryType === "incollection" ? "booktitle" : "journal"]: container,
+      volume: firstOf(tags, "VL"),
+      number: firstOf(tags, "IS"),
+      pages: startPage && endPage ? `${startPage}--${endPage}` : startPage,
+      publisher: firstOf(tags, "PB"),
+      doi: firstOf(tags, "DO").replace(/^https?:\/\/(dx\.)?doi\.org\//i, ""),
+      url: firstOf(tags, "UR", "L2"),
+      issn: firstOf(tags, "SN"),
+      language: firstOf(tags, "LA"),
+    };
+    database ||= detectDatabaseName(`${firstOf(tags, "DB")} ${firstOf(tags, "DP")} ${fields.url}`);
+    records.push({ entry_type: entryType, citekey: firstOf(tags, "ID"), fields, line });
+  }
+
+  if (tagged.length === 0 && text.trim()) diagnostics.push({ severity: "error", message: 'No RIS records found; each record must start with "TY  - "', line: 1, column: 1 });
+  return { records, diagnostics, database };
+}
+
+const MEDLINE_TYPES: [RegExp, string][] = [
+  [/journal article|review|letter|editorial|comment/i, "article"],
+  [/congress|conference|meeting/i, "inproceedings"],
+  [/book chapter/i, "incollection"],
+  [/^book/i, "book"],
+  [/preprint/i, "unpublished"],
+];
+
+export function parseMedline(text: string): RecordParseResult {
+  const diagnostics: BibDiagnostic[] = [];
+  const tagged = readTagged(
+    text,
+    /^([A-Z]{1,4})\s*- (.*)$/,
+    () => false,
+    (tag) => tag === "PMID"
+  );
+  const records: ImportedRecord[] = [];
+
+  for (const { line, tags } of tagged) {
+    const pmid = firstOf(tags, "PMID");
+    const pubTypes = allOf(tags, "PT").join("; ");
+    const doi = allOf(tags, "LID", "AID")
+      .find((v) => /\[doi\]$/.test(v))
+      ?.replace(/\s*\[doi\]$/, "");
+    const fields: Record<string, string> = {
+      title: firstOf(tags, "TI", "BTI"),
+      author: (tags.FAU?.length ? allOf(tags, "FAU") : allOf(tags, "AU")).join(" and "),
+      year: firstOf(tags, "DP", "DEP").match(/\d{4}/)?.[0] ?? "",
+      abstract: firstOf(tags, "AB"),
+      keywords: [...allOf(tags, "OT"), ...allOf(tags, "MH").map((h) => h.replace(/\*/g, ""))].join("; "),
+      journal: firstOf(tags, "JT", "TA"),
+      volume: firstOf(tags, "VI"),
+      number: firstOf(tags, "IP"),
+      pages: firstOf(tags, "PG").replace(/-/g, "--"),
+      doi: doi ?? "",
+      pmid,
+      url: pmid ? `https://pubmed.ncbi.nlm.nih.gov/${pmid}/` : "",
+      language: firstOf(tags, "LA"),
+    };
+    const entryType = MEDLINE_TYPES.find(([re]) => re.test(pubTypes))?.[1] ?? "article";
+    records.push({ entry_type: entryType, citekey: "", fields, line });
+  }
+
+  if (tagged.length === 0 && text.trim()) diagnostics.push({ severity: "error", message: 'No PubMed records found; each record must start with "PMID- "', line: 1, column: 1 });
+  return { records, diagnostics, database: "PubMed" };
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_DEDUP } from "@/lib/dedup";
+import { parseLibrary } from "@/lib/importers";
+import { DEFAULT_FIELDS, makeBlock, makeGroup, type QueryConfig } from "@/lib/query";
+import { toCSV } from "@/lib/report";
+import { computeQueryCounts, executeRun } from "@/lib/run";
+
+const BIB = `@article{a, title={Virtual reality training}, abstract={A user study with novices.}, author={Doe, Jane}, year={2021}, journal={J. {VR}}, doi={10.1/a}}
+@article{b, title={Virtual reality, a review}, abstract={We review prior work.}, year={2020}}
+@article{c, title={Desktop training}, abstract={A user study.}, year={2019}}
+@article{d, title={Virtual Reality Training}, abstract={A user study with novices.}, year={2021}, doi={10.1/A}}
+@misc{e, note={no searchable fields}}`;
+
+const cfg: QueryConfig = {
+  query: makeGroup([makeBlock("VR", ["virtual reality"]), makeBlock("Study", ["user study", "experiment"]), makeBlock("Review", ["review"], { exclude: true })], ["AND", "AND"]),
+  caseInsensitive: true,
+  decodeLatex: true,
+  foldDiacritics: false,
+  dedup: DEFAULT_DEDUP,
+  fields: DEFAULT_FIELDS,
+  searchFields: { title: true, abstract: true, keywords: true },
+  filters: [],
+};
+
+const run = (patch: Partial<QueryConfig> = {}) => executeRun({ bib: "", sources: [parseLibrary("library.bib", BIB)], cfg: { ...cfg, ...patch } });
+
+describe("executeRun", () => {
+  it("reports matched, partial and unmatched records after removing duplicates", () => {
+    const { output, matchedBib } = run();
+    expect(output.report).toEqual({ total: 4, duplicates: 1, sources: [{ name: "library.bib", count: 5 }], filtered: 0, filters: [], eligible: 3, matched: 1, partial: 2, unmatched: 0 });
+    expect(output.matched.map((r) => r.CiteKey)).toEqual(["a"]);
+    expect(output.partial.map((r) => [r.CiteKey, r.MissingBlocks])).toEqual([
+      ["b", "Study"],
+      ["c", "VR"],
+    ]);
+    expect(matchedBib.entries.map((e) => e.citekey)).toEqual(["a"]);
+  });
+
+  it("fills the matched row from the entry", () => {
+    const [row] = run().output.matched;
+    expect(row).toMatchObject({ Title: "Virtual reality training", Authors: "Doe, Jane", Year: "2021", Venue: "J. VR", URL: "https://doi.org/10.1/a", Source: "library.bib", MatchedBlocks: "VR; Study" });
+    expect(row.MatchedTermsDetail).toBe("VR [Title: virtual reality]; Study [Abstract: user study]");
+  });
+
+  it("counts terms per block and field in the term statistics", () => {
+    const { termStats } = run().output;
+    expect(termStats.totalMatchedStudies).toBe(1);
+    expect(termStats.perBlock.Study).toEqual({ "user study": { docCount: 1, fields: { title: 0, abstract: 1, keywords: 0 } }, experiment: { docCount: 0, fields: { title: 0, abstract: 0, keywords: 0 } } });
+    expect(termStats.overallFieldCounts.title).toEqual({ "virtual reality": 1 });
+  });
+
+  it("searches custom fields through their aliases", () => {
+    const fields = [...DEFAULT_FIELDS, { id: "note", label: "Note", sources: ["annote", "note"] }];
+    const { output } = run({ fields, searchFields: { ...cfg.searchFields, note: true }, query: makeGroup([makeBlock("Searchable", ["searchable"])]) });
+    expect(output.report.eligible).toBe(4);
+    expect(output.matched.map((r) => [r.CiteKey, r.MatchedTermsDetail, r.FieldsRaw])).toEqual([["e", "Searchable [Note: searchable]", { note: "no searchable fields" }]]);
+  });
+
+  it("searches each block in its own fields", () => {
+    const titleOnly = makeGroup([makeBlock("VR", ["virtual reality"]), makeBlock("Study", ["user study"], { fields: ["title"] })], ["AND"]);
+    expect(run({ query: titleOnly }).output.report.matched).toBe(0);
+    const split = makeGroup([makeBlock("VR", ["virtual reality"], { fields: ["title"] }), makeBlock("Study", ["user study"])], ["AND"]);
+    expect(run({ query: split, searchFields: { title: false, abstract: true, keywords: false } }).output.matched.map((r) => r.CiteKey)).toEqual(["a"]);
+    expect(computeQueryCounts({ bib: "", sources: [parseLibrary("library.bib", BIB)], cfg: { ...cfg, query: split, searchFields: { title: false, abstract: true, keywords: false } } }).matched).toBe(1);
+  });
+
+  it("reports records removed by metadata filters as their own step", () => {
+    const filters = [
+      { id: "y", field: "year" as const, values: [], from: 2020, to: 2024 },
+      { id: "j", field: "venue" as const, values: ["J VR"], exclude: true },
+    ];
+    const { output } = run({ filters });
+    expect(output.report).toMatchObject({ total: 4, filtered: 3, filters: [{ label: "Year 2020–2024", count: 2 }, { label: "Venue is not J VR", count: 1 }], eligible: 1, matched: 0, partial: 1 });
+    expect(output.partial.map((r) => r.CiteKey)).toEqual(["b"]);
+    const counts = computeQueryCounts({ bib: "", sources: [parseLibrary("library.bib", BIB)], cfg: { ...cfg, filters } });
+    expect(counts).toMatchObject({ eligible: 1, filtered: 3, filters: { y: 2, j: 1 } });
+  });
+
+  it("keeps duplicates when deduplication is off", () => {
+    expect(run({ dedup: { ...DEFAULT_DEDUP, enabled: false } }).output.report.matched).toBe(2);
+  });
+
+  it("agrees with the live hit counts", () => {
+    const counts = computeQueryCounts({ bib: "", sources: [parseLibrary("library.bib", BIB)], cfg });
+    expect(counts.matched).toBe(run().output.report.matched);
+    expect(counts.eligible).toBe(run().output.report.eligible);
+  });
+
+  it("fails with the first parse error when nothing could be read", () => {
+    expect(() => executeRun({ bib: "@article{x, title={open", sources: [], cfg })).toThrow(/Line 1/);
+  });
+});
+
+describe("toCSV", () => {
+  it("quotes cells with commas, quotes and line breaks", () => {
+    const [row] = run().output.matched;
+    const csv = toCSV([{ ...row, Title: 'Say "hi", twice\nplease' }]);
+    expect(csv.split("\n")[0]).toBe("CiteKey,Title,Authors,Year,Venue,URL/DOI,Source,Matched Blocks,Matched Terms (by block & field),Decision,Exclusion Reason,Note");
+    expect(csv).toContain('a,"Say ""hi"", twice\nplease","Doe, Jane",2021');
+  });
+});
@@ -0,0 +1,359 @@
+import type { BibDiagnostic, BibEntry, BibStringDef } from "@/lib/bibtex";
+import { deduplicate, type DedupResult, type DuplicateCluster } from "@/lib/dedup";
+import { applyMetadataFilters, filterLabel, isActiveFilter, type FilterOutcome } from "@/lib/filters";
+import { combineSources, parseLibrary, type LibrarySource } from "@/lib/importers";
+import { foldDiacritics, latexToUnicode } from "@/lib/latex";
+import { blockLabel, DEFAULT_FIELDS, FIELD_NAMES, fieldLabel, listBlocks, positiveBlockLabels, readField, searchedFields, termVariants, type FieldHits, type FieldName, type QueryConfig } from "@/lib/query";
+import { buildSearchIndex, computeHitCounts, createIndexedMatcher, type FieldTexts, type HitCounts, type SearchIndex } from "@/lib/searchIndex";
+
+export type MatchedTermsMap = Record<string, FieldHits>;
+
+export type RecordRow = {
+  CiteKey: string;
+  Title: string;
+  Authors: string;
+  Year: string;
+  Venue: string;
+  URL: string;
+  DOI: string;
+  Source: string;
+  TitleRaw: string;
+  AbstractRaw: string;
+  KeywordsRaw: string;
+  FieldsRaw?: Record<FieldName, string>;
+  MatchedTermsMap: MatchedTermsMap;
+};
+
+export type MatchedRow = RecordRow & { MatchedBlocks: string; MatchedTermsDetail: string };
+
+export type PartialRow = RecordRow & { MatchedTermsDetail: string; PartialBlocks: string; MissingBlocks: string };
+
+export type FieldCounts = Record<FieldName, number>;
+
+export type TermStats = {
+  totalMatchedStudies: number;
+  overallTop: { term: string; docCount: number }[];
+  topByBlock: Record<string, { term: string; docCount: number; fields: FieldCounts }[]>;
+  perBlock: Record<string, Record<string, { docCount: number; fields: FieldCounts }>>;
+  overallFieldCounts: Record<FieldName, Record<string, number>>;
+};
+
+export type RunOutput = {
+  matched: MatchedRow[];
+  partial: PartialRow[];
+  unmatched: RecordRow[];
+  report: {
+    total: number;
+    duplicates: number;
+    sources: { name: string; count: number }[];
+    filtered: number;
+    filters: { label: string; count: number }[];
+    eligible: number;
+    matched: number;
+    partial: number;
+    unmatched: number;
+  };
+  termStats: TermStats;
+  diagnostics: BibDiagnostic[];
+  duplicates: { clusters: DuplicateCluster[]; separated: DuplicateCluster[] };
+};
+
+export type MatchedBib = {
+  entries: BibEntry[];
+  stringDefs: Record<string, BibStringDef>;
+};
+
+export type RunInput = {
+  bib: string;
+  sources: LibrarySource[];
+  cfg: QueryConfig;
+};
+
+export type RunPhase = "parse" | "dedup" | "filter" | "index" | "match" | "stats";
+
+export type RunProgress = {
+  phase: RunPhase;
+  done: number;
+  total: number;
+  matched: RunOutput["matched"];
+};
+
+export type RunResult = {
+  output: RunOutput;
+  matchedBib: MatchedBib;
+};
+
+export type RunCache = {
+  library?: { bib: string; sources: LibrarySource[]; combined: ReturnType<typeof combineSources> };
+  dedup?: { key: string; loaded: BibEntry[]; result: DedupResult };
+  filters?: { key: string; entries: BibEntry[]; outcome: FilterOutcome };
+  index?: { key: string; entries: BibEntry[]; records: FieldTexts[]; index: SearchIndex };
+};
+
+export type RunRequest = { id: number; type: "run" | "counts"; cfg: QueryConfig; library?: { bib: string; sources: LibrarySource[] } };
+
+export type RunWorkerMessage = { id: number } & ({ type: "progress"; progress: RunProgress } | { type: "done"; result: RunResult } | { type: "counts"; counts: HitCounts } | { type: "error"; message: string });
+
+export const RUN_PHASE_LABELS: Record<RunPhase, string> = {
+  parse: "Reading library",
+  dedup: "Removing duplicates",
+  filter: "Applying metadata filters",
+  index: "Indexing records",
+  match: "Matching records",
+  stats: "Computing term statistics",
+};
+
+const PROGRESS_CHUNK = 500;
+
+export function computeTermStats(rows: Pick<RecordRow, "MatchedTermsMap">[], cfg: QueryConfig): TermStats {
+  const overallDocCounts = new Map<string, number>();
+  const fieldIds = cfg.fields.map((f) => f.id);
+  const overallFieldCounts = new Map(fieldIds.map((f) => [f, new Map<string, number>()]));
+  const emptyCounts = (): FieldCounts => Object.fromEntries(fieldIds.map((f) => [f, 0]));
+
+  const perBlock: TermStats["perBlock"] = {};
+
+  for (const r of rows) {
+    const mtm = r.MatchedTermsMap || {};
+
+    const seenOverall = new Set<string>();
+    const seenInBlock = new Map<string, Set<string>>();
+
+    for (const [blockName, fields] of Object.entries(mtm)) {
+      perBlock[blockName] ||= {};
+      if (!seenInBlock.has(blockName)) seenInBlock.set(blockName, new Set());
+
+      fieldIds.forEach((f) => {
+        const terms = fields?.[f] || [];
+        for (const term of terms) {
+          const blk = (perBlock[blockName][term] ||= {
+            docCount: 0,
+            fields: emptyCounts(),
+          });
+          blk.fields[f]++;
+
+          const seenBlockSet = seenInBlock.get(blockName)!;
+          if (!seenBlockSet.has(term)) {
+            blk.docCount++;
+            seenBlockSet.add(term);
+          }
+
+          const counts = overallFieldCounts.get(f)!;
+          counts.set(term, (counts.get(term) || 0) + 1);
+
+          if (!seenOverall.has(term)) {
+            overallDocCounts.set(term, (overallDocCounts.get(term) || 0) + 1);
+            seenOverall.add(term);
+          }
+        }
+      });
+    }
+  }
+
+  listBlocks(cfg.query).forEach((b, idx) => {
+    const name = blockLabel(b, idx);
+    perBlock[name] ||= {};
+    (b.terms || []).forEach((raw) => {
+      const term = (raw || "").trim();
+      if (!term) return;
+      perBlock[name][term] ||= {
+        docCount: 0,
+        fields: emptyCounts(),
+      };
+    });
+  });
+
+  const overallTop = [...overallDocCounts.entries()].sort((a, b) => b[1] - a[1]).map(([term, docCount]) => ({ term, docCount }));
+
+  const topByBlock = Object.fromEntries(
+    Object.entries(perBlock).map(([blockName, termMap]) => {
+      const list = Object.entries(termMap)
+        .map(([term, v]) => ({
+          term,
+          docCount: v.docCount,
+          fields: v.fields,
+        }))
+        .sort((a, b) => b.docCount - a.docCount);
+      return [blockName, list];
+    })
+  );
+
+  return {
+    totalMatchedStudies: rows.length,
+    overallTop,
+    topByBlock,
+    perBlock,
+    overallFieldCounts: Object.fromEntries([...overallFieldCounts].map(([f, counts]) => [f, Object.fromEntries(counts)])),
+  };
+}
+
+function prepareIndex({ bib, sources, cfg }: RunInput, onProgress: (progress: RunProgress) => void, cache: RunCache) {
+  onProgress({ phase: "parse", done: 0, total: 0, matched: [] });
+  if (!cache.library || cache.library.bib !== bib || cache.library.sources !== sources) {
+    const pasted = bib.trim() ? [parseLibrary("Pasted BibTeX", bib, "bibtex")] : [];
+    cache.library = { bib, sources, combined: combineSources([...pasted, ...sources]) };
+  }
+  const { entries: loaded, stringDefs, diagnostics } = cache.library.combined;
+  if (loaded.length === 0 && (bib.trim() || sources.length > 0)) {
+    const firstError = diagnostics.find((d) => d.severity === "error");
+    throw new Error(firstError ? `No BibTeX entries could be read. Line ${firstError.line}, column ${firstError.column}: ${firstError.message}` : "No BibTeX entries found. Did you forget the '@' symbol?");
+  }
+
+  onProgress({ phase: "dedup", done: 0, total: loaded.length, matched: [] });
+  const dedupKey = JSON.stringify(cfg.dedup);
+  if (!cache.dedup || cache.dedup.key !== dedupKey || cache.dedup.loaded !== loaded) cache.dedup = { key: dedupKey, loaded, result: deduplicate(loaded, cfg.dedup) };
+  const { entries, clusters, separated, removed } = cache.dedup.result;
+  const decode = (value: string) => (cfg.decodeLatex ? latexToUnicode(value) : value);
+
+  onProgress({ phase: "filter", done: 0, total: entries.length, matched: [] });
+  const filterKey = JSON.stringify(cfg.filters);
+  if (!cache.filters || cache.filters.key !== filterKey || cache.filters.entries !== entries) cache.filters = { key: filterKey, entries, outcome: applyMetadataFilters(entries, cfg.filters) };
+
+  onProgress({ phase: "index", done: 0, total: entries.length, matched: [] });
+  const indexKey = `${cfg.decodeLatex}|${cfg.foldDiacritics}|${JSON.stringify(cfg.fields)}`;
+  if (!cache.index || cache.index.key !== indexKey || cache.index.entries !== entries) {
+    const records = entries.map((e): FieldTexts => Object.fromEntries(cfg.fields.map((f) => [f.id, decode(readField(e, f))])));
+    const texts = cfg.foldDiacritics ? records.map((r) => Object.fromEntries(Object.entries(r).map(([f, text]) => [f, foldDiacritics(text)]))) : records;
+    cache.index = { key: indexKey, entries, records, index: buildSearchIndex(texts, cfg.fields.map((f) => f.id)) };
+  }
+  return { loaded, stringDefs, diagnostics, entries, clusters, separated, removed, filter: cache.filters.outcome, records: cache.index.records, index: cache.index.index };
+}
+
+export function computeQueryCounts(input: RunInput, cache: RunCache = {}): HitCounts {
+  const { index, filter } = prepareIndex(input, () => {}, cache);
+  return computeHitCounts(index, input.cfg, filter);
+}
+
+export function executeRun(input: RunInput, onProgress: (progress: RunProgress) => void = () => {}, cache: RunCache = {}): RunResult {
+  const { cfg } = input;
+  const { loaded, stringDefs, diagnostics, entries, clusters, separated, removed, filter, records, index } = prepareIndex(input, onProgress, cache);
+  const decode = (value: string) => (cfg.decodeLatex ? latexToUnicode(value) : value);
+  const matcher = createIndexedMatcher(index, cfg);
+  const searched = searchedFields(cfg, cfg.searchFields);
+  const extraFields = cfg.fields.filter((f) => !FIELD_NAMES.includes(f.id) && searched.includes(f.id));
+  const builtIn = (e: BibEntry, record: FieldTexts, id: FieldName) => record[id] ?? decode(readField(e, DEFAULT_FIELDS.find((f) => f.id === id)!));
+  const allPosBlocks = positiveBlockLabels(cfg.query);
+  const blocksByName = new Map(listBlocks(cfg.query).map((b, idx) => [blockLabel(b, idx), b]));
+  const describeTerms = (blockName: string, terms: string[]) => {
+    const block = blocksByName.get(blockName);
+    return terms.map((t) => (block && termVariants(block, t).length > 1 ? `${t} (or ${termVariants(block, t).slice(1).join(", ")})` : t)).join(" | ");
+  };
+
+  let eligible = 0;
+  const matchedRows: MatchedRow[] = [];
+  const partialRows: PartialRow[] = [];
+  const unmatchedRows: RecordRow[] = [];
+  const matchedBibEntries: BibEntry[] = [];
+  let reported = 0;
+
+  entries.forEach((e, i) => {
+    const [title, abstract, keywords] = FIELD_NAMES.map((f) => builtIn(e, records[i], f));
+    const fieldsRaw = Object.fromEntries(extraFields.flatMap((f) => (records[i][f.id] ? [[f.id, records[i][f.id]]] : [])));
+
+    const hasAny = !!filter.passed[i] && searched.some((f) => records[i][f]);
+
+    const cleanTitle = title.replace(/\s+/g, " ").replace(/[{}]/g, "").trim();
+    const authors = decode(e.author || "").replace(/\s+/g, " ").trim();
+    const year = (e.year || "").trim();
+    const venue = decode(e.booktitle || e.journal || "").replace(/\s+/g, " ").trim();
+    const doi = (e.doi || "").trim();
+    const url = (e.url || (doi ? `https://doi.org/${doi}` : "")).trim();
+    const baseEntry = {
+      CiteKey: e.citekey,
+      Title: cleanTitle,
+      Authors: authors,
+      Year: year,
+      Venue: venue,
+      URL: url,
+      DOI: doi,
+      Source: e.__database ? `${e.__database} (${e.__source})` : (e.__source ?? ""),
+    };
+
+    if (hasAny) eligible++;
+
+    const { ok, matchedBlocks, detailed } = matcher(i, cfg.searchFields);
+
+    const detailPieces: string[] = [];
+    Object.entries(detailed).forEach(([blockName, fields]) => {
+      const parts = cfg.fields.flatMap((f) => (fields[f.id]?.length ? [`${fieldLabel(cfg, f.id)}: ${describeTerms(blockName, fields[f.id]!)}`] : []));
+      if (parts.length) detailPieces.push(`${blockName} [${parts.join("; ")}]`);
+    });
+
+    if (ok && hasAny) {
+      matchedRows.push({
+        ...baseEntry,
+        TitleRaw: title,
+        AbstractRaw: abstract,
+        KeywordsRaw: keywords,
+        FieldsRaw: fieldsRaw,
+        MatchedBlocks: matchedBlocks.join("; "),
+        MatchedTermsDetail: detailPieces.join("; "),
+        MatchedTermsMap: detailed,
+      });
+      matchedBibEntries.push(e);
+    } else if (hasAny && Object.keys(detailed).length > 0) {
+      const hitBlocks = Object.keys(detailed);
+      const missingBlocks = allPosBlocks.filter((n) => !hitBlocks.includes(n));
+
+      partialRows.push({
+        ...baseEntry,
+        TitleRaw: title,
+        AbstractRaw: abstract,
+        KeywordsRaw: keywords,
+        FieldsRaw: fieldsRaw,
+        MatchedTermsMap: detailed,
+        MatchedTermsDetail: detailPieces.join("; "),
+        PartialBlocks: hitBlocks.join("; "),
+        MissingBlocks: missingBlocks.join("; "),
+      });
+    } else if (hasAny) {
+      unmatchedRows.push({
+        ...baseEntry,
+        TitleRaw: title,
+        AbstractRaw: abstract,
+        KeywordsRaw: keywords,
+        FieldsRaw: fieldsRaw,
+        MatchedTermsMap: detailed,
+      });
+    }
+
+    if ((i + 1) % PROGRESS_CHUNK === 0 || i === entries.length - 1) {
+      onProgress({ phase: "match", done: i + 1, total: entries.length, matched: matchedRows.slice(reported) });
+      reported = matchedRows.length;
+    }
+  });
+
+  const perSource = new Map<string, number>();
+  for (const e of loaded) {
+    const name = e.__database || e.__source || "BibTeX";
+    perSource.set(name, (perSource.get(name) || 0) + 1);
+  }
+
+  const report = {
+    total: entries.length,
+    duplicates: removed,
+    sources: [...perSource].map(([name, count]) => ({ name, count })),
+    filtered: filter.excluded,
+    filters: cfg.filters.filter(isActiveFilter).map((f) => ({ label: filterLabel(f), count: filter.excludedBy[f.id] ?? 0 })),
+    eligible,
+    matched: matchedRows.length,
+    partial: partialRows.length,
+    unmatched: unmatchedRows.length,
+  };
+
+  onProgress({ phase: "stats", done: entries.length, total: entries.length, matched: [] });
+  const stats = computeTermStats(matchedRows, cfg);
+
+  return {
+    output: {
+      matched: matchedRows,
+      partial: partialRows,
+      unmatched: unmatchedRows,
+      report,
+      termStats: stats,
+      diagnostics,
+      duplicates: { clusters, separated },
+    },
+    matchedBib: { entries: matchedBibEntries, stringDefs },
+  };
+}
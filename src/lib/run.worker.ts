@@ -0,0 +1,18 @@
+import { computeQueryCounts, executeRun, type RunCache, type RunRequest, type RunWorkerMessage } from "@/lib/run";
+
+const cache: RunCache = {};
+let library: RunRequest["library"];
+
+const send = (message: RunWorkerMessage) => postMessage(message);
+
+onmessage = (e: MessageEvent<RunRequest>) => {
+  const { id, type, cfg } = e.data;
+  if (e.data.library) library = e.data.library;
+  try {
+    if (!library) throw new Error("No library was sent to the worker.");
+    if (type === "counts") send({ id, type: "counts", counts: computeQueryCounts({ ...library, cfg }, cache) });
+    else send({ id, type: "done", result: executeRun({ ...library, cfg }, (progress) => send({ id, type: "progress", progress }), cache) });
+  } catch (error) {
+    send({ id, type: "error", message: error instanceof Error ? error.message : String(error) });
+  }
+};
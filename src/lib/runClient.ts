@@ -0,0 +1,78 @@
+import type { RunInput, RunProgress, RunRequest, RunResult, RunWorkerMessage } from "@/lib/run";
+import type { HitCounts } from "@/lib/searchIndex";
+
+export class RunCancelledError extends Error {
+  constructor() {
+    super("The run was cancelled.");
+  }
+}
+
+export type RunHandle = {
+  result: Promise<RunResult>;
+  cancel: () => void;
+};
+
+type Replies = { run: RunResult; counts: HitCounts };
+
+type Pending = {
+  onProgress: (progress: RunProgress) => void;
+  resolve: (value: RunResult | HitCounts) => void;
+  reject: (error: Error) => void;
+};
+
+// The worker is kept between requests so it can reuse the parsed library, the search index and
+// cached term hits; the library is only posted again when it changed.
+let worker: Worker | null = null;
+let sentLibrary: RunRequest["library"];
+let nextId = 1;
+const pending = new Map<number, Pending>();
+
+function resetWorker(error: Error) {
+  worker?.terminate();
+  worker = null;
+  sentLibrary = undefined;
+  pending.forEach((p) => p.reject(error));
+  pending.clear();
+}
+
+function getWorker() {
+  if (worker) return worker;
+  worker = new Worker(new URL("./run.worker.ts", import.meta.url), { type: "module" });
+  worker.onmessage = (e: MessageEvent<RunWorkerMessage>) => {
+    const msg = e.data;
+    const p = pending.get(msg.id);
+    if (!p) return;
+    if (msg.type === "progress") return p.onProgress(msg.progress);
+    pending.delete(msg.id);
+    if (msg.type === "done") p.resolve(msg.result);
+    else if (msg.type === "counts") p.resolve(msg.counts);
+    else p.reject(new Error(msg.message));
+  };
+  worker.onerror = (e) => resetWorker(new Error(e.message || "The run failed in the background worker."));
+  return worker;
+}
+
+function send<T extends keyof Replies>(type: T, input: RunInput, onProgress: (progress: RunProgress) => void = () => {}) {
+  const current = getWorker();
+  const id = nextId++;
+  const unchanged = sentLibrary && sentLibrary.bib === input.bib && sentLibrary.sources === input.sources;
+  const request: RunRequest = { id, type, cfg: input.cfg, library: unchanged ? undefined : { bib: input.bib, sources: input.sources } };
+  sentLibrary = { bib: input.bib, sources: input.sources };
+  const reply = new Promise<Replies[T]>((resolve, reject) => pending.set(id, { onProgress, resolve: resolve as Pending["resolve"], reject }));
+  current.postMessage(request);
+  return { id, reply };
+}
+
+export function startRun(input: RunInput, onProgress: (progress: RunProgress) => void): RunHandle {
+  const { id, reply } = send("run", input, onProgress);
+  return {
+    result: reply,
+    cancel: () => {
+      if (pending.has(id)) resetWorker(new RunCancelledError());
+    },
+  };
+}
+
+export function requestHitCounts(input: RunInput): Promise<HitCounts> {
+  return send("counts", input).reply;
+}
@@ -0,0 +1,101 @@
+import { normalizeDoi } from "@/lib/dedup";
+
+export type ScreeningDecision = "include" | "exclude" | "maybe";
+
+export type ScreeningRecord = {
+  decision: ScreeningDecision;
+  reason?: string;
+  note?: string;
+  updatedAt: string;
+};
+
+export type ScreeningState = {
+  decisions: Record<string, ScreeningRecord>;
+  reasons: string[];
+};
+
+export type ScreeningSummary = {
+  total: number;
+  included: number;
+  excluded: number;
+  maybe: number;
+  undecided: number;
+  reasons: { reason: string; count: number }[];
+};
+
+export type ScreenableRow = { CiteKey: string; DOI?: string };
+
+export const DEFAULT_EXCLUSION_REASONS = ["Off-topic", "Wrong population", "Wrong intervention or exposure", "Wrong outcome", "Wrong study design", "Wrong publication type", "Not peer-reviewed", "Language"];
+
+export const EMPTY_SCREENING: ScreeningState = { decisions: {}, reasons: DEFAULT_EXCLUSION_REASONS };
+
+export const DECISION_LABELS: Record<ScreeningDecision, string> = {
+  include: "Include",
+  exclude: "Exclude",
+  maybe: "Maybe",
+};
+
+export function screeningKeys(row: ScreenableRow) {
+  const doi = normalizeDoi(row.DOI);
+  return doi ? [`doi:${doi}`, `key:${row.CiteKey}`] : [`key:${row.CiteKey}`];
+}
+
+export function getDecision(state: ScreeningState, row: ScreenableRow): ScreeningRecord | undefined {
+  for (const key of screeningKeys(row)) {
+    const found = state.decisions[key];
+    if (found) return found;
+  }
+  return undefined;
+}
+
+export function setDecision(state: ScreeningState, row: ScreenableRow, patch: Partial<ScreeningRecord> | null): ScreeningState {
+  const keys = screeningKeys(row);
+  const decisions = { ...state.decisions };
+  const previous = getDecision(state, row);
+  keys.forEach((k) => delete decisions[k]);
+  if (patch) {
+    const next = { ...previous, ...patch, updatedAt: new Date().toISOString() } as ScreeningRecord;
+    if (next.decision !== "exclude") delete next.reason;
+    decisions[keys[0]] = next;
+  }
+  return { ...state, decisions };
+}
+
+export function summarizeScreening(rows: ScreenableRow[], state: ScreeningState): ScreeningSummary {
+  const summary: ScreeningSummary = { total: rows.length, included: 0, excluded: 0, maybe: 0, undecided: 0, reasons: [] };
+  const reasons = new Map<string, number>();
+  for (const row of rows) {
+    const d = getDecision(state, row);
+    if (!d) summary.undecided++;
+    else if (d.decision === "include") summary.included++;
+    else if (d.decision === "maybe") summary.maybe++;
+    else {
+      summary.excluded++;
+      const reason = d.reason || "No reason given";
+      reasons.set(reason, (reasons.get(reason) || 0) + 1);
+    }
+  }
+  summary.reasons = [...reasons].map(([reason, count]) => ({ reason, count })).sort((a, b) => b.count - a.count);
+  return summary;
+}
+
+const isObject = (v: unknown): v is Record<string, unknown> => !!v && typeof v === "object" && !Array.isArray(v);
+
+// Throws with the path of the first decision that is not a well-formed screening record.
+export function readDecisions(v: unknown, path: string): Record<string, ScreeningRecord> {
+  if (!isObject(v)) throw new Error(`${path}: expected an object of decisions.`);
+  return Object.fromEntries(
+    Object.entries(v).map(([key, d]) => {
+      const at = `${path}["${key}"]`;
+      if (!isObject(d)) throw new Error(`${at}: expected a decision object.`);
+      if (!(d.decision === "include" || d.decision === "exclude" || d.decision === "maybe")) throw new Error(`${at}.decision: expected "include", "exclude" or "maybe".`);
+      for (const field of ["reason", "note", "updatedAt"]) {
+        if (d[field] !== undefined && typeof d[field] !== "string") throw new Error(`${at}.${field}: expected text.`);
+      }
+      const record: ScreeningRecord = { decision: d.decision, updatedAt: (d.updatedAt as string | undefined) ?? "" };
+      if (d.reason) record.reason = d.reason as string;
+      if (d.note) record.note = d.note as string;
+      return [key, record];
+    }),
+  );
+}
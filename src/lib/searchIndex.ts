@@ -0,0 +1,292 @@
+import { blockFields, blockLabel, combineOperands, hasRegexMeta, MAX_FIELDS, listBlocks, parseProximity, removeNode, searchedFields, termVariants, safeRegExp, toSmartWordPattern, type Block, type FieldHits, type FieldName, type MatchResult, type Operator, type QueryConfig, type QueryNode, type SearchFields } from "@/lib/query";
+import type { FilterOutcome } from "@/lib/filters";
+import { foldDiacritics } from "@/lib/latex";
+import { createStemExpander, type StemExpander } from "@/lib/stemmer";
+
+export type FieldTexts = Record<FieldName, string>;
+
+// Hit sets hold one bit per field, in the order of `fields`.
+export type SearchIndex = {
+  size: number;
+  fields: FieldName[];
+  texts: FieldTexts[];
+  postings: Record<FieldName, Map<string, number[]>>;
+  vocabulary: Record<FieldName, string[]>;
+  termHits: Map<string, Uint32Array>;
+  blockHits: Map<string, Uint32Array>;
+  stems?: StemExpander;
+};
+
+export type BlockCounts = {
+  hits: number;
+  contribution: number;
+  terms: Array<number | null>;
+  forms: Array<string[] | null>;
+};
+
+export type HitCounts = {
+  eligible: number;
+  matched: number;
+  filtered: number;
+  filters: Record<string, number>;
+  blocks: Record<string, BlockCounts>;
+};
+
+type Piece = { token: string; prefix: boolean; forms?: string[] };
+
+const CACHE_LIMIT = 500;
+
+export function buildSearchIndex(texts: FieldTexts[], fields: FieldName[]): SearchIndex {
+  if (fields.length > MAX_FIELDS) throw new Error(`At most ${MAX_FIELDS} fields can be searched.`);
+  const postings: SearchIndex["postings"] = Object.fromEntries(fields.map((f) => [f, new Map()]));
+  texts.forEach((doc, i) => {
+    for (const field of fields) {
+      const map = postings[field];
+      for (const [token] of (doc[field] || "").toLowerCase().matchAll(/\w+/g)) {
+        const list = map.get(token);
+        if (!list) map.set(token, [i]);
+        else if (list[list.length - 1] !== i) list.push(i);
+      }
+    }
+  });
+  const vocabulary = Object.fromEntries(fields.map((f) => [f, [...postings[f].keys()].sort()]));
+  return { size: texts.length, fields, texts, postings, vocabulary, termHits: new Map(), blockHits: new Map() };
+}
+
+export function fieldBit(index: SearchIndex, field: FieldName) {
+  const i = index.fields.indexOf(field);
+  return i < 0 ? 0 : 1 << i;
+}
+
+export function fieldBits(index: SearchIndex, fields: FieldName[]) {
+  return fields.reduce((bits, f) => bits | fieldBit(index, f), 0);
+}
+
+function lowerBound(sorted: string[], value: string) {
+  let lo = 0;
+  let hi = sorted.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (sorted[mid] < value) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+// Every whole word of a literal term must appear as a token (or token prefix for `word*`)
+// in a matching field, so the postings give an exact superset of the records to verify.
+function termPieces(term: string): Piece[] {
+  return term
+    .toLowerCase()
+    .split(/[^\w*?]+/)
+    .flatMap((p): Piece[] => (/^\w+$/.test(p) ? [{ token: p, prefix: false }] : /^\w+\*$/.test(p) ? [{ token: p.slice(0, -1), prefix: true }] : []));
+}
+
+function pieceDocs(index: SearchIndex, field: FieldName, piece: Piece) {
+  const marks = new Uint8Array(index.size);
+  const add = (docs: number[] | undefined) => docs?.forEach((d) => (marks[d] = 1));
+  if (!piece.prefix) (piece.forms ?? [piece.token]).forEach((form) => add(index.postings[field].get(form)));
+  else {
+    const vocab = index.vocabulary[field];
+    for (let i = lowerBound(vocab, piece.token); i < vocab.length && vocab[i].startsWith(piece.token); i++) add(index.postings[field].get(vocab[i]));
+  }
+  return marks;
+}
+
+function stemExpander(index: SearchIndex) {
+  return (index.stems ||= createStemExpander(new Set(index.fields.flatMap((f) => index.vocabulary[f]))));
+}
+
+export function stemForms(index: SearchIndex, term: string) {
+  const expand = stemExpander(index);
+  const operands = parseProximity(term)?.operands ?? [term];
+  return [...new Set(operands.flatMap(termPieces).flatMap((p) => (p.prefix ? [] : expand(p.token))))];
+}
+
+export function termFieldHits(index: SearchIndex, term: string, isRegex: boolean, flags: string, stem = false): Uint32Array {
+  const key = `${flags}\u0000${isRegex ? 1 : 0}${stem ? 1 : 0}\u0000${term}`;
+  const cached = index.termHits.get(key);
+  if (cached) return cached;
+
+  const t = term.trim();
+  const expand = stem && !(isRegex && hasRegexMeta(t)) ? stemExpander(index) : undefined;
+  const proximity = parseProximity(t);
+  const operands = proximity ? proximity.operands : [t];
+  const pieces = operands.flatMap((o) => (isRegex && hasRegexMeta(o) ? [] : termPieces(o))).map((p) => (expand && !p.prefix ? { ...p, forms: expand(p.token) } : p));
+  const exact = !proximity && !(isRegex && hasRegexMeta(t)) && (!!expand || flags.includes("i")) && /^\w+\*?$/.test(t);
+  const re = safeRegExp(toSmartWordPattern(term, isRegex, expand), expand ? "i" : flags);
+  const hits = new Uint32Array(index.size);
+
+  for (const field of index.fields) {
+    let candidates: Uint8Array | null = null;
+    for (const piece of pieces) {
+      const docs = pieceDocs(index, field, piece);
+      if (candidates) for (let d = 0; d < index.size; d++) candidates[d] &= docs[d];
+      else candidates = docs;
+    }
+    const bit = fieldBit(index, field);
+    for (let d = 0; d < index.size; d++) {
+      if (candidates && !candidates[d]) continue;
+      const text = index.texts[d][field];
+      if (text && (exact || re.test(text))) hits[d] |= bit;
+    }
+  }
+
+  if (index.termHits.size >= CACHE_LIMIT) index.termHits.clear();
+  index.termHits.set(key, hits);
+  return hits;
+}
+
+function queryTerm(term: string, cfg: QueryConfig) {
+  return cfg.foldDiacritics ? foldDiacritics(term) : term;
+}
+
+export function blockTerms(block: Block) {
+  return (block.terms || []).filter((t) => t.trim().length > 0);
+}
+
+function orHits(index: SearchIndex, variants: string[], block: Block, flags: string) {
+  const hits = new Uint32Array(index.size);
+  for (const term of variants) {
+    const th = termFieldHits(index, term, !!block.isRegex, flags, !!block.stem);
+    for (let d = 0; d < index.size; d++) hits[d] |= th[d];
+  }
+  return hits;
+}
+
+function termHits(index: SearchIndex, block: Block, term: string, cfg: QueryConfig) {
+  const flags = cfg.caseInsensitive ? "i" : "";
+  const variants = termVariants(block, term).map((v) => queryTerm(v, cfg));
+  return variants.length === 1 ? termFieldHits(index, variants[0], !!block.isRegex, flags, !!block.stem) : orHits(index, variants, block, flags);
+}
+
+export function blockHitSet(index: SearchIndex, block: Block, cfg: QueryConfig): Uint32Array {
+  const flags = cfg.caseInsensitive ? "i" : "";
+  const terms = blockTerms(block).flatMap((t) => termVariants(block, t).map((v) => queryTerm(v, cfg)));
+  const key = `${flags}\u0000${block.isRegex ? 1 : 0}${block.stem ? 1 : 0}\u0000${terms.join("\u0001")}`;
+  const cached = index.blockHits.get(key);
+  if (cached) return cached;
+  const hits = orHits(index, terms, block, flags);
+  if (index.blockHits.size >= CACHE_LIMIT) index.blockHits.clear();
+  index.blockHits.set(key, hits);
+  return hits;
+}
+
+export function createIndexedMatcher(index: SearchIndex, cfg: QueryConfig) {
+  const compiled = new Map<string, { name: string; block: Block; terms: string[]; any: Uint32Array; hits: Uint32Array[] }>();
+  listBlocks(cfg.query).forEach((b, idx) => {
+    const terms = blockTerms(b);
+    if (terms.length === 0) return;
+    compiled.set(b.id, {
+      name: blockLabel(b, idx),
+      block: b,
+      terms,
+      any: blockHitSet(index, b, cfg),
+      hits: terms.map((t) => termHits(index, b, t, cfg)),
+    });
+  });
+
+  return function matchRecord(doc: number, selected: SearchFields): MatchResult {
+    const matchedBlocks: string[] = [];
+    const detailed: Record<string, FieldHits> = {};
+
+    const blockHitAtLeastOne = (id: string, negated: boolean) => {
+      const c = compiled.get(id);
+      if (!c) return null;
+      const fields = blockFields(c.block, cfg, selected);
+      if (!(c.any[doc] & fieldBits(index, fields))) return false;
+      if (!negated) {
+        const perFieldHits: FieldHits = {};
+        fields.forEach((field) => {
+          const bit = fieldBit(index, field);
+          const hits = c.terms.filter((_, i) => c.hits[i][doc] & bit);
+          if (hits.length > 0) perFieldHits[field] = hits;
+        });
+        detailed[c.name] = perFieldHits;
+        matchedBlocks.push(c.name);
+      }
+      return true;
+    };
+
+    const evalNode = (node: QueryNode, negated: boolean): boolean | null => {
+      const neg = negated !== !!node.exclude;
+      const v =
+        node.kind === "block"
+          ? blockHitAtLeastOne(node.id, neg)
+          : combineOperands(
+              node.children.map((c) => evalNode(c, neg)),
+              node.operators
+            );
+      if (v === null) return null;
+      return node.exclude ? !v : v;
+    };
+
+    const val = evalNode(cfg.query, false);
+    return { ok: val ?? true, matchedBlocks, detailed };
+  };
+}
+
+function combineSets(values: Array<Uint8Array | null>, operators: Operator[]): Uint8Array | null {
+  const or = (into: Uint8Array, from: Uint8Array) => from.forEach((x, d) => (into[d] |= x));
+  let result: Uint8Array | null = null;
+  let run: Uint8Array | null = null;
+  for (const [i, v] of values.entries()) {
+    if (v === null) continue;
+    if (run === null) {
+      run = v.slice();
+    } else if (operators[i - 1] === "OR") {
+      if (result === null) result = run;
+      else or(result, run);
+      run = v.slice();
+    } else {
+      for (let d = 0; d < run.length; d++) run[d] &= v[d];
+    }
+  }
+  if (run === null || result === null) return run ?? result;
+  or(result, run);
+  return result;
+}
+
+function countMatched(index: SearchIndex, cfg: QueryConfig, root: QueryNode, eligible: Uint8Array) {
+  const blocks = new Map(listBlocks(root).map((b) => [b.id, b]));
+
+  const evalNode = (node: QueryNode): Uint8Array | null => {
+    let v: Uint8Array | null;
+    if (node.kind === "block") {
+      const block = blocks.get(node.id)!;
+      if (blockTerms(block).length === 0) return null;
+      const mask = fieldBits(index, blockFields(block, cfg, cfg.searchFields));
+      v = Uint8Array.from(blockHitSet(index, block, cfg), (bits) => (bits & mask ? 1 : 0));
+    } else {
+      v = combineSets(node.children.map(evalNode), node.operators);
+    }
+    return v && node.exclude ? v.map((x) => 1 - x) : v;
+  };
+
+  const val = evalNode(root);
+  let matched = 0;
+  for (let d = 0; d < index.size; d++) if (eligible[d] && (!val || val[d])) matched++;
+  return matched;
+}
+
+export function computeHitCounts(index: SearchIndex, cfg: QueryConfig, filter?: FilterOutcome): HitCounts {
+  const searched = searchedFields(cfg, cfg.searchFields);
+  const eligible = new Uint8Array(index.size);
+  index.texts.forEach((doc, d) => (eligible[d] = (!filter || filter.passed[d]) && searched.some((f) => doc[f]) ? 1 : 0));
+  const count = (hits: Uint32Array, mask: number) => hits.reduce((n, bits, d) => (eligible[d] && bits & mask ? n + 1 : n), 0);
+
+  const matched = countMatched(index, cfg, cfg.query, eligible);
+  const blocks: Record<string, BlockCounts> = {};
+  listBlocks(cfg.query).forEach((b) => {
+    const hasTerms = blockTerms(b).length > 0;
+    const mask = fieldBits(index, blockFields(b, cfg, cfg.searchFields));
+    blocks[b.id] = {
+      hits: hasTerms ? count(blockHitSet(index, b, cfg), mask) : 0,
+      contribution: hasTerms ? matched - countMatched(index, cfg, removeNode(cfg.query, b.id), eligible) : 0,
+      terms: b.terms.map((t) => (t.trim() ? count(termHits(index, b, t, cfg), mask) : null)),
+      forms: b.terms.map((t) => (b.stem && t.trim() && !(b.isRegex && hasRegexMeta(t)) ? stemForms(index, queryTerm(t, cfg)) : null)),
+    };
+  });
+
+  return { eligible: eligible.reduce((n, x) => n + x, 0), matched, filtered: filter?.excluded ?? 0, filters: filter?.excludedBy ?? {}, blocks };
+}
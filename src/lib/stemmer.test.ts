@@ -0,0 +1,13 @@
+import { describe, expect, it } from "vitest";
+import { createStemExpander, stem } from "@/lib/stemmer";
+
+describe("stem", () => {
+  it("reduces English word forms to a shared stem", () => {
+    expect(["studies", "studied", "participants", "participation", "running", "training", "trained"].map(stem)).toEqual(["studi", "studi", "particip", "particip", "run", "train", "train"]);
+  });
+
+  it("expands a word to the forms found in a library", () => {
+    const expand = createStemExpander(["participants", "participation", "parties", "training"]);
+    expect(expand("participant").sort()).toEqual(["participant", "participants", "participation"]);
+  });
+});
@@ -0,0 +1,153 @@
+const IRREGULAR: Record<string, string> = {
+  men: "man",
+  women: "woman",
+  children: "child",
+  people: "person",
+  mice: "mouse",
+  feet: "foot",
+  teeth: "tooth",
+  geese: "goose",
+  analyses: "analysis",
+  hypotheses: "hypothesis",
+  theses: "thesis",
+  syntheses: "synthesis",
+  diagnoses: "diagnosis",
+  criteria: "criterion",
+  phenomena: "phenomenon",
+  indices: "index",
+  matrices: "matrix",
+  vertices: "vertex",
+};
+
+const STEP2: Array<[string, string]> = [
+  ["ational", "ate"],
+  ["tional", "tion"],
+  ["enci", "ence"],
+  ["anci", "ance"],
+  ["izer", "ize"],
+  ["bli", "ble"],
+  ["alli", "al"],
+  ["entli", "ent"],
+  ["eli", "e"],
+  ["ousli", "ous"],
+  ["ization", "ize"],
+  ["ation", "ate"],
+  ["ator", "ate"],
+  ["alism", "al"],
+  ["iveness", "ive"],
+  ["fulness", "ful"],
+  ["ousness", "ous"],
+  ["aliti", "al"],
+  ["iviti", "ive"],
+  ["biliti", "ble"],
+  ["logi", "log"],
+];
+
+const STEP3: Array<[string, string]> = [
+  ["icate", "ic"],
+  ["ative", ""],
+  ["alize", "al"],
+  ["iciti", "ic"],
+  ["ical", "ic"],
+  ["ful", ""],
+  ["ness", ""],
+];
+
+const STEP4 = ["al", "ance", "ence", "er", "ic", "able", "ible", "ant", "ement", "ment", "ent", "ion", "ou", "ism", "ate", "iti", "ous", "ive", "ize"];
+
+function isConsonant(w: string, i: number): boolean {
+  const ch = w[i];
+  if ("aeiou".includes(ch)) return false;
+  if (ch === "y") return i === 0 || !isConsonant(w, i - 1);
+  return true;
+}
+
+function measure(w: string) {
+  let m = 0;
+  let i = 0;
+  while (i < w.length && isConsonant(w, i)) i++;
+  while (i < w.length) {
+    while (i < w.length && !isConsonant(w, i)) i++;
+    if (i >= w.length) break;
+    m++;
+    while (i < w.length && isConsonant(w, i)) i++;
+  }
+  return m;
+}
+
+const hasVowel = (w: string) => [...w].some((_, i) => !isConsonant(w, i));
+
+const endsDoubleConsonant = (w: string) => w.length > 1 && w[w.length - 1] === w[w.length - 2] && isConsonant(w, w.length - 1);
+
+const endsCvc = (w: string) => {
+  const n = w.length;
+  return n > 2 && isConsonant(w, n - 3) && !isConsonant(w, n - 2) && isConsonant(w, n - 1) && !"wxy".includes(w[n - 1]);
+};
+
+function replaceSuffix(w: string, rules: Array<[string, string]>, minMeasure: number) {
+  for (const [suffix, replacement] of rules) {
+    if (!w.endsWith(suffix)) continue;
+    const base = w.slice(0, -suffix.length);
+    return measure(base) > minMeasure ? base + replacement : w;
+  }
+  return w;
+}
+
+// Porter (1980) stemmer with a small table of irregular English plurals.
+export function stem(word: string): string {
+  let w = word.toLowerCase();
+  w = IRREGULAR[w] ?? w;
+  if (w.length <= 2 || !/^[a-z]+$/.test(w)) return w;
+
+  if (w.endsWith("sses") || w.endsWith("ies")) w = w.slice(0, -2);
+  else if (w.endsWith("s") && !w.endsWith("ss")) w = w.slice(0, -1);
+
+  if (w.endsWith("eed")) {
+    if (measure(w.slice(0, -3)) > 0) w = w.slice(0, -1);
+  } else {
+    const suffix = w.endsWith("ed") ? "ed" : w.endsWith("ing") ? "ing" : "";
+    if (suffix && hasVowel(w.slice(0, -suffix.length))) {
+      w = w.slice(0, -suffix.length);
+      if (w.endsWith("at") || w.endsWith("bl") || w.endsWith("iz")) w += "e";
+      else if (endsDoubleConsonant(w) && !"lsz".includes(w[w.length - 1])) w = w.slice(0, -1);
+      else if (measure(w) === 1 && endsCvc(w)) w += "e";
+    }
+  }
+
+  if (w.endsWith("y") && hasVowel(w.slice(0, -1))) w = w.slice(0, -1) + "i";
+
+  w = replaceSuffix(w, STEP2, 0);
+  w = replaceSuffix(w, STEP3, 0);
+
+  const suffix = STEP4.find((s) => w.endsWith(s));
+  if (suffix) {
+    const base = w.slice(0, -suffix.length);
+    if (measure(base) > 1 && (suffix !== "ion" || /[st]$/.test(base))) w = base;
+  }
+
+  if (w.endsWith("e")) {
+    const base = w.slice(0, -1);
+    const m = measure(base);
+    if (m > 1 || (m === 1 && !endsCvc(base))) w = base;
+  }
+  if (measure(w) > 1 && w.endsWith("ll")) w = w.slice(0, -1);
+
+  return w;
+}
+
+export type StemExpander = (word: string) => string[];
+
+export function createStemExpander(words: Iterable<string>): StemExpander {
+  const forms = new Map<string, string[]>();
+  for (const word of words) {
+    const key = stem(word);
+    const list = forms.get(key);
+    if (!list) forms.set(key, [word]);
+    else if (!list.includes(word)) list.push(word);
+  }
+  return (word) => {
+    const lower = word.toLowerCase();
+    const found = forms.get(stem(lower)) ?? [];
+    return found.includes(lower) ? found : [lower, ...found];
+  };
+}
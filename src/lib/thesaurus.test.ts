@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest";
+import { expandTerm, parseThesaurus } from "@/lib/thesaurus";
+
+describe("thesaurus", () => {
+  it("expands JSON concepts to synonyms and all narrower terms", () => {
+    const thesaurus = parseThesaurus("terms.json", JSON.stringify([{ label: "display", synonyms: ["screen"], narrower: ["HMD"] }, { label: "HMD", synonyms: ["head-mounted display"] }]));
+    expect(expandTerm(thesaurus, "display")).toEqual(["screen", "HMD", "head-mounted display"]);
+    expect(expandTerm(thesaurus, "screen")).toEqual(["display", "HMD", "head-mounted display"]);
+    expect(expandTerm(thesaurus, "keyboard")).toEqual([]);
+  });
+
+  it("reads SKOS labels and broader links from Turtle", () => {
+    const thesaurus = parseThesaurus(
+      "terms.ttl",
+      `@prefix skos: <http://www.w3.org/2004/02/skos/core#> .
+@prefix ex: <http://example.org/> .
+ex:vr skos:prefLabel "virtual reality"@en ; skos:altLabel "VR" .
+ex:ivr skos:prefLabel "immersive VR" ; skos:broader ex:vr .`,
+    );
+    expect(expandTerm(thesaurus, "VR")).toEqual(["virtual reality", "immersive VR"]);
+  });
+});
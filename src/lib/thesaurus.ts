@@ -0,0 +1,287 @@
+import { listBlocks, updateNode, type GroupNode } from "@/lib/query";
+
+export type ThesaurusConcept = {
+  id: string;
+  label: string;
+  synonyms: string[];
+  narrower: string[];
+};
+
+export type Thesaurus = {
+  name: string;
+  concepts: ThesaurusConcept[];
+};
+
+export const THESAURUS_FILE_ACCEPT = ".json,.ttl,application/json,text/turtle";
+
+const SKOS = "http://www.w3.org/2004/02/skos/core#";
+
+const RDF_TYPE = "http://www.w3.org/1999/02/22-rdf-syntax-ns#type";
+
+type JsonConcept = { label?: string; prefLabel?: string; synonyms?: string[]; altLabels?: string[]; narrower?: string[] };
+
+class ConceptBuilder {
+  private readonly byId = new Map<string, ThesaurusConcept>();
+
+  get(id: string) {
+    let c = this.byId.get(id);
+    if (!c) {
+      c = { id, label: "", synonyms: [], narrower: [] };
+      this.byId.set(id, c);
+    }
+    return c;
+  }
+
+  addSynonym(id: string, label: string) {
+    const c = this.get(id);
+    const clean = label.replace(/\s+/g, " ").trim();
+    if (clean && clean !== c.label && !c.synonyms.includes(clean)) c.synonyms.push(clean);
+  }
+
+  addNarrower(id: string, narrowerId: string) {
+    const c = this.get(id);
+    this.get(narrowerId);
+    if (!c.narrower.includes(narrowerId)) c.narrower.push(narrowerId);
+  }
+
+  build(name: string): Thesaurus {
+    const concepts = [...this.byId.values()].map((c) => {
+      const label = c.label || c.synonyms[0] || c.id.replace(/^.*[#/:]/, "");
+      return { ...c, label, synonyms: c.synonyms.filter((s) => s !== label) };
+    });
+    return { name, concepts };
+  }
+}
+
+function parseJsonThesaurus(name: string, data: unknown): Thesaurus {
+  const builder = new ConceptBuilder();
+  const addConcept = (label: string, c: JsonConcept | string[]) => {
+    const concept = builder.get(label);
+    concept.label = label;
+    const synonyms = Array.isArray(c) ? c : [...(c.synonyms ?? []), ...(c.altLabels ?? [])];
+    synonyms.forEach((s) => builder.addSynonym(label, String(s)));
+    if (!Array.isArray(c)) (c.narrower ?? []).forEach((n) => builder.addNarrower(label, String(n)));
+  };
+
+  const list = Array.isArray(data) ? data : data && typeof data === "object" && Array.isArray((data as { concepts?: unknown }).concepts) ? (data as { concepts: unknown[] }).concepts : null;
+  if (list) {
+    for (const item of list) {
+      if (Array.isArray(item) && item.length > 0) addConcept(String(item[0]), item.slice(1).map(String));
+      else if (item && typeof item === "object" && ((item as JsonConcept).label || (item as JsonConcept).prefLabel)) addConcept(String((item as JsonConcept).label || (item as JsonConcept).prefLabel), item as JsonConcept);
+      else throw new Error(`Unrecognized thesaurus entry: ${JSON.stringify(item).slice(0, 80)}`);
+    }
+  } else if (data && typeof data === "object") {
+    for (const [label, value] of Object.entries(data)) {
+      if (Array.isArray(value)) addConcept(label, value.map(String));
+      else if (value && typeof value === "object") addConcept(label, value as JsonConcept);
+      else throw new Error(`Unrecognized thesaurus entry for "${label}".`);
+    }
+  } else {
+    throw new Error("The thesaurus must be a JSON array or object.");
+  }
+  return builder.build(name);
+}
+
+type TurtleToken = { kind: "iri" | "name" | "literal" | "punct"; value: string; lang?: string; line: number };
+
+function tokenizeTurtle(src: string): TurtleToken[] {
+  const tokens: TurtleToken[] = [];
+  let i = 0;
+  let line = 1;
+  const fail = (message: string): never => {
+    throw new Error(`Turtle line ${line}: ${message}`);
+  };
+
+  while (i < src.length) {
+    const ch = src[i];
+    if (ch === "\n") {
+      line++;
+      i++;
+    } else if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === "#") {
+      while (i < src.length && src[i] !== "\n") i++;
+    } else if (ch === "<") {
+      const end = src.indexOf(">", i);
+      if (end === -1) fail("unterminated IRI");
+      tokens.push({ kind: "iri", value: src.slice(i + 1, end), line });
+      i = end + 1;
+    } else if (ch === '"' || ch === "'") {
+      const long = src.startsWith(ch.repeat(3), i);
+      const quote = long ? ch.repeat(3) : ch;
+      let j = i + quote.length;
+      let value = "";
+      while (j < src.length && !src.startsWith(quote, j)) {
+        if (src[j] === "\\") {
+          const next = src[j + 1];
+          value += { n: "\n", t: "\t", r: "\r" }[next as "n" | "t" | "r"] ?? next;
+          j += 2;
+          continue;
+        }
+        if (src[j] === "\n") {
+          if (!long) fail("line break inside a string");
+          line++;
+        }
+        value += src[j++];
+      }
+      if (j >= src.length) fail("unterminated string");
+      i = j + quote.length;
+      let lang: string | undefined;
+      const langMatch = /^@([a-zA-Z]+(?:-[a-zA-Z0-9]+)*)/.exec(src.slice(i));
+      if (langMatch) {
+        lang = langMatch[1].toLowerCase();
+        i += langMatch[0].length;
+      } else if (src.startsWith("^^", i)) {
+        i += 2;
+        if (src[i] === "<") i = src.indexOf(">", i) + 1;
+        else while (i < src.length && /[^\s;,.]/.test(src[i])) i++;
+      }
+      tokens.push({ kind: "literal", value, lang, line });
+    } else if (";,.[]()".includes(ch)) {
+      tokens.push({ kind: "punct", value: ch, line });
+      i++;
+    } else {
+      const m = /^(?:@?[A-Za-z_][\w-]*)?:?[\w.%-]*/.exec(src.slice(i));
+      let word = m?.[0] ?? "";
+      while (word.endsWith(".")) word = word.slice(0, -1);
+      if (!word) fail(`unexpected character "${ch}"`);
+      tokens.push({ kind: "name", value: word, line });
+      i += word.length;
+    }
+  }
+  return tokens;
+}
+
+function parseTurtleThesaurus(name: string, src: string): Thesaurus {
+  const tokens = tokenizeTurtle(src);
+  const prefixes: Record<string, string> = { skos: SKOS };
+  const labels = new Map<string, { pref: Array<{ value: string; lang?: string }>; alt: Array<{ value: string; lang?: string }> }>();
+  const builder = new ConceptBuilder();
+  let pos = 0;
+
+  const fail = (message: string): never => {
+    throw new Error(`Turtle line ${tokens[Math.min(pos, tokens.length - 1)]?.line ?? 1}: ${message}`);
+  };
+  const next = () => tokens[pos++] ?? fail("unexpected end of file");
+  const expect = (value: string) => {
+    const t = next();
+    if (t.kind !== "punct" || t.value !== value) fail(`expected "${value}"`);
+  };
+  const resolve = (t: TurtleToken) => {
+    if (t.kind === "iri") return t.value;
+    if (t.kind === "name") {
+      if (t.value === "a") return RDF_TYPE;
+      const colon = t.value.indexOf(":");
+      if (colon !== -1 && t.value.slice(0, colon) in prefixes) return prefixes[t.value.slice(0, colon)] + t.value.slice(colon + 1);
+      if (colon !== -1) fail(`unknown prefix "${t.value.slice(0, colon)}:"`);
+    }
+    return fail(`expected an IRI, got "${t.value}"`);
+  };
+  const labelsOf = (id: string) => {
+    let l = labels.get(id);
+    if (!l) labels.set(id, (l = { pref: [], alt: [] }));
+    return l;
+  };
+
+  while (pos < tokens.length) {
+    const t = next();
+    if (t.kind === "name" && /^(?:@prefix|prefix)$/i.test(t.value)) {
+      const p = next();
+      const iri = next();
+      if (p.kind !== "name" || !p.value.endsWith(":") || iri.kind !== "iri") fail("malformed prefix declaration");
+      prefixes[p.value.slice(0, -1)] = iri.value;
+      if (t.value.startsWith("@")) expect(".");
+      continue;
+    }
+    if (t.kind === "name" && /^(?:@base|base)$/i.test(t.value)) {
+      next();
+      if (t.value.startsWith("@")) expect(".");
+      continue;
+    }
+    if (t.kind === "punct") fail(t.value === "[" ? "blank nodes are not supported" : `unexpected "${t.value}"`);
+    const subject = resolve(t);
+
+    for (;;) {
+      const predicate = resolve(next());
+      for (;;) {
+        const o = next();
+        if (o.kind === "punct") fail(o.value === "[" ? "blank nodes are not supported" : `unexpected "${o.value}"`);
+        if (predicate === `${SKOS}prefLabel` && o.kind === "literal") labelsOf(subject).pref.push({ value: o.value, lang: o.lang });
+        else if ((predicate === `${SKOS}altLabel` || predicate === `${SKOS}hiddenLabel`) && o.kind === "literal") labelsOf(subject).alt.push({ value: o.value, lang: o.lang });
+        else if (predicate === `${SKOS}narrower` && o.kind !== "literal") builder.addNarrower(subject, resolve(o));
+        else if (predicate === `${SKOS}broader` && o.kind !== "literal") builder.addNarrower(resolve(o), subject);
+        else if (predicate === RDF_TYPE && o.kind !== "literal" && resolve(o) === `${SKOS}Concept`) builder.get(subject);
+        const sep = next();
+        if (sep.kind === "punct" && sep.value === ",") continue;
+        pos--;
+        break;
+      }
+      const sep = next();
+      if (sep.kind === "punct" && sep.value === ";") {
+        const after = tokens[pos];
+        if (after?.kind === "punct" && after.value === ".") {
+          pos++;
+          break;
+        }
+        continue;
+      }
+      if (sep.kind === "punct" && sep.value === ".") break;
+      fail(`expected ";" or "." after the object`);
+    }
+  }
+
+  const english = (l: { lang?: string }) => !l.lang || l.lang === "en" || l.lang.startsWith("en-");
+  for (const [id, l] of labels) {
+    const c = builder.get(id);
+    const pref = l.pref.find(english) ?? l.pref[0];
+    if (pref) c.label = pref.value;
+    [...l.pref, ...l.alt].filter((x) => x !== pref && english(x)).forEach((x) => builder.addSynonym(id, x.value));
+  }
+  const thesaurus = builder.build(name);
+  if (thesaurus.concepts.length === 0) throw new Error("No SKOS concepts with labels were found.");
+  return thesaurus;
+}
+
+export function parseThesaurus(name: string, text: string): Thesaurus {
+  const trimmed = text.trim();
+  if (/^[[{]/.test(trimmed)) {
+    let data: unknown;
+    try {
+      data = JSON.parse(trimmed);
+    } catch (error) {
+      throw new Error(`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return parseJsonThesaurus(name, data);
+  }
+  return parseTurtleThesaurus(name, text);
+}
+
+const normalizeLabel = (s: string) => s.replace(/\s+/g, " ").trim().toLowerCase();
+
+export function expandTerm(thesaurus: Thesaurus, term: string): string[] {
+  const key = normalizeLabel(term);
+  const byId = new Map(thesaurus.concepts.map((c) => [c.id, c]));
+  const seen = new Set<string>();
+  const out = new Set<string>();
+
+  const visit = (c: ThesaurusConcept) => {
+    if (seen.has(c.id)) return;
+    seen.add(c.id);
+    [c.label, ...c.synonyms].forEach((l) => out.add(l));
+    c.narrower.forEach((id) => {
+      const n = byId.get(id);
+      if (n) visit(n);
+    });
+  };
+  thesaurus.concepts.filter((c) => [c.label, ...c.synonyms].some((l) => normalizeLabel(l) === key)).forEach(visit);
+
+  return [...out].filter((l) => normalizeLabel(l) !== key);
+}
+
+export function refreshExpansions(root: GroupNode, thesaurus: Thesaurus): GroupNode {
+  return listBlocks(root).reduce((r, b) => {
+    if (!b.expansions) return r;
+    const expansions = Object.fromEntries(Object.keys(b.expansions).map((term) => [term, expandTerm(thesaurus, term)]));
+    return updateNode(r, b.id, { expansions });
+  }, root);
+}
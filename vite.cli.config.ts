@@ -0,0 +1,23 @@
+import path from "path";
+import { defineConfig } from "vite";
+
+// Bundles the headless `lsb` command for Node; see the "Command line" section of the README.
+export default defineConfig({
+  publicDir: false,
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "./src"),
+    },
+  },
+  ssr: {
+    noExternal: true,
+  },
+  build: {
+    ssr: "src/cli/lsb.ts",
+    outDir: "dist-cli",
+    target: "node20",
+    rollupOptions: {
+      output: { entryFileNames: "lsb.js", banner: "#!/usr/bin/env node" },
+    },
+  },
+});
@@ -0,0 +1,23 @@
+import path from "path";
+import { defineConfig } from "vite";
+import dts from "vite-plugin-dts";
+
+// Builds the matching engine (src/engine) as an ES module with type declarations for other tools.
+export default defineConfig({
+  publicDir: false,
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "./src"),
+    },
+  },
+  plugins: [dts({ tsconfigPath: "./tsconfig.app.json", entryRoot: "src", include: ["src/engine", "src/lib"], exclude: ["src/**/*.test.ts"] })],
+  build: {
+    outDir: "dist-engine",
+    target: "es2022",
+    lib: {
+      entry: "src/engine/index.ts",
+      formats: ["es"],
+      fileName: "engine",
+    },
+  },
+});